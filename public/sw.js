@@ -0,0 +1,74 @@
+// HabitGrid service worker. It keeps the app shell cached so the app opens
+// without a connection; habits and entries live in IndexedDB and are never
+// cached here. Reminders are decided by the page, since only it knows the
+// current entries, and shown through this worker so a click brings the app back.
+
+// One cache per build, named by the build ID the page registers this worker with;
+// activating a new build's worker deletes the caches of the ones before it
+const CACHE = `habitgrid-shell-${new URL(self.location.href).searchParams.get('build') ?? 'dev'}`;
+const SHELL = ['/', '/manifest.webmanifest', '/icon-192.png', '/icon-512.png'];
+
+// The built scripts and styles are named by content hash, so they are read off the page itself
+async function precache() {
+  const cache = await caches.open(CACHE);
+  await cache.addAll(SHELL);
+  const html = await (await cache.match('/')).text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1]);
+  await cache.addAll(assets);
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    const stale = names.filter(name => name.startsWith('habitgrid-shell-') && name !== CACHE);
+    await Promise.all(stale.map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+async function fromNetwork(request, fallbackUrl) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(fallbackUrl ?? request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(fallbackUrl ?? request);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function fromCache(request) {
+  const cached = await caches.match(request);
+  return cached ?? fromNetwork(request);
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+  if (request.mode === 'navigate') {
+    // Every route is the same single page, so one cached copy serves them all
+    event.respondWith(fromNetwork(request, '/'));
+  } else if (url.pathname.startsWith('/assets/')) {
+    // Built assets have content hashes in their names and never change
+    event.respondWith(fromCache(request));
+  } else {
+    event.respondWith(fromNetwork(request));
+  }
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows.find(w => new URL(w.url).origin === self.location.origin);
+    if (client) return client.focus();
+    return self.clients.openWindow('/');
+  })());
+});
@@ -0,0 +1,44 @@
+import 'dotenv/config';
+import express from 'express';
+import path from 'path';
+import { createServer as createViteServer } from 'vite';
+import { createAccounts } from './server/accounts';
+import { createApiRouter } from './server/api';
+import { openDatabase } from './server/db';
+import { createFakeInsightsModel, createGeminiInsightsModel } from './server/insights';
+import { createStore } from './server/store';
+import { createTeams } from './server/teams';
+
+const PORT = Number(process.env.PORT) || 3000;
+
+async function startServer() {
+  const app = express();
+  const db = openDatabase();
+
+  // INSIGHTS_MODEL=fake swaps Gemini for a local rule-based stand-in that needs no network
+  const insights = process.env.INSIGHTS_MODEL === 'fake'
+    ? createFakeInsightsModel()
+    : process.env.GEMINI_API_KEY ? createGeminiInsightsModel(process.env.GEMINI_API_KEY) : null;
+
+  app.use('/api', createApiRouter(createStore(db), createAccounts(db), createTeams(db), insights));
+
+  if (process.env.NODE_ENV !== 'production') {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`HabitGrid running on http://localhost:${PORT}`);
+  });
+}
+
+startServer();
@@ -0,0 +1,76 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { startTestServer, TestServer } from './testing';
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => server.close());
+
+const withToken = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+let count = 0;
+async function register() {
+  const email = `user-${++count}@example.com`;
+  const res = await server.request('/auth/register', {
+    method: 'POST',
+    body: JSON.stringify({ name: `User ${count}`, email, password: 'correct horse' }),
+  });
+  expect(res.status).toBe(201);
+  return (await res.json()) as { user: { id: string }; token: string };
+}
+
+describe('accounts', () => {
+  it('leaves the signed-out grid alone when the first account signs up, then closes it', async () => {
+    const signedOut = await (await server.request('/habits')).json();
+    expect(signedOut.length).toBeGreaterThan(0);
+
+    const { token } = await register();
+    expect(await (await server.request('/habits', { headers: withToken(token) })).json()).toEqual([]);
+
+    const res = await server.request('/habits');
+    expect(res.status).toBe(401);
+    expect((await server.request('/state')).status).toBe(401);
+    expect((await server.request('/habits', { method: 'POST', body: JSON.stringify({ name: 'Sneaky', targetTime: 5 }) })).status).toBe(401);
+    const owners = server.db.prepare('SELECT DISTINCT user_id FROM habits').all() as { user_id: string | null }[];
+    expect(owners).toEqual([{ user_id: null }]);
+  });
+
+  it('keeps only a hash of each token', async () => {
+    const { token } = await register();
+    const rows = server.db.prepare('SELECT token_hash FROM auth_tokens').all() as { token_hash: string }[];
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.some(row => row.token_hash === token)).toBe(false);
+    expect((await server.request('/auth/me', { headers: withToken(token) })).status).toBe(200);
+  });
+
+  it('refuses tokens that expired or were signed out', async () => {
+    const expired = await register();
+    server.db.prepare("UPDATE auth_tokens SET expires_at = '2000-01-01T00:00:00.000Z'").run();
+    const res = await server.request('/auth/me', { headers: withToken(expired.token) });
+    expect(res.status).toBe(401);
+    expect((await res.json()).error).toMatch(/expired/);
+
+    const { token } = await register();
+    expect((await server.request('/auth/logout', { method: 'POST', headers: withToken(token) })).status).toBe(204);
+    expect((await server.request('/auth/me', { headers: withToken(token) })).status).toBe(401);
+  });
+
+  it('gives a new habit another id when another account already uses the one asked for', async () => {
+    const first = await register();
+    const second = await register();
+    const habit = { id: `shared-${count}`, name: 'Reading', targetTime: 20 };
+    const create = (token: string) =>
+      server.request('/habits', { method: 'POST', headers: withToken(token), body: JSON.stringify(habit) });
+
+    expect(await (await create(first.token)).json()).toMatchObject({ id: habit.id });
+    const res = await create(second.token);
+    expect(res.status).toBe(201);
+    const created = await res.json();
+    expect(created).toMatchObject({ name: 'Reading' });
+    expect(created.id).not.toBe(habit.id);
+    expect((await create(first.token)).status).toBe(409);
+  });
+});
@@ -0,0 +1,111 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { ThemePreference, User } from '../src/types';
+import { DB } from './db';
+
+interface UserRow {
+  id: string;
+  name: string;
+  email: string;
+  password_hash: string;
+  theme: ThemePreference | null;
+  created_at: string;
+}
+
+const toUser = (row: UserRow): User => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  ...(row.theme ? { theme: row.theme } : {}),
+});
+
+function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  return `${salt.toString('hex')}:${scryptSync(password, salt, 64).toString('hex')}`;
+}
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  return timingSafeEqual(scryptSync(password, Buffer.from(salt, 'hex'), expected.length), expected);
+}
+
+const newId = () => randomBytes(6).toString('hex');
+
+// Sessions last this long after their last use, so a device in daily use stays signed in
+const TOKEN_LIFETIME_DAYS = 30;
+
+// Only a hash of each token is kept, so a copy of the database can't sign anyone in
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const expiresAt = (now: Date) => new Date(now.getTime() + TOKEN_LIFETIME_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+/** Accounts and the bearer tokens that sign them in. */
+export function createAccounts(db: DB) {
+  const statements = {
+    insertUser: db.prepare('INSERT INTO users (id, name, email, password_hash) VALUES (@id, @name, @email, @passwordHash)'),
+    getUser: db.prepare<[string], UserRow>('SELECT * FROM users WHERE id = ?'),
+    getUserByEmail: db.prepare<[string], UserRow>('SELECT * FROM users WHERE email = ?'),
+    setTheme: db.prepare('UPDATE users SET theme = ? WHERE id = ?'),
+    countUsers: db.prepare<[], { count: number }>('SELECT COUNT(*) AS count FROM users'),
+    insertToken: db.prepare('INSERT INTO auth_tokens (token_hash, user_id, expires_at) VALUES (?, ?, ?)'),
+    getUserByToken: db.prepare<[string, string], UserRow>(
+      'SELECT u.* FROM users u JOIN auth_tokens t ON t.user_id = u.id WHERE t.token_hash = ? AND t.expires_at > ?'
+    ),
+    renewToken: db.prepare('UPDATE auth_tokens SET expires_at = ? WHERE token_hash = ?'),
+    deleteToken: db.prepare('DELETE FROM auth_tokens WHERE token_hash = ?'),
+    deleteExpiredTokens: db.prepare('DELETE FROM auth_tokens WHERE expires_at <= ?'),
+  };
+
+  return {
+    /**
+     * Creates an account, or returns undefined when the email is taken. The
+     * account starts empty; a device brings its grid along by importing it.
+     */
+    register: db.transaction((name: string, email: string, password: string): User | undefined => {
+      if (statements.getUserByEmail.get(email)) return undefined;
+      const id = newId();
+      statements.insertUser.run({ id, name, email, passwordHash: hashPassword(password) });
+      return toUser(statements.getUser.get(id)!);
+    }),
+
+    // Once anyone has an account, signed-out requests no longer reach the data kept without one
+    hasAccounts: () => statements.countUsers.get()!.count > 0,
+
+    login: (email: string, password: string): User | undefined => {
+      const row = statements.getUserByEmail.get(email);
+      return row && verifyPassword(password, row.password_hash) ? toUser(row) : undefined;
+    },
+
+    getUser: (id: string) => {
+      const row = statements.getUser.get(id);
+      return row ? toUser(row) : undefined;
+    },
+
+    setTheme: (id: string, theme: ThemePreference): User => {
+      statements.setTheme.run(theme, id);
+      return toUser(statements.getUser.get(id)!);
+    },
+
+    createToken: (userId: string, now = new Date()) => {
+      const token = randomBytes(32).toString('hex');
+      statements.deleteExpiredTokens.run(now.toISOString());
+      statements.insertToken.run(hashToken(token), userId, expiresAt(now));
+      return token;
+    },
+
+    /** The token's account while the token is live; each use extends it. */
+    getUserByToken: (token: string, now = new Date()) => {
+      const hash = hashToken(token);
+      const row = statements.getUserByToken.get(hash, now.toISOString());
+      if (!row) return undefined;
+      statements.renewToken.run(expiresAt(now), hash);
+      return toUser(row);
+    },
+
+    revokeToken: (token: string) => {
+      statements.deleteToken.run(hashToken(token));
+    },
+  };
+}
+
+export type Accounts = ReturnType<typeof createAccounts>;
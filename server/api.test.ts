@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Achievement, Habit } from '../src/types';
+import { startTestServer, TestServer } from './testing';
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => server.close());
+
+const json = (body: unknown) => JSON.stringify(body);
+
+describe('achievements', () => {
+  const reached: Achievement = { milestoneId: 'm1', kind: 'doneDays', target: 5, achievedAt: '2024-10-08' };
+  const habit: Habit = {
+    id: 'achiever',
+    name: 'Reading',
+    targetTime: 20,
+    milestones: [{ id: 'm1', kind: 'doneDays', target: 5, startDate: '2024-10-01', deadline: '2024-10-31' }],
+  };
+
+  beforeAll(async () => {
+    expect((await server.request('/habits', { method: 'POST', body: json(habit) })).status).toBe(201);
+  });
+
+  it('records new achievements without touching the rest of the habit', async () => {
+    await server.request(`/habits/${habit.id}`, { method: 'PUT', body: json({ ...habit, name: 'Reading Daily' }) });
+    const res = await server.request(`/habits/${habit.id}/achievements`, { method: 'POST', body: json({ achievements: [reached] }) });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      name: 'Reading Daily',
+      milestones: [{ id: 'm1', achievedAt: '2024-10-08' }],
+      achievements: [reached],
+    });
+  });
+
+  it('keeps them when an older copy of the habit is written back', async () => {
+    const res = await server.request(`/habits/${habit.id}`, { method: 'PUT', body: json(habit) });
+    expect(await res.json()).toMatchObject({ name: 'Reading', milestones: [{ achievedAt: '2024-10-08' }], achievements: [reached] });
+  });
+
+  it('refuses bodies without achievements', async () => {
+    expect((await server.request(`/habits/${habit.id}/achievements`, { method: 'POST', body: json({}) })).status).toBe(400);
+    expect((await server.request('/habits/missing/achievements', { method: 'POST', body: json({ achievements: [] }) })).status).toBe(404);
+  });
+});
+
+describe('error responses', () => {
+  it('answers 400 for bodies the JSON parser refuses', async () => {
+    for (const body of ['null', '{"name": "Reading",', '"just a string"']) {
+      const res = await server.request('/habits', { method: 'POST', body });
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toEqual(expect.any(String));
+    }
+  });
+
+  it('answers 413 for bodies over the size limit', async () => {
+    const res = await server.request('/import', { method: 'POST', body: json({ habits: [], entries: [], padding: 'x'.repeat(6 * 1024 * 1024) }) });
+    expect(res.status).toBe(413);
+  });
+});
+
+describe('habits in the trash', () => {
+  const habit: Habit = { id: 'trashed', name: 'Piano', targetTime: 15 };
+
+  beforeAll(async () => {
+    await server.request('/habits', { method: 'POST', body: json(habit) });
+    await server.request(`/habits/${habit.id}/entries/2024-10-08`, { method: 'PUT', body: json({ status: 'done', timeSpent: 15 }) });
+    expect((await server.request(`/habits/${habit.id}`, { method: 'DELETE' })).status).toBe(204);
+  });
+
+  const ids = async () => ((await (await server.request('/state')).json()).habits as Habit[]).map(h => h.id);
+
+  it('refuses to create a habit over one in the trash', async () => {
+    const res = await server.request('/habits', { method: 'POST', body: json({ ...habit, name: 'Guitar' }) });
+    expect(res.status).toBe(409);
+    expect(await ids()).not.toContain(habit.id);
+  });
+
+  it('gives an imported habit with a trashed id a new one when merging', async () => {
+    const res = await server.request('/import?mode=merge', {
+      method: 'POST',
+      body: json({ habits: [{ ...habit, name: 'Imported Piano' }], entries: [{ habitId: habit.id, date: '2024-10-09', status: 'done', timeSpent: 10 }] }),
+    });
+    const state = await res.json();
+    const imported = (state.habits as Habit[]).find(h => h.name === 'Imported Piano')!;
+    expect(imported.id).not.toBe(habit.id);
+    expect(state.entries).toContainEqual(expect.objectContaining({ habitId: imported.id, date: '2024-10-09' }));
+    expect(state.entries).not.toContainEqual(expect.objectContaining({ habitId: habit.id }));
+  });
+
+  it('brings it back only through restore, with its entries and a logged restore', async () => {
+    const res = await server.request(`/habits/${habit.id}/restore`, { method: 'POST' });
+    expect(res.status).toBe(200);
+    const state = await res.json();
+    expect(state.habits).toContainEqual(expect.objectContaining({ id: habit.id, name: 'Piano' }));
+    expect(state.entries).toContainEqual(expect.objectContaining({ habitId: habit.id, date: '2024-10-08' }));
+    const [latest] = await (await server.request('/activity?limit=1')).json();
+    expect(latest).toMatchObject({ action: 'habit.restore', habitId: habit.id });
+  });
+});
@@ -0,0 +1,745 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { isValid } from 'date-fns';
+import { Challenge, Habit, HabitEntry, HabitMeasure, HabitSchedule, HabitSession, HabitStatus, Rating, ScheduleFrequency, SchedulePeriod, SuccessRule, TargetChange, TargetDirection, TargetProgram, Milestone, Achievement, MilestoneKind, TeamDetail, ThemePreference, User } from '../src/types';
+import { Store, StoreFactory } from './store';
+import { EntryField, mergeEntries } from '../src/lib/sync';
+import { rankLeaderboard, scoreChallenge } from '../src/lib/challenges';
+import { buildWeekReport, InsightsModel, parseInsights } from './insights';
+import { Accounts } from './accounts';
+import { Teams, toSharedEntry, toSharedHabit } from './teams';
+import { DaySettings, getDateKeyAt, getDaySettings, isValidTimeZone, parseDateKey, toDateKey, withDaySettings } from '../src/lib/dates';
+import { isRating, parseEntryTags } from '../src/lib/journal';
+import { addAchievements } from '../src/lib/milestones';
+
+const STATUSES: HabitStatus[] = ['done', 'failed', 'skipped', 'none'];
+const SUCCESS_RULES: SuccessRule[] = ['manual', 'target', 'partial'];
+const MEASURES: HabitMeasure[] = ['time', 'count'];
+const DIRECTIONS: TargetDirection[] = ['atLeast', 'atMost'];
+const THEMES: ThemePreference[] = ['system', 'light', 'dark', 'highContrast'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/;
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// The day changed since the client's copy in a way that can't be merged
+export class ConflictError extends HttpError {
+  constructor(public current: HabitEntry | null, public fields: EntryField[]) {
+    super(409, 'This day was changed on another device');
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+// Request bodies are whatever JSON the client sent; anything but an object reads as one without fields
+const fieldsOf = (value: unknown): Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Fields) : {};
+
+const isWhole = (value: unknown): value is number => Number.isInteger(value);
+const isPositiveInt = (value: unknown): value is number => isWhole(value) && value > 0;
+const isStrings = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T => values.includes(value as T);
+const isDate = (value: unknown): value is string => typeof value === 'string' && DATE_PATTERN.test(value);
+
+function parseDate(value: unknown, name: string): string {
+  if (!isDate(value)) throw new HttpError(400, `${name} must be formatted as yyyy-MM-dd`);
+  return value;
+}
+
+const parseOptionalDate = (value: unknown, name: string) => (value === undefined ? undefined : parseDate(value, name));
+
+function parseOptionalTime(value: unknown, name: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !TIME_PATTERN.test(value)) throw new HttpError(400, `${name} must be formatted as HH:mm`);
+  return value;
+}
+
+const PERIODS: SchedulePeriod[] = ['week', 'month'];
+const isWeekdays = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.length > 0 && value.every(day => isWhole(day) && day >= 0 && day <= 6);
+
+// An interval counts from the schedule's startDate, so it needs one
+function parseFrequency(value: unknown, startDate: unknown): ScheduleFrequency {
+  const { kind, days, count, period, every } = fieldsOf(value);
+  if (kind === 'daily') return { kind };
+  if (kind === 'weekdays' && isWeekdays(days)) return { kind, days };
+  if (kind === 'perPeriod' && isPositiveInt(count) && isOneOf(PERIODS, period)) return { kind, count, period };
+  if (kind === 'interval' && isPositiveInt(every) && isDate(startDate)) return { kind, every };
+  throw new HttpError(400, 'Invalid schedule frequency');
+}
+
+function parseSchedule(value: unknown): HabitSchedule | undefined {
+  if (value === undefined || value === null) return undefined;
+  const fields = fieldsOf(value);
+  const frequency = parseFrequency(fields.frequency, fields.startDate);
+  const startDate = parseOptionalDate(fields.startDate, 'schedule.startDate');
+  const endDate = parseOptionalDate(fields.endDate, 'schedule.endDate');
+  if (startDate && endDate && startDate > endDate) {
+    throw new HttpError(400, 'schedule.endDate must not be before startDate');
+  }
+  return {
+    frequency,
+    ...(startDate ? { startDate } : {}),
+    ...(endDate ? { endDate } : {}),
+  };
+}
+
+function parseTags(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  if (!isStrings(value)) throw new HttpError(400, 'tags must be an array of strings');
+  return [...new Set(value.map(tag => tag.trim()).filter(Boolean))];
+}
+
+function parseTargetHistory(value: unknown, minimum: number): TargetChange[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) throw new HttpError(400, 'targetHistory must be an array');
+  let previous = '';
+  return value.map((change: unknown, i: number) => {
+    const fields = fieldsOf(change);
+    const targetTime = Number(fields.targetTime);
+    const from = parseDate(fields.from, `targetHistory ${i + 1}: from`);
+    if (from <= previous) throw new HttpError(400, 'targetHistory must be sorted by date without duplicates');
+    if (!Number.isInteger(targetTime) || targetTime < minimum) {
+      throw new HttpError(400, `targetHistory ${i + 1}: targetTime must be a whole number of at least ${minimum}`);
+    }
+    previous = from;
+    return { from, targetTime };
+  });
+}
+
+function parseProgram(value: unknown, minimum: number): TargetProgram | undefined {
+  if (value === undefined || value === null) return undefined;
+  const fields = fieldsOf(value);
+  const { ramp, start, cap, increase, everyWeeks, deloadEvery, deloadPercent } = fields;
+  const startDate = parseDate(fields.startDate, 'program.startDate');
+  const endDate = parseOptionalDate(fields.endDate, 'program.endDate');
+  if (endDate && endDate < startDate) {
+    throw new HttpError(400, 'program.endDate must not be before startDate');
+  }
+  if (ramp !== 'linear' && ramp !== 'step') throw new HttpError(400, 'program.ramp must be one of linear, step');
+  if (!isWhole(start) || start < minimum) {
+    throw new HttpError(400, `program.start must be a whole number of at least ${minimum}`);
+  }
+  // Goals never drop below the habit's minimum, so a taper may aim for zero either way
+  if (!isWhole(cap) || cap < 0) throw new HttpError(400, 'program.cap must be a whole number of zero or more');
+  if (!isWhole(increase)) throw new HttpError(400, 'program.increase must be a whole number');
+  if (!isPositiveInt(everyWeeks)) throw new HttpError(400, 'program.everyWeeks must be a positive whole number');
+  if (deloadEvery !== undefined && (!isWhole(deloadEvery) || deloadEvery < 2)) {
+    throw new HttpError(400, 'program.deloadEvery must be a whole number of at least 2');
+  }
+  if (deloadPercent !== undefined && (!isWhole(deloadPercent) || deloadPercent < 1 || deloadPercent > 100)) {
+    throw new HttpError(400, 'program.deloadPercent must be a whole number between 1 and 100');
+  }
+  return {
+    startDate,
+    ...(endDate ? { endDate } : {}),
+    start,
+    ramp,
+    increase,
+    everyWeeks,
+    cap,
+    ...(isWhole(deloadEvery) ? { deloadEvery, ...(isWhole(deloadPercent) ? { deloadPercent } : {}) } : {}),
+  };
+}
+
+const MILESTONE_KINDS: MilestoneKind[] = ['total', 'doneDays', 'streak'];
+
+function parseMilestones(value: unknown): Milestone[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) throw new HttpError(400, 'milestones must be an array');
+  return value.map((milestone: unknown, i: number) => {
+    const fields = fieldsOf(milestone);
+    const { id, kind, target } = fields;
+    if (typeof id !== 'string' || !id) throw new HttpError(400, `milestone ${i + 1}: id is required`);
+    if (!isOneOf(MILESTONE_KINDS, kind)) {
+      throw new HttpError(400, `milestone ${i + 1}: kind must be one of ${MILESTONE_KINDS.join(', ')}`);
+    }
+    if (!isPositiveInt(target)) throw new HttpError(400, `milestone ${i + 1}: target must be a positive whole number`);
+    const startDate = parseDate(fields.startDate, `milestone ${i + 1}: startDate`);
+    const deadline = parseDate(fields.deadline, `milestone ${i + 1}: deadline`);
+    if (deadline < startDate) throw new HttpError(400, `milestone ${i + 1}: deadline must not be before startDate`);
+    const achievedAt = parseOptionalDate(fields.achievedAt, `milestone ${i + 1}: achievedAt`);
+    return {
+      id,
+      kind,
+      target,
+      startDate,
+      deadline,
+      ...(achievedAt ? { achievedAt } : {}),
+    };
+  });
+}
+
+function parseAchievements(value: unknown): Achievement[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) throw new HttpError(400, 'achievements must be an array');
+  return value.map((achievement: unknown, i: number) => {
+    const { milestoneId, kind, target, achievedAt } = fieldsOf(achievement);
+    if (typeof milestoneId !== 'string' || !isOneOf(MILESTONE_KINDS, kind) || !isPositiveInt(target) || !isDate(achievedAt)) {
+      throw new HttpError(400, `achievement ${i + 1} is invalid`);
+    }
+    return { milestoneId, kind, target, achievedAt };
+  });
+}
+
+function parseHabit(body: unknown, id: string): Habit {
+  const fields = fieldsOf(body);
+  const name = typeof fields.name === 'string' ? fields.name.trim() : '';
+  const targetTime = Number(fields.targetTime);
+  if (!name) throw new HttpError(400, 'Habit name is required');
+  const measure = fields.measure ?? 'time';
+  if (!isOneOf(MEASURES, measure)) throw new HttpError(400, `measure must be one of ${MEASURES.join(', ')}`);
+  const direction = fields.direction ?? 'atLeast';
+  if (!isOneOf(DIRECTIONS, direction)) throw new HttpError(400, `direction must be one of ${DIRECTIONS.join(', ')}`);
+  // A limit of zero is a plain "quit" habit, a target has to ask for something
+  if (direction === 'atMost' ? !Number.isInteger(targetTime) || targetTime < 0 : !isPositiveInt(targetTime)) {
+    throw new HttpError(400, direction === 'atMost'
+      ? 'targetTime must be a whole number of zero or more'
+      : 'targetTime must be a positive whole number');
+  }
+  const unit = typeof fields.unit === 'string' ? fields.unit.trim() : '';
+  const targetHistory = parseTargetHistory(fields.targetHistory, direction === 'atMost' ? 0 : 1);
+  const program = parseProgram(fields.program, direction === 'atMost' ? 0 : 1);
+  const milestones = parseMilestones(fields.milestones);
+  const achievements = parseAchievements(fields.achievements);
+  const group = typeof fields.group === 'string' ? fields.group.trim() : '';
+  const tags = parseTags(fields.tags);
+  const color = typeof fields.color === 'string' ? fields.color.toLowerCase() : '';
+  if (color && !COLOR_PATTERN.test(color)) throw new HttpError(400, 'color must be a hex color like #3b82f6');
+  const archivedAt = parseOptionalDate(fields.archivedAt, 'archivedAt');
+  const reminderTime = parseOptionalTime(fields.reminderTime, 'reminderTime');
+  const schedule = parseSchedule(fields.schedule);
+  const freezeDaysPerMonth = Number(fields.freezeDaysPerMonth ?? 0);
+  if (!Number.isInteger(freezeDaysPerMonth) || freezeDaysPerMonth < 0 || freezeDaysPerMonth > 31) {
+    throw new HttpError(400, 'freezeDaysPerMonth must be a whole number between 0 and 31');
+  }
+  const successRule = fields.successRule ?? 'manual';
+  if (!isOneOf(SUCCESS_RULES, successRule)) throw new HttpError(400, `successRule must be one of ${SUCCESS_RULES.join(', ')}`);
+  const createdAt = parseOptionalDate(fields.createdAt, 'createdAt');
+  return {
+    id,
+    name,
+    targetTime,
+    ...(targetHistory?.length ? { targetHistory } : {}),
+    ...(program ? { program } : {}),
+    ...(milestones?.length ? { milestones } : {}),
+    ...(achievements?.length ? { achievements } : {}),
+    ...(color ? { color } : {}),
+    ...(schedule ? { schedule } : {}),
+    ...(freezeDaysPerMonth ? { freezeDaysPerMonth } : {}),
+    ...(successRule !== 'manual' ? { successRule } : {}),
+    ...(measure !== 'time' ? { measure } : {}),
+    ...(measure === 'count' && unit ? { unit } : {}),
+    ...(direction !== 'atLeast' ? { direction } : {}),
+    ...(group ? { group } : {}),
+    ...(tags.length ? { tags } : {}),
+    ...(archivedAt ? { archivedAt } : {}),
+    ...(reminderTime ? { reminderTime } : {}),
+    ...(createdAt ? { createdAt } : {}),
+  };
+}
+
+function parseSessions(value: unknown): HabitSession[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) throw new HttpError(400, 'sessions must be an array');
+  const ids = new Set<string>();
+  return value.map((session: unknown, i: number) => {
+    const fields = fieldsOf(session);
+    const { id, note } = fields;
+    const duration = Number(fields.duration);
+    if (typeof id !== 'string' || !id || ids.has(id)) throw new HttpError(400, `Session ${i + 1} needs a unique id`);
+    if (!Number.isFinite(duration) || duration < 0) throw new HttpError(400, `Session ${i + 1} has an invalid duration`);
+    const startTime = parseOptionalTime(fields.startTime, `Session ${i + 1} startTime`);
+    ids.add(id);
+    return {
+      id,
+      ...(startTime ? { startTime } : {}),
+      duration: Math.round(duration),
+      ...(typeof note === 'string' && note !== '' ? { note } : {}),
+    };
+  });
+}
+
+function parseRating(value: unknown, name: string): Rating | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRating(value)) throw new HttpError(400, `${name} must be a whole number from 1 to 5`);
+  return value;
+}
+
+function parseEntry(body: unknown, habitId: string, date: string): HabitEntry {
+  if (!DATE_PATTERN.test(date)) throw new HttpError(400, 'date must be formatted as yyyy-MM-dd');
+  const fields = fieldsOf(body);
+  const { status, notes } = fields;
+  if (!isOneOf(STATUSES, status)) throw new HttpError(400, `status must be one of ${STATUSES.join(', ')}`);
+  const timeSpent = Number(fields.timeSpent ?? 0);
+  if (!Number.isFinite(timeSpent) || timeSpent < 0) throw new HttpError(400, 'timeSpent must be a non-negative number');
+  const sessions = parseSessions(fields.sessions);
+  const mood = parseRating(fields.mood, 'mood');
+  const energy = parseRating(fields.energy, 'energy');
+  const tags = parseTags(fields.tags);
+  return {
+    habitId,
+    date,
+    status,
+    timeSpent: Math.round(timeSpent),
+    ...(typeof notes === 'string' && notes !== '' ? { notes } : {}),
+    ...(mood ? { mood } : {}),
+    ...(energy ? { energy } : {}),
+    ...(tags.length ? { tags: parseEntryTags(tags.join(' ')) } : {}),
+    ...(sessions ? { sessions } : {}),
+  };
+}
+
+/**
+ * Clients send the copy a change was made from as `base` (null for a day they
+ * saw empty). When the stored day has moved on since, the change is merged into
+ * it, and a clash the merge can't settle is a conflict for the user. A write
+ * without a base simply wins, as every write did before devices synced.
+ */
+function mergeWithStored(body: unknown, mine: HabitEntry | null, current: HabitEntry | undefined, habitId: string, date: string) {
+  const { base } = fieldsOf(body);
+  if (base === undefined) return mine;
+  const parsedBase = base === null ? null : parseEntry(base, habitId, date);
+  if ((current?.version ?? 0) === (Number(fieldsOf(base).version) || 0)) return mine;
+  const { entry, conflicts } = mergeEntries(parsedBase, mine, current ?? null);
+  if (conflicts.length) throw new ConflictError(current ?? null, conflicts);
+  return entry;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+function parseCredentials(body: unknown, withName: boolean) {
+  const fields = fieldsOf(body);
+  const email = typeof fields.email === 'string' ? fields.email.trim() : '';
+  const password = typeof fields.password === 'string' ? fields.password : '';
+  const name = typeof fields.name === 'string' ? fields.name.trim() : '';
+  if (!EMAIL_PATTERN.test(email)) throw new HttpError(400, 'A valid email is required');
+  if (withName && !name) throw new HttpError(400, 'Name is required');
+  if (withName && password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  return { name, email, password };
+}
+
+function parseChallenge(body: unknown): Pick<Challenge, 'name' | 'startDate' | 'days' | 'target' | 'measure'> {
+  const fields = fieldsOf(body);
+  const name = typeof fields.name === 'string' ? fields.name.trim() : '';
+  const days = Number(fields.days);
+  const target = Number(fields.target);
+  const measure = fields.measure ?? 'time';
+  if (!name) throw new HttpError(400, 'Challenge name is required');
+  const startDate = parseDate(fields.startDate, 'startDate');
+  if (!isPositiveInt(days) || days > 366) throw new HttpError(400, 'days must be a whole number between 1 and 366');
+  if (!isPositiveInt(target)) throw new HttpError(400, 'target must be a positive whole number');
+  if (!isOneOf(MEASURES, measure)) throw new HttpError(400, `measure must be one of ${MEASURES.join(', ')}`);
+  return { name, startDate, days, target, measure };
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Set for every request by the auth middleware in createApiRouter
+function storeOf(res: Response): Store {
+  // Signed out on a server that has accounts
+  const store: Store | null = res.locals.store;
+  if (!store) throw new HttpError(401, 'Sign in to see your habits on this server');
+  return store;
+}
+const userOf = (res: Response): User | null => res.locals.user;
+
+function requireUser(res: Response, reason = 'to use teams'): User {
+  const user = userOf(res);
+  if (!user) throw new HttpError(401, `Sign in ${reason}`);
+  return user;
+}
+
+// The client's day start and home time zone, so "today" on the server is the user's today
+function parseDaySettings(header: string | undefined): DaySettings {
+  if (header === undefined) return getDaySettings();
+  let settings: unknown;
+  try {
+    settings = JSON.parse(header);
+  } catch {
+    throw new HttpError(400, 'X-Day-Settings must be JSON');
+  }
+  const { dayStartHour, timeZone } = fieldsOf(settings);
+  if (!isWhole(dayStartHour) || dayStartHour < 0 || dayStartHour > 23) {
+    throw new HttpError(400, 'dayStartHour must be a whole number between 0 and 23');
+  }
+  if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) throw new HttpError(400, 'timeZone must be an IANA time zone');
+  return { dayStartHour, timeZone };
+}
+
+const daySettingsOf = (res: Response): DaySettings => res.locals.daySettings;
+
+// The 4xx status an error from elsewhere asks for, or undefined when it is a failure on our side
+function clientErrorStatus(err: unknown): number | undefined {
+  const { status, statusCode } = (err ?? {}) as { status?: unknown; statusCode?: unknown };
+  const code = status ?? statusCode;
+  return typeof code === 'number' && code >= 400 && code < 500 ? code : undefined;
+}
+
+const bearerToken = (req: Request) => req.get('Authorization')?.match(/^Bearer (\S+)$/)?.[1];
+
+/**
+ * Requests with a bearer token work on that account's data. The rest work on
+ * the data kept while signed out, but only until the first account exists.
+ * `insights` is the model behind /insights; without one that endpoint
+ * answers 503.
+ */
+export function createApiRouter(stores: StoreFactory, accounts: Accounts, teams: Teams, insights: InsightsModel | null = null) {
+  const router = express.Router();
+  router.use(express.json({ limit: '5mb' }));
+
+  router.use((req, res, next) => {
+    const token = bearerToken(req);
+    const user = token ? accounts.getUserByToken(token) : undefined;
+    if (token && !user) throw new HttpError(401, 'Your session has expired, sign in again');
+    res.locals.user = user ?? null;
+    res.locals.store = user ? stores(user.id) : accounts.hasAccounts() ? null : stores(null);
+    res.locals.daySettings = parseDaySettings(req.get('X-Day-Settings'));
+    next();
+  });
+
+  router.post('/auth/register', (req, res) => {
+    const { name, email, password } = parseCredentials(req.body, true);
+    const user = accounts.register(name, email, password);
+    if (!user) throw new HttpError(409, 'An account with this email already exists');
+    res.status(201).json({ user, token: accounts.createToken(user.id) });
+  });
+
+  router.post('/auth/login', (req, res) => {
+    const { email, password } = parseCredentials(req.body, false);
+    const user = accounts.login(email, password);
+    if (!user) throw new HttpError(401, 'Wrong email or password');
+    res.json({ user, token: accounts.createToken(user.id) });
+  });
+
+  router.post('/auth/logout', (req, res) => {
+    const token = bearerToken(req);
+    if (token) accounts.revokeToken(token);
+    res.status(204).end();
+  });
+
+  router.get('/auth/me', (_req, res) => {
+    res.json(userOf(res));
+  });
+
+  router.put('/auth/me/theme', (req, res) => {
+    const user = requireUser(res, 'to keep a theme with your account');
+    const { theme } = fieldsOf(req.body);
+    if (!isOneOf(THEMES, theme)) throw new HttpError(400, `theme must be one of ${THEMES.join(', ')}`);
+    res.json(accounts.setTheme(user.id, theme));
+  });
+
+  router.get('/state', (_req, res) => {
+    const store = storeOf(res);
+    res.json(store.getState());
+  });
+
+  router.post('/import', (req, res) => {
+    const store = storeOf(res);
+    const { habits, entries } = fieldsOf(req.body);
+    if (!Array.isArray(habits) || !Array.isArray(entries)) {
+      throw new HttpError(400, 'Expected { habits: [], entries: [] }');
+    }
+    const replace = req.query.mode === 'replace';
+    // Ids another account already uses get new ones, with their entries following along, and so do
+    // ids of habits in the trash when merging, which restoring brings back rather than an import
+    const renamed = new Map<string, string>();
+    const parsedHabits = habits.map((h: unknown) => {
+      const id = String(fieldsOf(h).id ?? newId());
+      if (store.isHabitIdTaken(id) || (!replace && store.isHabitDeleted(id))) renamed.set(id, newId());
+      return parseHabit(h, renamed.get(id) ?? id);
+    });
+    const habitIds = new Set([
+      ...parsedHabits.map(h => h.id),
+      ...(replace ? [] : store.listHabits().map(h => h.id)),
+    ]);
+    const parsedEntries = entries.flatMap((e: unknown) => {
+      const { habitId, date } = fieldsOf(e);
+      const id = typeof habitId === 'string' ? renamed.get(habitId) ?? habitId : undefined;
+      return id !== undefined && habitIds.has(id) ? [parseEntry(e, id, String(date))] : [];
+    });
+    const state = { habits: parsedHabits, entries: parsedEntries };
+    if (replace) {
+      store.replaceState(state);
+    } else {
+      store.importState(state);
+    }
+    store.logActivity({ action: 'import' });
+    res.json(store.getState());
+  });
+
+  router.get('/habits', (_req, res) => {
+    const store = storeOf(res);
+    res.json(store.listHabits());
+  });
+
+  router.post('/habits', (req, res) => {
+    const store = storeOf(res);
+    const { id: asked } = fieldsOf(req.body);
+    const requested = typeof asked === 'string' ? asked : newId();
+    if (store.getHabit(requested)) throw new HttpError(409, `Habit ${requested} already exists`);
+    if (store.isHabitDeleted(requested)) throw new HttpError(409, `Habit ${requested} is in the trash; restore it instead`);
+    // Like import, an id another account uses gets a new one rather than giving that away
+    const id = store.isHabitIdTaken(requested) ? newId() : requested;
+    const habit = store.saveHabit(parseHabit(req.body, id));
+    store.logActivity({ action: 'habit.create', habitId: id, habitName: habit.name, after: habit });
+    res.status(201).json(habit);
+  });
+
+  router.get('/habits/deleted', (_req, res) => {
+    const store = storeOf(res);
+    res.json(store.listDeletedHabits());
+  });
+
+  // Registered before /habits/:id so "order" isn't taken for a habit id
+  router.put('/habits/order', (req, res) => {
+    const store = storeOf(res);
+    const { ids } = fieldsOf(req.body);
+    if (!isStrings(ids)) {
+      throw new HttpError(400, 'Expected { ids: [] }');
+    }
+    // Habits in the trash keep a position too, so they return to their old column when restored
+    const known = new Set([...store.listHabits(), ...store.listDeletedHabits()].map(h => h.id));
+    const unknown = ids.find(id => !known.has(id));
+    if (unknown) throw new HttpError(400, `Unknown habit ${unknown}`);
+    store.reorderHabits(ids);
+    store.logActivity({ action: 'habit.reorder' });
+    res.json(store.listHabits());
+  });
+
+  router.put('/habits/:id', (req, res) => {
+    const store = storeOf(res);
+    const existing = store.getHabit(req.params.id);
+    if (!existing) throw new HttpError(404, 'Habit not found');
+    // Achievements stay on record whatever copy of the habit is written back
+    const habit = store.saveHabit(addAchievements(parseHabit(req.body, existing.id), existing.achievements ?? []));
+    store.logActivity({ action: 'habit.update', habitId: habit.id, habitName: habit.name, before: existing, after: habit });
+    res.json(habit);
+  });
+
+  // Only adds to the record, so a device can send what it saw reached without touching edits made elsewhere
+  router.post('/habits/:id/achievements', (req, res) => {
+    const store = storeOf(res);
+    const existing = store.getHabit(req.params.id);
+    if (!existing) throw new HttpError(404, 'Habit not found');
+    const achievements = parseAchievements(fieldsOf(req.body).achievements);
+    if (!achievements) throw new HttpError(400, 'Expected { achievements: [] }');
+    const habit = addAchievements(existing, achievements);
+    if (habit !== existing) {
+      store.saveHabit(habit);
+      store.logActivity({ action: 'habit.update', habitId: habit.id, habitName: habit.name, before: existing, after: habit });
+    }
+    res.json(habit);
+  });
+
+  router.delete('/habits/:id', (req, res) => {
+    const store = storeOf(res);
+    const existing = store.getHabit(req.params.id);
+    if (!existing || !store.deleteHabit(existing.id)) throw new HttpError(404, 'Habit not found');
+    store.logActivity({ action: 'habit.delete', habitId: existing.id, habitName: existing.name, before: existing });
+    res.status(204).end();
+  });
+
+  // Brings a habit back from the trash with all of its entries
+  router.post('/habits/:id/restore', (req, res) => {
+    const store = storeOf(res);
+    if (!store.restoreHabit(req.params.id)) throw new HttpError(404, 'Habit is not in the trash');
+    const habit = store.getHabit(req.params.id)!;
+    store.logActivity({ action: 'habit.restore', habitId: habit.id, habitName: habit.name, after: habit });
+    res.json(store.getState());
+  });
+
+  router.get('/entries', (req, res) => {
+    const store = storeOf(res);
+    const habitId = typeof req.query.habitId === 'string' ? req.query.habitId : undefined;
+    res.json(store.listEntries(habitId));
+  });
+
+  router.put('/habits/:id/entries/:date', (req, res) => {
+    const store = storeOf(res);
+    const habit = store.getHabit(req.params.id);
+    if (!habit) throw new HttpError(404, 'Habit not found');
+    const before = store.getEntry(habit.id, req.params.date);
+    const merged = mergeWithStored(req.body, parseEntry(req.body, habit.id, req.params.date), before, habit.id, req.params.date);
+    // The other device had already cleared the day and this change didn't touch it
+    if (!merged) {
+      res.status(204).end();
+      return;
+    }
+    const entry = store.saveEntry(merged);
+    store.logActivity({ action: 'entry.save', habitId: habit.id, habitName: habit.name, date: entry.date, before, after: entry });
+    res.json(entry);
+  });
+
+  router.delete('/habits/:id/entries/:date', (req, res) => {
+    const store = storeOf(res);
+    const habit = store.getHabit(req.params.id);
+    if (!habit) throw new HttpError(404, 'Habit not found');
+    const before = store.getEntry(habit.id, req.params.date);
+    const merged = mergeWithStored(req.body, null, before, habit.id, req.params.date);
+    if (merged) {
+      // Another device's change to the day survives the merge
+      res.json(merged);
+      return;
+    }
+    // With a base, clearing a day that is already gone is fine; the other device cleared it too
+    if (!before) {
+      if (fieldsOf(req.body).base === undefined) throw new HttpError(404, 'Entry not found');
+      res.status(204).end();
+      return;
+    }
+    store.deleteEntry(habit.id, req.params.date);
+    store.logActivity({ action: 'entry.delete', habitId: habit.id, habitName: habit.name, date: before.date, before });
+    res.status(204).end();
+  });
+
+  // Coaching summary of the week starting on `weekStart` (a Monday), from its entries and notes
+  router.post('/insights', (req, res, next) => {
+    const store = storeOf(res);
+    if (!insights) throw new HttpError(503, 'Insights are not configured; set GEMINI_API_KEY on the server');
+    const weekStart = parseDate(fieldsOf(req.body).weekStart, 'weekStart');
+    const day = parseDateKey(weekStart);
+    if (!isValid(day) || toDateKey(day) !== weekStart) throw new HttpError(400, `weekStart ${weekStart} is not a date`);
+    if (day.getDay() !== 1) throw new HttpError(400, 'weekStart must be a Monday');
+    const state = store.getState();
+    const report = withDaySettings(daySettingsOf(res), () => buildWeekReport(state.habits, state.entries, weekStart));
+    insights.summarize(report)
+      .then(raw => res.json({ ...parseInsights(raw, report), generatedAt: new Date().toISOString() }))
+      .catch(err => next(new HttpError(502, `Insights failed: ${err instanceof Error ? err.message : String(err)}`)));
+  });
+
+  router.get('/activity', (req, res) => {
+    const store = storeOf(res);
+    const limit = Math.min(Number(req.query.limit) || 200, 1000);
+    res.json(store.listActivity(limit));
+  });
+
+  const findTeam = (req: Request, userId: string) => {
+    const team = teams.getTeam(req.params.id, userId);
+    if (!team) throw new HttpError(404, `Team ${req.params.id} not found`);
+    return team;
+  };
+
+  // The habit has to be the signed-in user's own
+  const findOwnHabit = (res: Response, habitId: unknown) => {
+    const habit = typeof habitId === 'string' ? storeOf(res).getHabit(habitId) : undefined;
+    if (!habit) throw new HttpError(400, `Habit ${habitId} not found`);
+    return habit;
+  };
+
+  router.get('/teams', (_req, res) => {
+    res.json(teams.listTeams(requireUser(res).id));
+  });
+
+  router.post('/teams', (req, res) => {
+    const user = requireUser(res);
+    const { name } = fieldsOf(req.body);
+    if (typeof name !== 'string' || !name.trim()) throw new HttpError(400, 'Team name is required');
+    res.status(201).json(teams.createTeam(name.trim(), user.id));
+  });
+
+  router.post('/teams/join', (req, res) => {
+    const user = requireUser(res);
+    const { code } = fieldsOf(req.body);
+    const team = typeof code === 'string' ? teams.joinTeam(code, user.id) : undefined;
+    if (!team) throw new HttpError(404, 'No team has that invite code');
+    res.json(team);
+  });
+
+  // Members see each other's shared habits read-only, without notes
+  router.get('/teams/:id', (req, res) => {
+    const user = requireUser(res);
+    const team = findTeam(req, user.id);
+    const shares = teams.listShares(team.id);
+    const today = getDateKeyAt(new Date(), daySettingsOf(res));
+
+    const detail: TeamDetail = {
+      ...team,
+      members: teams.listMembers(team.id).map(member => {
+        const memberStore = stores(member.userId);
+        const habits = shares
+          .filter(s => s.userId === member.userId)
+          .map(s => memberStore.getHabit(s.habitId))
+          .filter((h): h is Habit => !!h);
+        return {
+          ...member,
+          habits: habits.map(toSharedHabit),
+          entries: habits.flatMap(h => memberStore.listEntries(h.id)).map(toSharedEntry),
+        };
+      }),
+      challenges: teams.listChallenges(team.id).map(({ participants, ...challenge }) => ({
+        ...challenge,
+        leaderboard: rankLeaderboard(participants.map(p => ({
+          ...p,
+          ...scoreChallenge(challenge, stores(p.userId).listEntries(p.habitId), today),
+        }))),
+      })),
+      sharedHabitIds: shares.filter(s => s.userId === user.id).map(s => s.habitId),
+    };
+    res.json(detail);
+  });
+
+  router.delete('/teams/:id/members/me', (req, res) => {
+    const user = requireUser(res);
+    teams.leaveTeam(findTeam(req, user.id).id, user.id);
+    res.status(204).end();
+  });
+
+  router.put('/teams/:id/habits', (req, res) => {
+    const user = requireUser(res);
+    const team = findTeam(req, user.id);
+    const { habitIds } = fieldsOf(req.body);
+    if (!Array.isArray(habitIds)) throw new HttpError(400, 'habitIds must be an array');
+    teams.setSharedHabits(team.id, user.id, [...new Set(habitIds.map((id: unknown) => findOwnHabit(res, id).id))]);
+    res.status(204).end();
+  });
+
+  router.post('/teams/:id/challenges', (req, res) => {
+    const user = requireUser(res);
+    const team = findTeam(req, user.id);
+    const id = teams.createChallenge(team.id, user.id, parseChallenge(req.body));
+    res.status(201).json({ id });
+  });
+
+  // Entering shares the chosen habit with the team, so everyone can follow along
+  router.post('/teams/:id/challenges/:challengeId/join', (req, res) => {
+    const user = requireUser(res);
+    const team = findTeam(req, user.id);
+    const challenge = teams.getChallenge(req.params.challengeId, team.id);
+    if (!challenge) throw new HttpError(404, `Challenge ${req.params.challengeId} not found`);
+    const habit = findOwnHabit(res, fieldsOf(req.body).habitId);
+    if ((habit.measure ?? 'time') !== challenge.measure) {
+      throw new HttpError(400, `${habit.name} doesn't measure ${challenge.measure === 'time' ? 'time' : 'a count'}`);
+    }
+    teams.joinChallenge(challenge.id, team.id, user.id, habit.id);
+    res.status(204).end();
+  });
+
+  router.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+    if (err instanceof ConflictError) {
+      res.status(409).json({ error: err.message, current: err.current, fields: err.fields });
+      return;
+    }
+    if (err instanceof HttpError) {
+      res.status(err.status).json({ error: err.message });
+      return;
+    }
+    // Errors from middleware such as the JSON parser carry their own status, e.g. 400 for malformed JSON
+    const status = clientErrorStatus(err);
+    if (status) {
+      res.status(status).json({ error: (err as Error).message });
+      return;
+    }
+    console.error(err);
+    res.status(500).json({ error: 'Internal server error' });
+  });
+
+  return router;
+}
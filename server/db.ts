@@ -0,0 +1,232 @@
+import Database from 'better-sqlite3';
+import path from 'path';
+
+export type DB = Database.Database;
+
+// Each entry upgrades the schema by one version; `user_version` records how far we got.
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE habits (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    target_time INTEGER NOT NULL CHECK (target_time > 0),
+    color TEXT,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  CREATE TABLE entries (
+    habit_id TEXT NOT NULL REFERENCES habits(id) ON DELETE CASCADE,
+    date TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('done', 'failed', 'none')),
+    time_spent INTEGER NOT NULL DEFAULT 0,
+    notes TEXT,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (habit_id, date)
+  );
+
+  INSERT INTO habits (id, name, target_time, position) VALUES
+    ('1', 'Exercise', 30, 0),
+    ('2', 'Reading', 20, 1),
+    ('3', 'Meditation', 10, 2);
+  `,
+  `
+  ALTER TABLE habits ADD COLUMN schedule TEXT; -- JSON-encoded HabitSchedule, NULL means daily
+  `,
+  `
+  ALTER TABLE habits ADD COLUMN freeze_days_per_month INTEGER NOT NULL DEFAULT 0;
+
+  -- SQLite can't alter a CHECK constraint, so rebuild entries to allow 'skipped'
+  CREATE TABLE entries_next (
+    habit_id TEXT NOT NULL REFERENCES habits(id) ON DELETE CASCADE,
+    date TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('done', 'failed', 'skipped', 'none')),
+    time_spent INTEGER NOT NULL DEFAULT 0,
+    notes TEXT,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (habit_id, date)
+  );
+  INSERT INTO entries_next SELECT habit_id, date, status, time_spent, notes, updated_at FROM entries;
+  DROP TABLE entries;
+  ALTER TABLE entries_next RENAME TO entries;
+  `,
+  `
+  CREATE TABLE sessions (
+    habit_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    start_time TEXT,
+    duration INTEGER NOT NULL CHECK (duration >= 0),
+    note TEXT,
+    PRIMARY KEY (habit_id, date, id),
+    FOREIGN KEY (habit_id, date) REFERENCES entries(habit_id, date) ON DELETE CASCADE
+  );
+
+  -- Each existing day becomes a single session holding its whole time
+  INSERT INTO sessions (habit_id, date, id, position, duration)
+    SELECT habit_id, date, 'legacy', 0, time_spent FROM entries WHERE time_spent > 0;
+  `,
+  `
+  ALTER TABLE habits ADD COLUMN success_rule TEXT NOT NULL DEFAULT 'manual'
+    CHECK (success_rule IN ('manual', 'target', 'partial'));
+  `,
+  `
+  -- Rebuild habits so a limit can be zero ("no sugar") and add the measure columns
+  CREATE TABLE habits_next (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    target_time INTEGER NOT NULL CHECK (target_time >= 0),
+    color TEXT,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    schedule TEXT,
+    freeze_days_per_month INTEGER NOT NULL DEFAULT 0,
+    success_rule TEXT NOT NULL DEFAULT 'manual' CHECK (success_rule IN ('manual', 'target', 'partial')),
+    measure TEXT NOT NULL DEFAULT 'time' CHECK (measure IN ('time', 'count')),
+    unit TEXT,
+    direction TEXT NOT NULL DEFAULT 'atLeast' CHECK (direction IN ('atLeast', 'atMost'))
+  );
+  INSERT INTO habits_next (id, name, target_time, color, position, created_at, schedule, freeze_days_per_month, success_rule)
+    SELECT id, name, target_time, color, position, created_at, schedule, freeze_days_per_month, success_rule FROM habits;
+  DROP TABLE habits;
+  ALTER TABLE habits_next RENAME TO habits;
+  `,
+  `
+  ALTER TABLE habits ADD COLUMN group_name TEXT;
+  ALTER TABLE habits ADD COLUMN tags TEXT; -- JSON-encoded string[], NULL means untagged
+  ALTER TABLE habits ADD COLUMN archived_at TEXT;
+  `,
+  `
+  ALTER TABLE habits ADD COLUMN target_history TEXT; -- JSON-encoded TargetChange[], NULL while the goal never changed
+  `,
+  `
+  ALTER TABLE habits ADD COLUMN deleted_at TEXT; -- soft delete, purged after the retention period
+
+  -- Append-only record of changes; no foreign keys so it outlives purged habits
+  CREATE TABLE activity (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    action TEXT NOT NULL,
+    habit_id TEXT,
+    habit_name TEXT,
+    date TEXT,
+    before TEXT, -- JSON snapshot, NULL when the record didn't exist
+    after TEXT -- JSON snapshot, NULL when the record was removed
+  );
+  `,
+  `
+  ALTER TABLE habits ADD COLUMN reminder_time TEXT; -- HH:mm, local time on each device
+  `,
+  `
+  -- Per-record versions let clients tell which copy a change was made from
+  ALTER TABLE entries ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+  ALTER TABLE habits ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+  ALTER TABLE habits ADD COLUMN updated_at TEXT;
+  UPDATE habits SET updated_at = created_at;
+  `,
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL, -- scrypt as "salt:hash", both hex
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
+  );
+
+  CREATE TABLE auth_tokens (
+    token TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
+  );
+
+  -- Habits and activity without a user belong to whoever uses the server signed out
+  ALTER TABLE habits ADD COLUMN user_id TEXT REFERENCES users(id);
+  ALTER TABLE activity ADD COLUMN user_id TEXT;
+  CREATE INDEX habits_user ON habits(user_id);
+  CREATE INDEX activity_user ON activity(user_id, id);
+
+  CREATE TABLE teams (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    invite_code TEXT NOT NULL UNIQUE,
+    created_by TEXT NOT NULL REFERENCES users(id),
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
+  );
+
+  CREATE TABLE team_members (
+    team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    joined_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    PRIMARY KEY (team_id, user_id)
+  );
+
+  -- Habits a member shows to a team
+  CREATE TABLE team_habits (
+    team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    habit_id TEXT NOT NULL REFERENCES habits(id) ON DELETE CASCADE,
+    PRIMARY KEY (team_id, habit_id)
+  );
+
+  CREATE TABLE challenges (
+    id TEXT PRIMARY KEY,
+    team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    start_date TEXT NOT NULL,
+    days INTEGER NOT NULL CHECK (days > 0),
+    target INTEGER NOT NULL CHECK (target > 0), -- a day's amount, in minutes or the habits' unit
+    measure TEXT NOT NULL DEFAULT 'time' CHECK (measure IN ('time', 'count')),
+    created_by TEXT NOT NULL REFERENCES users(id),
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
+  );
+
+  -- Each participant takes part with one of their habits
+  CREATE TABLE challenge_participants (
+    challenge_id TEXT NOT NULL REFERENCES challenges(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    habit_id TEXT NOT NULL REFERENCES habits(id) ON DELETE CASCADE,
+    PRIMARY KEY (challenge_id, user_id)
+  );
+  `,
+  `
+  ALTER TABLE habits ADD COLUMN program TEXT; -- JSON-encoded TargetProgram
+  `,
+  `
+  ALTER TABLE entries ADD COLUMN mood INTEGER CHECK (mood BETWEEN 1 AND 5);
+  ALTER TABLE entries ADD COLUMN energy INTEGER CHECK (energy BETWEEN 1 AND 5);
+  ALTER TABLE entries ADD COLUMN tags TEXT; -- JSON array of lowercase tags
+  `,
+  `
+  ALTER TABLE habits ADD COLUMN milestones TEXT; -- JSON-encoded Milestone[]
+  ALTER TABLE habits ADD COLUMN achievements TEXT; -- JSON-encoded Achievement[]
+  `,
+  `
+  ALTER TABLE users ADD COLUMN theme TEXT CHECK (theme IN ('system', 'light', 'dark', 'highContrast'));
+  `,
+  `
+  -- Tokens are kept as SHA-256 hashes and expire; sessions from before this sign in again
+  DELETE FROM auth_tokens;
+  ALTER TABLE auth_tokens RENAME COLUMN token TO token_hash;
+  ALTER TABLE auth_tokens ADD COLUMN expires_at TEXT NOT NULL DEFAULT '';
+  `,
+];
+
+function migrate(db: DB) {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  for (let version = current; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+}
+
+export function openDatabase(file = process.env.DATABASE_PATH || path.join(process.cwd(), 'habitgrid.db')): DB {
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  // Enforced only after migrating, so rebuilding a parent table doesn't cascade deletes
+  db.pragma('foreign_keys = OFF');
+  migrate(db);
+  db.pragma('foreign_keys = ON');
+  return db;
+}
@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { buildWeekReport, createFakeInsightsModel, parseInsights, WeekReport } from './insights';
+import { startTestServer, TestServer } from './testing';
+
+// Monday, Oct 7 2024
+const WEEK_START = '2024-10-07';
+
+const report: WeekReport = {
+  weekStart: WEEK_START,
+  weekEnd: '2024-10-13',
+  habits: [
+    { habitId: 'read', name: 'Reading', goal: '20m daily', targetTime: 20, direction: 'atLeast', schedule: 'Daily', done: 1, expected: 7, days: [] },
+    { habitId: 'coffee', name: 'Coffee', goal: 'at most 2 cups daily', targetTime: 2, direction: 'atMost', schedule: 'Daily', done: 2, expected: 7, days: [] },
+  ],
+};
+
+describe('parseInsights', () => {
+  const adjust = (habitId: string, targetTime: unknown) =>
+    parseInsights({ summary: 'A week.', adjustments: [{ habitId, kind: 'targetTime', suggestion: 'Change it', targetTime }] }, report).adjustments;
+
+  it('keeps goals of at least 1, and 0 only for limits', () => {
+    expect(adjust('read', 15)).toEqual([{ habitId: 'read', kind: 'targetTime', suggestion: 'Change it', targetTime: 15 }]);
+    expect(adjust('read', 0)).toEqual([]);
+    expect(adjust('coffee', 0)).toEqual([{ habitId: 'coffee', kind: 'targetTime', suggestion: 'Change it', targetTime: 0 }]);
+    expect(adjust('coffee', -1)).toEqual([]);
+  });
+
+  it('drops suggestions for unknown habits, odd kinds and fractional goals', () => {
+    expect(adjust('gym', 10)).toEqual([]);
+    expect(adjust('read', 12.5)).toEqual([]);
+    expect(adjust('read', 'lots')).toEqual([]);
+    expect(parseInsights({ summary: 'A week.', adjustments: [{ habitId: 'read', kind: 'vibes', suggestion: 'Relax' }] }, report).adjustments).toEqual([]);
+  });
+
+  it('refuses an answer without a summary', () => {
+    expect(() => parseInsights({ patterns: [] }, report)).toThrow('The model did not return a summary');
+  });
+});
+
+describe('buildWeekReport', () => {
+  it('reports the goal in force that week rather than the latest one', () => {
+    const habit = {
+      id: 'read',
+      name: 'Reading',
+      targetTime: 30,
+      targetHistory: [{ from: '2024-01-01', targetTime: 20 }, { from: '2024-11-01', targetTime: 30 }],
+    };
+    const [week] = buildWeekReport([habit], [], WEEK_START).habits;
+    expect(week).toMatchObject({ targetTime: 20, goal: '20m daily' });
+  });
+});
+
+describe('the fake model', () => {
+  it('eases off weak habits: a lower target, but a higher limit', async () => {
+    const { adjustments } = parseInsights(await createFakeInsightsModel().summarize(report), report);
+    expect(adjustments).toEqual([
+      { habitId: 'read', kind: 'targetTime', suggestion: expect.stringMatching(/^Lower the goal/), targetTime: 15 },
+      { habitId: 'coffee', kind: 'targetTime', suggestion: expect.stringMatching(/^Raise the limit/), targetTime: 3 },
+    ]);
+  });
+});
+
+describe('POST /insights', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer(createFakeInsightsModel());
+    const post = (path: string, body: unknown) => server.request(path, { method: 'POST', body: JSON.stringify(body) });
+    await post('/habits', { id: 'read', name: 'Reading', targetTime: 20, createdAt: '2024-01-01' });
+    await post('/habits', { id: 'walk', name: 'Walk', targetTime: 30, createdAt: '2024-01-01' });
+    for (const date of ['2024-10-07', '2024-10-08', '2024-10-09', '2024-10-10', '2024-10-11', '2024-10-12', '2024-10-13']) {
+      await server.request(`/habits/walk/entries/${date}`, { method: 'PUT', body: JSON.stringify({ status: 'done', timeSpent: 30 }) });
+    }
+    await server.request('/habits/read/entries/2024-10-08', {
+      method: 'PUT',
+      body: JSON.stringify({ status: 'done', timeSpent: 20, notes: 'Too tired after work most nights' }),
+    });
+  });
+
+  afterAll(() => server.close());
+
+  const insightsFor = (weekStart: unknown) => server.request('/insights', { method: 'POST', body: JSON.stringify({ weekStart }) });
+
+  it('summarizes the week with the fake model, without a network', async () => {
+    const res = await insightsFor(WEEK_START);
+    expect(res.status).toBe(200);
+    const insights = await res.json();
+    expect(insights).toMatchObject({
+      weekStart: WEEK_START,
+      weekEnd: '2024-10-13',
+      obstacles: ['Reading: Too tired after work most nights'],
+      adjustments: [{ habitId: 'read', kind: 'targetTime', targetTime: 15 }],
+    });
+    expect(insights.patterns).toContain('Walk was done 7 of 7 expected days.');
+    expect(insights.patterns).toContain('Reading slipped to 1 of 7 expected days.');
+    expect(typeof insights.generatedAt).toBe('string');
+  });
+
+  it('asks for a week start date', async () => {
+    const res = await insightsFor('last week');
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'weekStart must be formatted as yyyy-MM-dd' });
+    expect((await insightsFor('2024-02-30')).status).toBe(400);
+    const tuesday = await insightsFor('2024-10-08');
+    expect(tuesday.status).toBe(400);
+    expect(await tuesday.json()).toEqual({ error: 'weekStart must be a Monday' });
+  });
+
+  it('answers 503 when no model is configured', async () => {
+    const unconfigured = await startTestServer();
+    const res = await unconfigured.request('/insights', { method: 'POST', body: JSON.stringify({ weekStart: WEEK_START }) });
+    await unconfigured.close();
+    expect(res.status).toBe(503);
+  });
+
+  it('answers 502 when the model fails', async () => {
+    const failing = await startTestServer({ summarize: async () => { throw new Error('quota exceeded'); } });
+    const res = await failing.request('/insights', { method: 'POST', body: JSON.stringify({ weekStart: WEEK_START }) });
+    await failing.close();
+    expect(res.status).toBe(502);
+    expect(await res.json()).toEqual({ error: 'Insights failed: quota exceeded' });
+  });
+});
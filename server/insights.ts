@@ -0,0 +1,204 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { addDays, eachDayOfInterval, format, parseISO } from 'date-fns';
+import { Habit, HabitEntry, InsightAdjustment, TargetDirection, WeeklyInsights } from '../src/types';
+import { isArchived } from '../src/lib/groups';
+import { formatAmount, formatTarget } from '../src/lib/measure';
+import { describeSchedule } from '../src/lib/schedule';
+import { getCompletion } from '../src/lib/scoring';
+import { toDateKey } from '../src/lib/dates';
+import { getTargetOn } from '../src/lib/targets';
+
+// One habit's week as the model sees it
+export interface HabitWeek {
+  habitId: string;
+  name: string;
+  goal: string; // e.g. "20m daily" or "at most 2 coffees"
+  targetTime: number; // the goal in force at the end of the week
+  direction: TargetDirection; // atMost goals are limits, where 0 means none at all
+  schedule: string;
+  done: number; // day credits, fractional under the partial rule
+  expected: number; // settled scheduled days
+  days: { date: string; status: string; amount: string; notes: string[] }[]; // logged days only
+}
+
+export interface WeekReport {
+  weekStart: string;
+  weekEnd: string;
+  habits: HabitWeek[];
+}
+
+/**
+ * Turns a week of habits into text-friendly insights. Implementations return the
+ * raw answer; `parseInsights` checks it, so a fake only has to produce the shape.
+ */
+export interface InsightsModel {
+  summarize(report: WeekReport): Promise<unknown>;
+}
+
+export function buildWeekReport(habits: Habit[], entries: HabitEntry[], weekStart: string): WeekReport {
+  const start = parseISO(weekStart);
+  const days = eachDayOfInterval({ start, end: addDays(start, 6) });
+  const weekEnd = toDateKey(days[6]);
+  return {
+    weekStart,
+    weekEnd,
+    habits: habits
+      .filter(h => !isArchived(h) || h.archivedAt! >= weekStart)
+      .map(habit => {
+        const weekEntries = entries
+          .filter(e => e.habitId === habit.id && e.date >= weekStart && e.date <= weekEnd)
+          .sort((a, b) => a.date.localeCompare(b.date));
+        const completion = getCompletion(habit, entries, days);
+        return {
+          habitId: habit.id,
+          name: habit.name,
+          goal: `${formatTarget(habit, weekEnd)} ${describeSchedule(habit.schedule).toLowerCase()}`,
+          targetTime: getTargetOn(habit, weekEnd),
+          direction: habit.direction ?? 'atLeast',
+          schedule: describeSchedule(habit.schedule),
+          done: Math.round(completion.credit * 10) / 10,
+          expected: completion.expected,
+          days: weekEntries.map(e => ({
+            date: format(parseISO(e.date), 'EEE yyyy-MM-dd'),
+            status: e.status === 'none' ? 'logged' : e.status,
+            amount: formatAmount(habit, e.timeSpent),
+            notes: [e.notes, ...(e.sessions ?? []).map(s => s.note)].filter((n): n is string => !!n?.trim()),
+          })),
+        };
+      }),
+  };
+}
+
+const INSTRUCTIONS = `You are a supportive habit coach reading one week of a habit tracker.
+Look at each habit's goal, how many expected days were done, and the journal notes.
+Reply with:
+- summary: two or three sentences on how the week went overall.
+- patterns: short observations, e.g. which weekdays go well or which habits slip together.
+- obstacles: things the notes mention getting in the way, in the user's own terms.
+- adjustments: at most one per habit and only where the data supports it. Use kind "targetTime"
+  with a new whole-number targetTime in the habit's unit when the goal looks too hard or too easy
+  (at least 1, or 0 only for "atMost" limits), or kind "schedule" with a plain suggestion when the days themselves don't fit.
+Be concrete and brief. Do not invent notes that are not in the data.`;
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    patterns: { type: Type.ARRAY, items: { type: Type.STRING } },
+    obstacles: { type: Type.ARRAY, items: { type: Type.STRING } },
+    adjustments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          habitId: { type: Type.STRING },
+          kind: { type: Type.STRING, enum: ['targetTime', 'schedule'] },
+          suggestion: { type: Type.STRING },
+          targetTime: { type: Type.INTEGER },
+        },
+        required: ['habitId', 'kind', 'suggestion'],
+      },
+    },
+  },
+  required: ['summary', 'patterns', 'obstacles', 'adjustments'],
+};
+
+export function createGeminiInsightsModel(apiKey: string, model = 'gemini-2.5-flash'): InsightsModel {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    async summarize(report) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: `${INSTRUCTIONS}\n\nWeek data (JSON):\n${JSON.stringify(report)}`,
+        config: { responseMimeType: 'application/json', responseSchema: RESPONSE_SCHEMA },
+      });
+      return JSON.parse(response.text ?? '');
+    },
+  };
+}
+
+const OBSTACLE_WORDS = ['tired', 'busy', 'sick', 'late', 'travel', 'stress', 'forgot', 'sore', 'work'];
+
+/**
+ * A rule-based stand-in for the model, for development and tests without a
+ * network or API key. Its answers follow only from the report.
+ */
+export function createFakeInsightsModel(): InsightsModel {
+  return {
+    async summarize(report) {
+      const rated = report.habits.filter(h => h.expected > 0);
+      const rate = (h: HabitWeek) => h.done / h.expected;
+      const strong = rated.filter(h => rate(h) >= 0.8);
+      const weak = rated.filter(h => rate(h) < 0.5);
+      const notes = report.habits.flatMap(h => h.days.flatMap(d => d.notes.map(note => ({ habit: h.name, note }))));
+      return {
+        summary: `${strong.length} of ${rated.length} scheduled habits were on track this week.`,
+        patterns: [
+          ...strong.map(h => `${h.name} was done ${h.done} of ${h.expected} expected days.`),
+          ...weak.map(h => `${h.name} slipped to ${h.done} of ${h.expected} expected days.`),
+        ],
+        obstacles: notes
+          .filter(({ note }) => OBSTACLE_WORDS.some(word => note.toLowerCase().includes(word)))
+          .map(({ habit, note }) => `${habit}: ${note}`),
+        // Easing off means a lower target but a higher limit
+        adjustments: weak
+          .filter(h => h.direction === 'atMost' || h.targetTime > 1)
+          .map(h => {
+            const isLimit = h.direction === 'atMost';
+            return {
+              habitId: h.habitId,
+              kind: 'targetTime',
+              suggestion: isLimit
+                ? `Raise the limit for ${h.name} a little, then bring it down again once it holds.`
+                : `Lower the goal for ${h.name} until it sticks again.`,
+              targetTime: isLimit ? Math.max(h.targetTime + 1, Math.round(h.targetTime * 1.25)) : Math.max(1, Math.round(h.targetTime * 0.75)),
+            };
+          }),
+      };
+    },
+  };
+}
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim()) : [];
+
+const ADJUSTMENT_KINDS: InsightAdjustment['kind'][] = ['targetTime', 'schedule'];
+const isAdjustmentKind = (value: unknown): value is InsightAdjustment['kind'] => ADJUSTMENT_KINDS.includes(value as InsightAdjustment['kind']);
+
+// The fields of an object in the model's answer; anything else has none
+const fieldsOf = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+/**
+ * Checks a model answer, dropping suggestions for unknown habits or without a
+ * usable target: a whole number, and at least 1 unless the goal is a limit.
+ */
+export function parseInsights(raw: unknown, report: WeekReport): Omit<WeeklyInsights, 'generatedAt'> {
+  const answer = fieldsOf(raw);
+  const { summary } = answer;
+  if (typeof summary !== 'string') throw new Error('The model did not return a summary');
+  const habits = new Map(report.habits.map(h => [h.habitId, h]));
+  const adjustments: InsightAdjustment[] = (Array.isArray(answer.adjustments) ? answer.adjustments : []).flatMap((a: unknown) => {
+    const fields = fieldsOf(a);
+    const { habitId, kind, suggestion } = fields;
+    const habit = typeof habitId === 'string' ? habits.get(habitId) : undefined;
+    if (!habit || typeof suggestion !== 'string' || !isAdjustmentKind(kind)) return [];
+    const targetTime = Number(fields.targetTime);
+    const minimum = habit.direction === 'atMost' ? 0 : 1;
+    if (kind === 'targetTime' && !(Number.isInteger(targetTime) && targetTime >= minimum)) return [];
+    return [{
+      habitId: habit.habitId,
+      kind,
+      suggestion: suggestion.trim(),
+      ...(kind === 'targetTime' ? { targetTime } : {}),
+    }];
+  });
+  return {
+    weekStart: report.weekStart,
+    weekEnd: report.weekEnd,
+    summary: summary.trim(),
+    patterns: strings(answer.patterns),
+    obstacles: strings(answer.obstacles),
+    adjustments,
+  };
+}
@@ -0,0 +1,355 @@
+import { ActivityAction, ActivityItem, AppState, Habit, HabitEntry, HabitSession, Rating } from '../src/types';
+import { TRASH_RETENTION_DAYS } from '../src/lib/activity';
+import { getSessions, sumSessions } from '../src/lib/sessions';
+import { DB } from './db';
+
+interface HabitRow {
+  id: string;
+  name: string;
+  target_time: number;
+  color: string | null;
+  position: number;
+  schedule: string | null;
+  freeze_days_per_month: number;
+  success_rule: Habit['successRule'];
+  created_at: string;
+  measure: NonNullable<Habit['measure']>;
+  unit: string | null;
+  direction: NonNullable<Habit['direction']>;
+  group_name: string | null;
+  tags: string | null;
+  archived_at: string | null;
+  target_history: string | null;
+  program: string | null;
+  milestones: string | null;
+  achievements: string | null;
+  deleted_at: string | null;
+  reminder_time: string | null;
+  version: number;
+  updated_at: string | null;
+}
+
+interface EntryRow {
+  habit_id: string;
+  date: string;
+  status: HabitEntry['status'];
+  time_spent: number;
+  notes: string | null;
+  mood: Rating | null;
+  energy: Rating | null;
+  tags: string | null;
+  version: number;
+  updated_at: string;
+}
+
+interface ActivityRow {
+  id: number;
+  at: string;
+  action: ActivityAction;
+  habit_id: string | null;
+  habit_name: string | null;
+  date: string | null;
+  before: string | null;
+  after: string | null;
+}
+
+interface SessionRow {
+  habit_id: string;
+  date: string;
+  id: string;
+  position: number;
+  start_time: string | null;
+  duration: number;
+  note: string | null;
+}
+
+const toHabit = (row: HabitRow): Habit => ({
+  id: row.id,
+  name: row.name,
+  targetTime: row.target_time,
+  ...(row.target_history ? { targetHistory: JSON.parse(row.target_history) } : {}),
+  ...(row.program ? { program: JSON.parse(row.program) } : {}),
+  ...(row.milestones ? { milestones: JSON.parse(row.milestones) } : {}),
+  ...(row.achievements ? { achievements: JSON.parse(row.achievements) } : {}),
+  ...(row.color ? { color: row.color } : {}),
+  ...(row.schedule ? { schedule: JSON.parse(row.schedule) } : {}),
+  ...(row.freeze_days_per_month ? { freezeDaysPerMonth: row.freeze_days_per_month } : {}),
+  ...(row.success_rule !== 'manual' ? { successRule: row.success_rule } : {}),
+  ...(row.measure !== 'time' ? { measure: row.measure } : {}),
+  ...(row.unit ? { unit: row.unit } : {}),
+  ...(row.direction !== 'atLeast' ? { direction: row.direction } : {}),
+  ...(row.group_name ? { group: row.group_name } : {}),
+  ...(row.tags ? { tags: JSON.parse(row.tags) } : {}),
+  ...(row.archived_at ? { archivedAt: row.archived_at } : {}),
+  ...(row.reminder_time ? { reminderTime: row.reminder_time } : {}),
+  createdAt: row.created_at.slice(0, 10),
+  ...(row.deleted_at ? { deletedAt: row.deleted_at } : {}),
+  version: row.version,
+  ...(row.updated_at ? { updatedAt: row.updated_at } : {}),
+});
+
+const toActivity = (row: ActivityRow): ActivityItem => ({
+  id: row.id,
+  at: row.at,
+  action: row.action,
+  ...(row.habit_id ? { habitId: row.habit_id } : {}),
+  ...(row.habit_name ? { habitName: row.habit_name } : {}),
+  ...(row.date ? { date: row.date } : {}),
+  ...(row.before ? { before: JSON.parse(row.before) } : {}),
+  ...(row.after ? { after: JSON.parse(row.after) } : {}),
+});
+
+const toSession = (row: SessionRow): HabitSession => ({
+  id: row.id,
+  ...(row.start_time ? { startTime: row.start_time } : {}),
+  duration: row.duration,
+  ...(row.note ? { note: row.note } : {}),
+});
+
+const toEntry = (row: EntryRow, sessions: HabitSession[] = []): HabitEntry => ({
+  habitId: row.habit_id,
+  date: row.date,
+  status: row.status,
+  timeSpent: row.time_spent,
+  ...(row.notes ? { notes: row.notes } : {}),
+  ...(row.mood ? { mood: row.mood } : {}),
+  ...(row.energy ? { energy: row.energy } : {}),
+  ...(row.tags ? { tags: JSON.parse(row.tags) } : {}),
+  sessions,
+  version: row.version,
+  updatedAt: row.updated_at,
+});
+
+const dayKey = (habitId: string, date: string) => `${habitId}|${date}`;
+
+function joinSessions(entryRows: EntryRow[], sessionRows: SessionRow[]): HabitEntry[] {
+  const byDay = new Map<string, HabitSession[]>();
+  for (const row of sessionRows) {
+    const key = dayKey(row.habit_id, row.date);
+    byDay.set(key, [...(byDay.get(key) ?? []), toSession(row)]);
+  }
+  return entryRows.map(row => toEntry(row, byDay.get(dayKey(row.habit_id, row.date))));
+}
+
+/**
+ * Habits, entries and activity, each owned by an account. `createStore(db)`
+ * prepares the statements once; calling the result with a user id (null for
+ * the data kept while signed out) gives that owner's view of them.
+ */
+export function createStore(db: DB) {
+  const statements = {
+    listHabits: db.prepare<[string | null], HabitRow>('SELECT * FROM habits WHERE user_id IS ? AND deleted_at IS NULL ORDER BY position, created_at'),
+    getHabit: db.prepare<[string, string | null], HabitRow>('SELECT * FROM habits WHERE id = ? AND user_id IS ? AND deleted_at IS NULL'),
+    getHabitOwner: db.prepare<[string], { user_id: string | null }>('SELECT user_id FROM habits WHERE id = ?'),
+    isHabitDeleted: db.prepare<[string, string | null], { id: string }>('SELECT id FROM habits WHERE id = ? AND user_id IS ? AND deleted_at IS NOT NULL'),
+    listDeletedHabits: db.prepare<[string | null], HabitRow>('SELECT * FROM habits WHERE user_id IS ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC'),
+    nextPosition: db.prepare<[string | null], { next: number }>('SELECT COALESCE(MAX(position) + 1, 0) AS next FROM habits WHERE user_id IS ?'),
+    // Never takes over a habit id that belongs to another owner, nor brings one back from the trash
+    upsertHabit: db.prepare(`
+      INSERT INTO habits (id, user_id, name, target_time, color, position, schedule, freeze_days_per_month, success_rule, measure, unit, direction,
+        group_name, tags, archived_at, target_history, program, milestones, achievements, reminder_time, created_at, updated_at)
+      VALUES (@id, @owner, @name, @targetTime, @color, @position, @schedule, @freezeDaysPerMonth, @successRule, @measure, @unit, @direction,
+        @group, @tags, @archivedAt, @targetHistory, @program, @milestones, @achievements, @reminderTime, COALESCE(@createdAt, date('now')), datetime('now'))
+      ON CONFLICT (id) DO UPDATE SET
+        name = excluded.name,
+        target_time = excluded.target_time,
+        color = excluded.color,
+        schedule = excluded.schedule,
+        freeze_days_per_month = excluded.freeze_days_per_month,
+        success_rule = excluded.success_rule,
+        measure = excluded.measure,
+        unit = excluded.unit,
+        direction = excluded.direction,
+        group_name = excluded.group_name,
+        tags = excluded.tags,
+        archived_at = excluded.archived_at,
+        target_history = excluded.target_history,
+        program = excluded.program,
+        milestones = excluded.milestones,
+        achievements = excluded.achievements,
+        reminder_time = excluded.reminder_time,
+        version = habits.version + 1,
+        updated_at = datetime('now')
+      WHERE habits.user_id IS excluded.user_id AND habits.deleted_at IS NULL
+    `),
+    setPosition: db.prepare('UPDATE habits SET position = ? WHERE id = ? AND user_id IS ?'),
+    softDeleteHabit: db.prepare(`
+      UPDATE habits SET deleted_at = strftime('%Y-%m-%dT%H:%M:%SZ', 'now') WHERE id = ? AND user_id IS ? AND deleted_at IS NULL
+    `),
+    restoreHabit: db.prepare('UPDATE habits SET deleted_at = NULL WHERE id = ? AND user_id IS ? AND deleted_at IS NOT NULL'),
+    purgeDeletedHabits: db.prepare<[string]>(`DELETE FROM habits WHERE deleted_at < strftime('%Y-%m-%dT%H:%M:%SZ', 'now', ?)`),
+    // Entries and sessions of habits in the trash stay stored but out of sight
+    listEntries: db.prepare<[string | null], EntryRow>(`
+      SELECT e.* FROM entries e JOIN habits h ON h.id = e.habit_id WHERE h.user_id IS ? AND h.deleted_at IS NULL ORDER BY e.date
+    `),
+    listEntriesForHabit: db.prepare<[string, string | null], EntryRow>(`
+      SELECT e.* FROM entries e JOIN habits h ON h.id = e.habit_id
+      WHERE e.habit_id = ? AND h.user_id IS ? AND h.deleted_at IS NULL ORDER BY e.date
+    `),
+    getEntry: db.prepare<[string, string], EntryRow>('SELECT * FROM entries WHERE habit_id = ? AND date = ?'),
+    listSessionsForDay: db.prepare<[string, string], SessionRow>('SELECT * FROM sessions WHERE habit_id = ? AND date = ? ORDER BY position'),
+    upsertEntry: db.prepare(`
+      INSERT INTO entries (habit_id, date, status, time_spent, notes, mood, energy, tags)
+      VALUES (@habitId, @date, @status, @timeSpent, @notes, @mood, @energy, @tags)
+      ON CONFLICT (habit_id, date) DO UPDATE SET
+        status = excluded.status,
+        time_spent = excluded.time_spent,
+        notes = excluded.notes,
+        mood = excluded.mood,
+        energy = excluded.energy,
+        tags = excluded.tags,
+        version = entries.version + 1,
+        updated_at = datetime('now')
+    `),
+    deleteEntry: db.prepare('DELETE FROM entries WHERE habit_id = ? AND date = ?'),
+    listSessions: db.prepare<[string | null], SessionRow>(`
+      SELECT s.* FROM sessions s JOIN habits h ON h.id = s.habit_id WHERE h.user_id IS ? AND h.deleted_at IS NULL ORDER BY s.date, s.position
+    `),
+    listSessionsForHabit: db.prepare<[string], SessionRow>('SELECT * FROM sessions WHERE habit_id = ? ORDER BY date, position'),
+    deleteSessions: db.prepare('DELETE FROM sessions WHERE habit_id = ? AND date = ?'),
+    insertSession: db.prepare(`
+      INSERT INTO sessions (habit_id, date, id, position, start_time, duration, note)
+      VALUES (@habitId, @date, @id, @position, @startTime, @duration, @note)
+    `),
+    deleteAllHabits: db.prepare('DELETE FROM habits WHERE user_id IS ?'),
+    insertActivity: db.prepare(`
+      INSERT INTO activity (user_id, action, habit_id, habit_name, date, before, after)
+      VALUES (@owner, @action, @habitId, @habitName, @date, @before, @after)
+    `),
+    listActivity: db.prepare<[string | null, number], ActivityRow>('SELECT * FROM activity WHERE user_id IS ? ORDER BY id DESC LIMIT ?'),
+  };
+
+  const purgeDeletedHabits = () => statements.purgeDeletedHabits.run(`-${TRASH_RETENTION_DAYS} days`);
+  purgeDeletedHabits();
+
+  return (owner: string | null) => {
+    const saveHabit = (habit: Habit): Habit => {
+      statements.upsertHabit.run({
+        id: habit.id,
+        owner,
+        name: habit.name,
+        targetTime: habit.targetTime,
+        color: habit.color ?? null,
+        schedule: habit.schedule ? JSON.stringify(habit.schedule) : null,
+        freezeDaysPerMonth: habit.freezeDaysPerMonth ?? 0,
+        successRule: habit.successRule ?? 'manual',
+        measure: habit.measure ?? 'time',
+        unit: habit.unit ?? null,
+        direction: habit.direction ?? 'atLeast',
+        group: habit.group ?? null,
+        tags: habit.tags?.length ? JSON.stringify(habit.tags) : null,
+        archivedAt: habit.archivedAt ?? null,
+        targetHistory: habit.targetHistory?.length ? JSON.stringify(habit.targetHistory) : null,
+        program: habit.program ? JSON.stringify(habit.program) : null,
+        milestones: habit.milestones?.length ? JSON.stringify(habit.milestones) : null,
+        achievements: habit.achievements?.length ? JSON.stringify(habit.achievements) : null,
+        reminderTime: habit.reminderTime ?? null,
+        createdAt: habit.createdAt ?? null,
+        position: statements.nextPosition.get(owner)!.next,
+      });
+      return toHabit(statements.getHabit.get(habit.id, owner)!);
+    };
+
+    const getEntry = (habitId: string, date: string): HabitEntry | undefined => {
+      const row = statements.getEntry.get(habitId, date);
+      return row ? toEntry(row, statements.listSessionsForDay.all(habitId, date).map(toSession)) : undefined;
+    };
+
+    // Sessions are rewritten wholesale and the entry's time_spent kept as their total
+    const saveEntry = db.transaction((entry: HabitEntry): HabitEntry => {
+      const sessions = getSessions(entry);
+      const saved = { ...entry, sessions, timeSpent: sumSessions(sessions) };
+      statements.upsertEntry.run({
+        habitId: saved.habitId,
+        date: saved.date,
+        status: saved.status,
+        timeSpent: saved.timeSpent,
+        notes: saved.notes || null,
+        mood: saved.mood ?? null,
+        energy: saved.energy ?? null,
+        tags: saved.tags?.length ? JSON.stringify(saved.tags) : null,
+      });
+      statements.deleteSessions.run(saved.habitId, saved.date);
+      sessions.forEach((session, position) => {
+        statements.insertSession.run({
+          habitId: saved.habitId,
+          date: saved.date,
+          id: session.id,
+          position,
+          startTime: session.startTime ?? null,
+          duration: session.duration,
+          note: session.note || null,
+        });
+      });
+      return getEntry(saved.habitId, saved.date)!;
+    });
+
+    return {
+      listHabits: () => statements.listHabits.all(owner).map(toHabit),
+      getHabit: (id: string) => {
+        const row = statements.getHabit.get(id, owner);
+        return row ? toHabit(row) : undefined;
+      },
+      /** Whether `id` is used by another owner's habit, which this one can't reuse. */
+      isHabitIdTaken: (id: string) => {
+        const row = statements.getHabitOwner.get(id);
+        return !!row && row.user_id !== owner;
+      },
+      /** Whether `id` is one of this owner's habits in the trash, which only `restoreHabit` brings back. */
+      isHabitDeleted: (id: string) => !!statements.isHabitDeleted.get(id, owner),
+      saveHabit,
+      /** Moves a habit to the trash; it and its entries can be restored until purged. */
+      deleteHabit: (id: string) => statements.softDeleteHabit.run(id, owner).changes > 0,
+      restoreHabit: (id: string) => statements.restoreHabit.run(id, owner).changes > 0,
+      listDeletedHabits: () => {
+        purgeDeletedHabits();
+        return statements.listDeletedHabits.all(owner).map(toHabit);
+      },
+      /** Stores the column order; `ids` lists every habit, first column first. */
+      reorderHabits: db.transaction((ids: string[]) => {
+        ids.forEach((id, position) => statements.setPosition.run(position, id, owner));
+      }),
+
+      listEntries: (habitId?: string) => habitId
+        ? joinSessions(statements.listEntriesForHabit.all(habitId, owner), statements.listSessionsForHabit.all(habitId))
+        : joinSessions(statements.listEntries.all(owner), statements.listSessions.all(owner)),
+      saveEntry,
+      getEntry,
+      deleteEntry: (habitId: string, date: string) => statements.deleteEntry.run(habitId, date).changes > 0,
+
+      getState: (): AppState => ({
+        habits: statements.listHabits.all(owner).map(toHabit),
+        entries: joinSessions(statements.listEntries.all(owner), statements.listSessions.all(owner)),
+      }),
+
+      logActivity: (item: Omit<ActivityItem, 'id' | 'at'>) => {
+        statements.insertActivity.run({
+          owner,
+          action: item.action,
+          habitId: item.habitId ?? null,
+          habitName: item.habitName ?? null,
+          date: item.date ?? null,
+          before: item.before ? JSON.stringify(item.before) : null,
+          after: item.after ? JSON.stringify(item.after) : null,
+        });
+      },
+      listActivity: (limit: number) => statements.listActivity.all(owner, limit).map(toActivity),
+
+      /** Upserts a whole state blob, e.g. the legacy localStorage data, in one transaction. */
+      importState: db.transaction((state: AppState) => {
+        state.habits.forEach(saveHabit);
+        state.entries.forEach(saveEntry);
+      }),
+
+      /** Swaps all of this owner's data for `state`; entries go with their habits via ON DELETE CASCADE. */
+      replaceState: db.transaction((state: AppState) => {
+        statements.deleteAllHabits.run(owner);
+        state.habits.forEach(saveHabit);
+        state.entries.forEach(saveEntry);
+      }),
+    };
+  };
+}
+
+export type StoreFactory = ReturnType<typeof createStore>;
+export type Store = ReturnType<StoreFactory>;
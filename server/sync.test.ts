@@ -0,0 +1,140 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HabitEntry } from '../src/types';
+import { withSessions } from '../src/lib/sessions';
+import { startTestServer, TestServer } from './testing';
+
+type Api = typeof import('../src/lib/api').api;
+
+const realFetch = globalThis.fetch;
+const DATE = '2024-10-10';
+
+// localStorage only holds the session, which stays empty for signed-out clients
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+};
+
+/**
+ * One device running the real client: its own IndexedDB, localStorage and
+ * connection, and its own copy of the api module. Calls go through `run`,
+ * which puts this device's globals in place first.
+ */
+async function createClient(baseUrl: string) {
+  const indexedDB = new IDBFactory();
+  const localStorage = memoryStorage();
+  let online = true;
+  const use = () => {
+    vi.stubGlobal('indexedDB', indexedDB);
+    vi.stubGlobal('localStorage', localStorage);
+    vi.stubGlobal('navigator', { onLine: online });
+    vi.stubGlobal('fetch', (path: string, init?: RequestInit) =>
+      online ? realFetch(`${baseUrl}${path}`, init) : Promise.reject(new TypeError('fetch failed')));
+  };
+  use();
+  vi.resetModules();
+  const { api } = await import('../src/lib/api');
+  return {
+    run: <T>(fn: (api: Api) => Promise<T>) => {
+      use();
+      return fn(api);
+    },
+    setOnline: (value: boolean) => {
+      online = value;
+    },
+  };
+}
+
+let server: TestServer;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  baseUrl = server.baseUrl;
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await server.close();
+});
+
+// Each test works on its own habit, starting from a day both devices have synced
+let count = 0;
+let habitId = '';
+const blankDay = (): HabitEntry => ({ habitId, date: DATE, status: 'none', timeSpent: 0 });
+
+beforeEach(() => {
+  habitId = `synced-${++count}`;
+});
+
+async function twoSyncedClients() {
+  const [phone, laptop] = [await createClient(baseUrl), await createClient(baseUrl)];
+  await phone.run(api => api.createHabit({ id: habitId, name: `Habit ${count}`, targetTime: 30 }));
+  await phone.run(api => api.saveEntry(blankDay()));
+  await phone.run(api => api.getState());
+  await laptop.run(api => api.getState());
+  return { phone, laptop };
+}
+
+const serverEntry = async (client: Awaited<ReturnType<typeof createClient>>) =>
+  (await client.run(api => api.getState())).entries.find(e => e.habitId === habitId && e.date === DATE);
+
+describe('two devices syncing through the server', () => {
+  it('merges changes to different parts of the same day', async () => {
+    const { phone, laptop } = await twoSyncedClients();
+    const phoneCopy = (await phone.run(api => api.getLocalState())).entries.find(e => e.habitId === habitId)!;
+    const laptopCopy = (await laptop.run(api => api.getLocalState())).entries.find(e => e.habitId === habitId)!;
+
+    await phone.run(api => api.saveEntry(withSessions(phoneCopy, [{ id: 'run', duration: 20 }])));
+    const merged = await laptop.run(api => api.saveEntry({ ...laptopCopy, notes: 'Felt strong' }));
+
+    expect(merged).toMatchObject({ timeSpent: 20, notes: 'Felt strong', sessions: [{ id: 'run', duration: 20 }] });
+    expect(await serverEntry(phone)).toMatchObject({ timeSpent: 20, notes: 'Felt strong' });
+    expect(await laptop.run(api => api.listConflicts())).toEqual([]);
+  });
+
+  it('answers 409 when both devices change the same field, and keeps the conflict to resolve', async () => {
+    const { phone, laptop } = await twoSyncedClients();
+    const base = (await laptop.run(api => api.getLocalState())).entries.find(e => e.habitId === habitId)!;
+
+    await phone.run(api => api.saveEntry({ ...base, notes: 'From the phone' }));
+    const res = await server.request(`/habits/${habitId}/entries/${DATE}`, {
+      method: 'PUT',
+      body: JSON.stringify({ ...base, notes: 'From the laptop', base }),
+    });
+    expect(res.status).toBe(409);
+    expect((await res.json()).current).toMatchObject({ notes: 'From the phone' });
+
+    await laptop.run(api => api.saveEntry({ ...base, notes: 'From the laptop' }));
+    const [conflict] = await laptop.run(api => api.listConflicts());
+    expect(conflict).toMatchObject({ mine: { notes: 'From the laptop' }, theirs: { notes: 'From the phone' } });
+
+    await laptop.run(api => api.resolveConflict(conflict, 'mine'));
+    expect(await serverEntry(phone)).toMatchObject({ notes: 'From the laptop' });
+  });
+
+  it('queues changes made offline and replays them in order once back online', async () => {
+    const { phone, laptop } = await twoSyncedClients();
+    const base = (await laptop.run(api => api.getLocalState())).entries.find(e => e.habitId === habitId)!;
+
+    laptop.setOnline(false);
+    const logged = withSessions(base, [{ id: 'walk', duration: 15 }]);
+    await laptop.run(api => api.saveEntry(logged));
+    await laptop.run(api => api.saveEntry({ ...logged, status: 'done' }));
+    expect(await laptop.run(api => api.countQueuedWrites())).toBe(2);
+    expect(await laptop.run(api => api.getState())).toMatchObject({ entries: expect.arrayContaining([expect.objectContaining({ status: 'done' })]) });
+    expect(await serverEntry(phone)).toMatchObject({ status: 'none', timeSpent: 0 });
+
+    // Meanwhile the phone adds a note, which the replayed writes merge with
+    await phone.run(api => api.saveEntry({ ...base, notes: 'Rainy' }));
+
+    laptop.setOnline(true);
+    expect(await laptop.run(api => api.flushQueuedWrites())).toBe(0);
+    expect(await laptop.run(api => api.countQueuedWrites())).toBe(0);
+    expect(await serverEntry(phone)).toMatchObject({ status: 'done', timeSpent: 15, notes: 'Rainy' });
+  });
+});
@@ -0,0 +1,199 @@
+import { randomBytes } from 'crypto';
+import { Challenge, Habit, HabitEntry, HabitMeasure, Team } from '../src/types';
+import { DB } from './db';
+
+interface TeamRow {
+  id: string;
+  name: string;
+  invite_code: string;
+  member_count: number;
+}
+
+interface ChallengeRow {
+  id: string;
+  team_id: string;
+  name: string;
+  start_date: string;
+  days: number;
+  target: number;
+  measure: HabitMeasure;
+}
+
+interface ParticipantRow {
+  user_id: string;
+  name: string;
+  habit_id: string;
+}
+
+export type ChallengeInfo = Omit<Challenge, 'leaderboard'> & { participants: { userId: string; name: string; habitId: string }[] };
+
+const toTeam = (row: TeamRow): Team => ({
+  id: row.id,
+  name: row.name,
+  inviteCode: row.invite_code,
+  memberCount: row.member_count,
+});
+
+const toChallenge = (row: ChallengeRow): Omit<Challenge, 'leaderboard'> => ({
+  id: row.id,
+  teamId: row.team_id,
+  name: row.name,
+  startDate: row.start_date,
+  days: row.days,
+  target: row.target,
+  measure: row.measure,
+});
+
+/** A habit as teammates see it, without reminders, tags or column placement. */
+export const toSharedHabit = (habit: Habit): Habit => ({
+  id: habit.id,
+  name: habit.name,
+  targetTime: habit.targetTime,
+  ...(habit.targetHistory ? { targetHistory: habit.targetHistory } : {}),
+  ...(habit.program ? { program: habit.program } : {}),
+  ...(habit.color ? { color: habit.color } : {}),
+  ...(habit.schedule ? { schedule: habit.schedule } : {}),
+  ...(habit.freezeDaysPerMonth ? { freezeDaysPerMonth: habit.freezeDaysPerMonth } : {}),
+  ...(habit.successRule ? { successRule: habit.successRule } : {}),
+  ...(habit.measure ? { measure: habit.measure } : {}),
+  ...(habit.unit ? { unit: habit.unit } : {}),
+  ...(habit.direction ? { direction: habit.direction } : {}),
+  ...(habit.archivedAt ? { archivedAt: habit.archivedAt } : {}),
+  ...(habit.createdAt ? { createdAt: habit.createdAt } : {}),
+});
+
+/** A day as teammates see it: notes, including session notes, stay private. */
+export const toSharedEntry = (entry: HabitEntry): HabitEntry => ({
+  habitId: entry.habitId,
+  date: entry.date,
+  status: entry.status,
+  timeSpent: entry.timeSpent,
+  sessions: (entry.sessions ?? []).map(({ id, duration }) => ({ id, duration })),
+});
+
+const newId = () => randomBytes(6).toString('hex');
+const newInviteCode = () => randomBytes(4).toString('hex').toUpperCase();
+
+/** Teams, who is in them, which habits each member shares and the team's challenges. */
+export function createTeams(db: DB) {
+  const statements = {
+    insertTeam: db.prepare('INSERT INTO teams (id, name, invite_code, created_by) VALUES (@id, @name, @inviteCode, @userId)'),
+    insertMember: db.prepare('INSERT OR IGNORE INTO team_members (team_id, user_id) VALUES (?, ?)'),
+    deleteMember: db.prepare('DELETE FROM team_members WHERE team_id = ? AND user_id = ?'),
+    deleteTeam: db.prepare('DELETE FROM teams WHERE id = ?'),
+    getTeamId: db.prepare<[string], { id: string }>('SELECT id FROM teams WHERE invite_code = ?'),
+    // Only members can see a team
+    getTeam: db.prepare<[string, string], TeamRow>(`
+      SELECT t.*, (SELECT COUNT(*) FROM team_members WHERE team_id = t.id) AS member_count
+      FROM teams t JOIN team_members m ON m.team_id = t.id AND m.user_id = ?
+      WHERE t.id = ?
+    `),
+    listTeams: db.prepare<[string], TeamRow>(`
+      SELECT t.*, (SELECT COUNT(*) FROM team_members WHERE team_id = t.id) AS member_count
+      FROM teams t JOIN team_members m ON m.team_id = t.id AND m.user_id = ?
+      ORDER BY m.joined_at
+    `),
+    listMembers: db.prepare<[string], { user_id: string; name: string }>(`
+      SELECT m.user_id, u.name FROM team_members m JOIN users u ON u.id = m.user_id WHERE m.team_id = ? ORDER BY m.joined_at
+    `),
+    countMembers: db.prepare<[string], { count: number }>('SELECT COUNT(*) AS count FROM team_members WHERE team_id = ?'),
+    // Habits in the trash drop out of sight until restored
+    listShares: db.prepare<[string], { habit_id: string; user_id: string }>(`
+      SELECT s.habit_id, h.user_id FROM team_habits s
+      JOIN habits h ON h.id = s.habit_id AND h.deleted_at IS NULL
+      JOIN team_members m ON m.team_id = s.team_id AND m.user_id = h.user_id
+      WHERE s.team_id = ? ORDER BY h.position
+    `),
+    insertShare: db.prepare('INSERT OR IGNORE INTO team_habits (team_id, habit_id) VALUES (?, ?)'),
+    deleteSharesOf: db.prepare(`
+      DELETE FROM team_habits WHERE team_id = ? AND habit_id IN (SELECT id FROM habits WHERE user_id = ?)
+    `),
+    insertChallenge: db.prepare(`
+      INSERT INTO challenges (id, team_id, name, start_date, days, target, measure, created_by)
+      VALUES (@id, @teamId, @name, @startDate, @days, @target, @measure, @userId)
+    `),
+    getChallenge: db.prepare<[string, string], ChallengeRow>('SELECT * FROM challenges WHERE id = ? AND team_id = ?'),
+    listChallenges: db.prepare<[string], ChallengeRow>('SELECT * FROM challenges WHERE team_id = ? ORDER BY start_date DESC, created_at DESC'),
+    listParticipants: db.prepare<[string], ParticipantRow>(`
+      SELECT p.user_id, u.name, p.habit_id FROM challenge_participants p
+      JOIN users u ON u.id = p.user_id
+      JOIN habits h ON h.id = p.habit_id AND h.deleted_at IS NULL
+      WHERE p.challenge_id = ?
+    `),
+    upsertParticipant: db.prepare(`
+      INSERT INTO challenge_participants (challenge_id, user_id, habit_id) VALUES (?, ?, ?)
+      ON CONFLICT (challenge_id, user_id) DO UPDATE SET habit_id = excluded.habit_id
+    `),
+    deleteParticipationsOf: db.prepare(`
+      DELETE FROM challenge_participants WHERE user_id = ? AND challenge_id IN (SELECT id FROM challenges WHERE team_id = ?)
+    `),
+  };
+
+  const getTeam = (teamId: string, userId: string) => {
+    const row = statements.getTeam.get(userId, teamId);
+    return row ? toTeam(row) : undefined;
+  };
+
+  return {
+    getTeam,
+    listTeams: (userId: string) => statements.listTeams.all(userId).map(toTeam),
+
+    createTeam: db.transaction((name: string, userId: string): Team => {
+      const id = newId();
+      statements.insertTeam.run({ id, name, inviteCode: newInviteCode(), userId });
+      statements.insertMember.run(id, userId);
+      return getTeam(id, userId)!;
+    }),
+
+    /** Joins the team with this invite code; undefined when there is none. */
+    joinTeam: (inviteCode: string, userId: string): Team | undefined => {
+      const team = statements.getTeamId.get(inviteCode.trim().toUpperCase());
+      if (!team) return undefined;
+      statements.insertMember.run(team.id, userId);
+      return getTeam(team.id, userId);
+    },
+
+    /** Leaving takes the member's shares and challenge places with them; the last one out closes the team. */
+    leaveTeam: db.transaction((teamId: string, userId: string) => {
+      statements.deleteSharesOf.run(teamId, userId);
+      statements.deleteParticipationsOf.run(userId, teamId);
+      statements.deleteMember.run(teamId, userId);
+      if (statements.countMembers.get(teamId)!.count === 0) statements.deleteTeam.run(teamId);
+    }),
+
+    listMembers: (teamId: string) => statements.listMembers.all(teamId).map(row => ({ userId: row.user_id, name: row.name })),
+
+    listShares: (teamId: string) => statements.listShares.all(teamId).map(row => ({ habitId: row.habit_id, userId: row.user_id })),
+
+    /** Replaces the habits `userId` shows to the team; callers check the habits are theirs. */
+    setSharedHabits: db.transaction((teamId: string, userId: string, habitIds: string[]) => {
+      statements.deleteSharesOf.run(teamId, userId);
+      habitIds.forEach(habitId => statements.insertShare.run(teamId, habitId));
+    }),
+
+    createChallenge: (teamId: string, userId: string, challenge: Pick<Challenge, 'name' | 'startDate' | 'days' | 'target' | 'measure'>) => {
+      const id = newId();
+      statements.insertChallenge.run({ id, teamId, userId, ...challenge });
+      return id;
+    },
+
+    getChallenge: (challengeId: string, teamId: string) => {
+      const row = statements.getChallenge.get(challengeId, teamId);
+      return row ? toChallenge(row) : undefined;
+    },
+
+    listChallenges: (teamId: string): ChallengeInfo[] =>
+      statements.listChallenges.all(teamId).map(row => ({
+        ...toChallenge(row),
+        participants: statements.listParticipants.all(row.id).map(p => ({ userId: p.user_id, name: p.name, habitId: p.habit_id })),
+      })),
+
+    /** Enters a challenge with one of the member's habits, which the team then sees. */
+    joinChallenge: db.transaction((challengeId: string, teamId: string, userId: string, habitId: string) => {
+      statements.upsertParticipant.run(challengeId, userId, habitId);
+      statements.insertShare.run(teamId, habitId);
+    }),
+  };
+}
+
+export type Teams = ReturnType<typeof createTeams>;
@@ -0,0 +1,30 @@
+import { AddressInfo } from 'net';
+import express from 'express';
+import { createAccounts } from './accounts';
+import { createApiRouter } from './api';
+import { openDatabase } from './db';
+import { InsightsModel } from './insights';
+import { createStore } from './store';
+import { createTeams } from './teams';
+
+// Kept before any test stubs the global one for a client
+const realFetch = globalThis.fetch;
+
+/** The API on an in-memory database and a free port, for tests that talk to it over HTTP. */
+export async function startTestServer(insights: InsightsModel | null = null) {
+  const db = openDatabase(':memory:');
+  const app = express().use('/api', createApiRouter(createStore(db), createAccounts(db), createTeams(db), insights));
+  const server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return {
+    db,
+    baseUrl,
+    /** A JSON request to `/api${path}`; the response is returned whatever its status. */
+    request: (path: string, init: RequestInit = {}) =>
+      realFetch(`${baseUrl}/api${path}`, { ...init, headers: { 'Content-Type': 'application/json', ...init.headers } }),
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+export type TestServer = Awaited<ReturnType<typeof startTestServer>>;
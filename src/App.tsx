@@ -4,51 +4,315 @@
  */
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { format, subDays, startOfToday, eachDayOfInterval, lastDayOfMonth, startOfMonth, isBefore, isToday, addMonths, subMonths, isSameMonth } from 'date-fns';
-import { Plus, BarChart2, Settings2, Check, X, Clock, ChevronLeft, ChevronRight, Calendar, FileText } from 'lucide-react';
-import { Habit, HabitEntry, HabitStatus } from './types';
+import { format, parseISO, subDays, eachDayOfInterval, lastDayOfMonth, startOfMonth, startOfWeek, endOfWeek, addMonths, addWeeks, addYears, isSameMonth } from 'date-fns';
+import { Plus, BarChart2, Settings2, Check, X, Clock, ChevronLeft, ChevronRight, Calendar, FileText, Flame, Coffee, ArrowDownUp, Play, Pause, Square, LayoutDashboard, Archive, ChevronDown, GripVertical, Tag, History, Bell, CloudOff, Sparkles, Command, Users, Sunrise, BookOpen, SunMoon } from 'lucide-react';
+import { AppState, Habit, HabitEntry, SuccessRule, SyncConflict, ThemePreference, User } from './types';
 import { HabitStats } from './components/HabitStats';
+import { ScheduleFields } from './components/ScheduleFields';
+import { MeasureFields } from './components/MeasureFields';
+import { ProgramFields } from './components/ProgramFields';
+import { ColorField } from './components/ColorField';
+import { DataTransfer } from './components/DataTransfer';
+import { EntryEditor } from './components/EntryEditor';
+import { Journal } from './components/Journal';
+import { WeekView } from './components/WeekView';
+import { YearHeatmap } from './components/YearHeatmap';
+import { Dashboard } from './components/Dashboard';
+import { ArchivedHabits } from './components/ArchivedHabits';
+import { ActivityLog } from './components/ActivityLog';
+import { UndoToast } from './components/UndoToast';
+import { ReminderSettings } from './components/ReminderSettings';
+import { SyncConflicts } from './components/SyncConflicts';
+import { InsightsPanel } from './components/InsightsPanel';
+import { CommandBar } from './components/CommandBar';
+import { TeamsPanel } from './components/TeamsPanel';
+import { DaySettings } from './components/DaySettings';
+import { ThemeSettings } from './components/ThemeSettings';
+import { Celebration, formatMilestoneCount, MilestoneBar, MilestoneCelebration } from './components/Milestones';
+import { CellStatusIcon } from './components/CellStatusIcon';
 import { cn } from './lib/utils';
+import { api } from './lib/api';
+import { describeSchedule, parseScheduleForm } from './lib/schedule';
+import { CELL_BACKGROUNDS, describeCell, getCellState, getCellStyle } from './lib/cells';
+import { describeProgress, formatAmount, formatGoal, formatProgress, isLimitHabit, isTimeHabit, meetsTarget, parseMeasureForm } from './lib/measure';
+import { SUCCESS_RULES } from './lib/scoring';
+import { calculateStreaks } from './lib/streaks';
+import { getTargetOn, withTargetChange } from './lib/targets';
+import { parseProgramForm, withEditedGoal } from './lib/programs';
+import { addAchievements, describeMilestone, getNextMilestone, recordAchievements } from './lib/milestones';
+import { getAllGroups, getAllTags, groupHabits, HabitGroup, hasTag, isArchived, moveHabit, parseTags, sortByOrder } from './lib/groups';
+import { describeEntrySave, TRASH_RETENTION_DAYS } from './lib/activity';
+import { ImportMode } from './lib/transfer';
+import { getSessions, newSessionId, withSessions } from './lib/sessions';
+import { getToday, getTodayKey, isToday, toDateKey } from './lib/dates';
+import { parseColorForm } from './lib/theme';
+import { formatDuration, getElapsedMs, SessionTimer, useSessionTimers } from './hooks/useSessionTimers';
+import { useUndoHistory } from './hooks/useUndoHistory';
+import { useReminders } from './hooks/useReminders';
+import { useFocusTrap } from './hooks/useFocusTrap';
+import { useDaySettings } from './hooks/useDaySettings';
+import { useTheme } from './hooks/useTheme';
 
-const STORAGE_KEY = 'habit-grid-data';
+// Data used to live only in localStorage under this key; it moves to this device's IndexedDB once and is queued for the server.
+const LEGACY_STORAGE_KEY = 'habit-grid-data';
+// Collapsed column groups are a per-device view preference, not synced data
+const COLLAPSED_GROUPS_KEY = 'habit-grid-collapsed-groups';
+// How often an open tab pulls changes made on other devices
+const SYNC_INTERVAL_MS = 30000;
+
+type ViewMode = 'week' | 'month' | 'year';
+
+// A month grid column: one habit, or a collapsed group summarised as done counts
+type GridColumn = { kind: 'habit'; habit: Habit } | { kind: 'group'; group: HabitGroup };
+
+const VIEW_MODES: ViewMode[] = ['week', 'month', 'year'];
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+// Moves the anchor date one page back or forward in the given view
+const stepViewDate = (date: Date, view: ViewMode, direction: 1 | -1) =>
+  view === 'week' ? addWeeks(date, direction) : view === 'month' ? addMonths(date, direction) : addYears(date, direction);
 
 export default function App() {
+  // The day start and home time zone, which the date module already has from main.tsx
+  const daySettings = useDaySettings();
   const [habits, setHabits] = useState<Habit[]>([]);
   const [entries, setEntries] = useState<HabitEntry[]>([]);
   const [selectedHabitForStats, setSelectedHabitForStats] = useState<Habit | null>(null);
   const [isAddingHabit, setIsAddingHabit] = useState(false);
+  const [isTransferringData, setIsTransferringData] = useState(false);
+  const [isDashboardOpen, setIsDashboardOpen] = useState(false);
+  const [isJournalOpen, setIsJournalOpen] = useState(false);
   const [editingEntry, setEditingEntry] = useState<{ habitId: string; date: string } | null>(null);
   const [editingHabit, setEditingHabit] = useState<Habit | null>(null);
-  const [viewDate, setViewDate] = useState(startOfMonth(new Date()));
+  const [viewMode, setViewMode] = useState<ViewMode>('month');
+  const [viewDate, setViewDate] = useState(getToday());
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingWrites, setPendingWrites] = useState(0);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isConflictsOpen, setIsConflictsOpen] = useState(false);
+  const lastWriteAt = useRef(0);
+  // Milestones are only checked against a state that has caught up with the server
+  const [hasSynced, setHasSynced] = useState(false);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isActivityOpen, setIsActivityOpen] = useState(false);
+  const [isRemindersOpen, setIsRemindersOpen] = useState(false);
+  const [isInsightsOpen, setIsInsightsOpen] = useState(false);
+  const [isCommandBarOpen, setIsCommandBarOpen] = useState(false);
+  const [isTeamsOpen, setIsTeamsOpen] = useState(false);
+  const [isDaySettingsOpen, setIsDaySettingsOpen] = useState(false);
+  const [isThemeOpen, setIsThemeOpen] = useState(false);
+  const [celebrations, setCelebrations] = useState<Celebration[]>([]);
+  const [user, setUser] = useState<User | null>(null);
+  const theme = useTheme(user);
+  const [deletedHabits, setDeletedHabits] = useState<Habit[]>([]);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [draggedHabitId, setDraggedHabitId] = useState<string | null>(null);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(
+    () => new Set(JSON.parse(localStorage.getItem(COLLAPSED_GROUPS_KEY) || '[]'))
+  );
   const todayRef = useRef<HTMLTableRowElement>(null);
+  const gridRef = useRef<HTMLTableElement>(null);
+  // The one grid cell in the tab order; arrow keys move it
+  const [focusedCell, setFocusedCell] = useState<{ habitId: string; date: string } | null>(null);
 
-  // Load data
-  useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      const { habits, entries } = JSON.parse(saved);
-      setHabits(habits);
-      setEntries(entries);
-    } else {
-      // Default habits
-      setHabits([
-        { id: '1', name: 'Exercise', targetTime: 30 },
-        { id: '2', name: 'Reading', targetTime: 20 },
-        { id: '3', name: 'Meditation', targetTime: 10 },
-      ]);
+  const refreshSyncStatus = () => {
+    api.countQueuedWrites().then(setPendingWrites, () => setPendingWrites(0));
+    api.listConflicts().then(setConflicts, () => setConflicts([]));
+  };
+
+  // Sends what was queued while offline, then takes the server's state as current.
+  // A change made while the state was in flight wins; the next sync catches up.
+  const sync = async () => {
+    const startedAt = Date.now();
+    const rejected = await api.flushQueuedWrites().then(() => null, (err: Error) => err);
+    const state = await api.getState();
+    if (lastWriteAt.current < startedAt) {
+      setHabits(state.habits);
+      setEntries(state.entries);
     }
+    setHasSynced(true);
+    refreshSyncStatus();
+    if (rejected) throw rejected;
+  };
+
+  // Load this device's copy first so the grid works offline, then catch up with the server
+  useEffect(() => {
+    const load = async () => {
+      const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (legacy) {
+        await api.importLocalState(JSON.parse(legacy));
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+      }
+      const local = await api.getLocalState();
+      setHabits(local.habits);
+      setEntries(local.entries);
+      // Settled before syncing, since a token the server dropped signs this device out
+      setUser(await api.getCurrentUser().catch(() => null));
+      await sync();
+      // The trash lives only on the server, so it stays empty while offline
+      api.listDeletedHabits().then(setDeletedHabits, () => {});
+    };
+    load().catch(err => setSyncError(`Could not load data: ${err.message}`));
+
+    const goOnline = () => {
+      setIsOnline(true);
+      sync().catch(err => setSyncError(`Could not sync: ${err.message}`));
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
   }, []);
 
-  // Save data
+  // Picks up changes from other devices while this one stays open
+  useEffect(() => {
+    const pull = () => {
+      if (!navigator.onLine || document.visibilityState !== 'visible') return;
+      sync().catch(err => setSyncError(`Could not sync: ${err.message}`));
+    };
+    const interval = setInterval(pull, SYNC_INTERVAL_MS);
+    document.addEventListener('visibilitychange', pull);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', pull);
+    };
+  }, []);
+
+  // Local state is updated optimistically; failed writes surface in the banner.
+  // Offline writes don't fail, they wait on the device and are counted instead.
+  const persist = (promise: Promise<unknown>) => {
+    lastWriteAt.current = Date.now();
+    promise.then(() => setSyncError(null), err => setSyncError(`Could not save changes: ${err.message}`)).finally(refreshSyncStatus);
+  };
+
+  const { record, undo, redo, notice, dismissNotice, reset: resetHistory } = useUndoHistory();
+  const addDialogRef = useFocusTrap(() => setIsAddingHabit(false), isAddingHabit);
+  const editDialogRef = useFocusTrap(() => setEditingHabit(null), editingHabit !== null);
+
+  // Raw writes below don't touch the undo history; the handlers further down
+  // record each change together with the writes that reverse it. They use
+  // functional updates because undo can run them long after they were created.
+  const writeHabit = (habit: Habit) => {
+    setHabits((prev: Habit[]) => prev.map(h => h.id === habit.id ? habit : h));
+    persist(api.updateHabit(habit));
+  };
+
+  const writeOrder = (ids: string[]) => {
+    setHabits((prev: Habit[]) => sortByOrder(prev, ids));
+    persist(api.reorderHabits(ids));
+  };
+
+  const trashHabit = (habit: Habit) => {
+    setHabits((prev: Habit[]) => prev.filter(h => h.id !== habit.id));
+    setEntries((prev: HabitEntry[]) => prev.filter(e => e.habitId !== habit.id));
+    setDeletedHabits((prev: Habit[]) => [{ ...habit, deletedAt: new Date().toISOString() }, ...prev.filter(h => h.id !== habit.id)]);
+    persist(api.deleteHabit(habit.id));
+  };
+
+  // The server hands back the habit with its entries and original column
+  const untrashHabit = (id: string) => {
+    setDeletedHabits((prev: Habit[]) => prev.filter(h => h.id !== id));
+    persist(api.restoreHabit(id).then(state => {
+      setHabits(state.habits);
+      setEntries(state.entries);
+    }));
+  };
+
+  // Shows the day as stored, unless it was edited again meanwhile
+  const applyStored = (sent: HabitEntry | undefined, stored: HabitEntry | undefined) => {
+    if (!stored) return;
+    setEntries((prev: HabitEntry[]) => {
+      const current = prev.find(e => e.habitId === stored.habitId && e.date === stored.date);
+      if (current !== sent) return prev;
+      return [...prev.filter(e => e !== current), stored];
+    });
+  };
+
+  const writeEntry = (entry: HabitEntry) => {
+    setEntries((prev: HabitEntry[]) => {
+      const filtered = prev.filter(e => !(e.habitId === entry.habitId && e.date === entry.date));
+      return [...filtered, entry];
+    });
+    persist(api.saveEntry(entry).then(stored => applyStored(entry, stored)));
+  };
+
+  const removeEntry = (habitId: string, date: string) => {
+    setEntries((prev: HabitEntry[]) => prev.filter(e => !(e.habitId === habitId && e.date === date)));
+    persist(api.deleteEntry(habitId, date).then(stored => applyStored(undefined, stored)));
+  };
+
+  const resolveConflict = (conflict: SyncConflict, keep: 'mine' | 'theirs') => {
+    const kept = keep === 'mine' ? conflict.mine : conflict.theirs;
+    setConflicts((prev: SyncConflict[]) => prev.filter(c => c !== conflict));
+    setEntries((prev: HabitEntry[]) => [
+      ...prev.filter(e => !(e.habitId === conflict.habitId && e.date === conflict.date)),
+      ...(kept ? [kept] : []),
+    ]);
+    persist(api.resolveConflict(conflict, keep));
+  };
+
+  useEffect(() => {
+    localStorage.setItem(COLLAPSED_GROUPS_KEY, JSON.stringify([...collapsedGroups]));
+  }, [collapsedGroups]);
+
+  const toggleGroup = (name: string) => {
+    setCollapsedGroups((prev: Set<string>) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name); else next.add(name);
+      return next;
+    });
+  };
+
+  const archivedHabits = useMemo(() => habits.filter(isArchived), [habits]);
+  const allTags = useMemo(() => getAllTags(habits.filter(h => !isArchived(h))), [habits]);
+  const allGroups = useMemo(() => getAllGroups(habits), [habits]);
+
+  // Drop a filter whose tag no longer exists, it would otherwise leave the grid empty
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify({ habits, entries }));
-  }, [habits, entries]);
+    if (tagFilter && !allTags.includes(tagFilter)) setTagFilter(null);
+  }, [tagFilter, allTags]);
+
+  // Archived habits leave every grid view; the tag filter narrows what remains
+  const habitGroups = useMemo(() => {
+    return groupHabits(habits.filter(h => !isArchived(h) && (!tagFilter || hasTag(h, tagFilter))));
+  }, [habits, tagFilter]);
+  const visibleHabits = useMemo(() => habitGroups.flatMap(g => g.habits), [habitGroups]);
+  const hasGroups = habitGroups.some(g => g.name !== null);
+
+  const gridColumns = useMemo(() => {
+    return habitGroups.flatMap((group): GridColumn[] =>
+      group.name !== null && collapsedGroups.has(group.name)
+        ? [{ kind: 'group', group }]
+        : group.habits.map(habit => ({ kind: 'habit', habit }))
+    );
+  }, [habitGroups, collapsedGroups]);
+
+  const streaks = useMemo(() => {
+    return new Map(habits.map(habit => [habit.id, calculateStreaks(habit, entries)]));
+  }, [habits, entries, daySettings.settings]);
+
+  const nextMilestones = useMemo(() => {
+    return new Map(habits.map(habit => [habit.id, getNextMilestone(habit, entries)]));
+  }, [habits, entries, daySettings.settings]);
 
   const days = useMemo(() => {
+    if (viewMode === 'week') {
+      return eachDayOfInterval({ start: startOfWeek(viewDate, WEEK_OPTIONS), end: endOfWeek(viewDate, WEEK_OPTIONS) });
+    }
     const start = startOfMonth(viewDate);
     const end = lastDayOfMonth(viewDate);
     return eachDayOfInterval({ start, end });
-  }, [viewDate]);
+  }, [viewDate, viewMode]);
+
+  const viewLabel = viewMode === 'week'
+    ? `${format(days[0], 'MMM dd')} – ${format(days[days.length - 1], 'MMM dd')}`
+    : viewMode === 'month'
+      ? format(viewDate, 'MMMM yyyy')
+      : `${format(subDays(viewDate, 364), 'MMM yyyy')} – ${format(viewDate, 'MMM yyyy')}`;
 
   // Auto-scroll to today
   const scrollToToday = () => {
@@ -58,221 +322,819 @@ export default function App() {
   };
 
   useEffect(() => {
-    if (isSameMonth(viewDate, new Date())) {
+    if (viewMode === 'month' && isSameMonth(viewDate, getToday())) {
       const timer = setTimeout(scrollToToday, 200);
       return () => clearTimeout(timer);
     }
-  }, [viewDate, habits]); // Re-run when month changes or habits are added/removed
+  }, [viewDate, viewMode, habits]); // Re-run when month changes or habits are added/removed
+
+  const gridHabits = useMemo(() => gridColumns.flatMap(column => column.kind === 'habit' ? [column.habit] : []), [gridColumns]);
+  const dayKeys = useMemo(() => days.map(day => toDateKey(day)), [days]);
+
+  // The focused cell while it is on screen, otherwise today's row (or the first) in the first column
+  const tabCell = focusedCell && gridHabits.some(h => h.id === focusedCell.habitId) && dayKeys.includes(focusedCell.date)
+    ? focusedCell
+    : gridHabits[0] && { habitId: gridHabits[0].id, date: dayKeys.find(d => d === getTodayKey()) ?? dayKeys[0] };
+
+  const focusCell = (col: number, row: number) => {
+    const habit = gridHabits[Math.max(0, Math.min(gridHabits.length - 1, col))];
+    const date = dayKeys[Math.max(0, Math.min(dayKeys.length - 1, row))];
+    gridRef.current?.querySelector<HTMLElement>(`[data-cell="${CSS.escape(`${habit.id}|${date}`)}"]`)?.focus();
+  };
+
+  // Arrows move between cells, Enter opens the day, D / F mark it done or failed and C clears it
+  const handleCellKeyDown = (e: React.KeyboardEvent, habit: Habit, date: string) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const col = gridHabits.findIndex(h => h.id === habit.id);
+    const row = dayKeys.indexOf(date);
+    const actions: Record<string, () => void> = {
+      ArrowUp: () => focusCell(col, row - 1),
+      ArrowDown: () => focusCell(col, row + 1),
+      ArrowLeft: () => focusCell(col - 1, row),
+      ArrowRight: () => focusCell(col + 1, row),
+      Home: () => focusCell(0, row),
+      End: () => focusCell(gridHabits.length - 1, row),
+      Enter: () => openEntry(habit.id, date),
+      ' ': () => openEntry(habit.id, date),
+      d: () => markEntry(habit, date, 'done'),
+      f: () => markEntry(habit, date, 'failed'),
+      c: () => clearEntry(habit, date),
+      Delete: () => clearEntry(habit, date),
+      Backspace: () => clearEntry(habit, date),
+    };
+    const action = actions[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+    if (!action) return;
+    e.preventDefault();
+    action();
+  };
 
   const handleAddHabit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
     const name = formData.get('name') as string;
-    const targetTime = parseInt(formData.get('targetTime') as string);
+    const measure = parseMeasureForm(formData);
+    const schedule = parseScheduleForm(formData);
+    const freezeDaysPerMonth = parseInt(formData.get('freezeDaysPerMonth') as string) || 0;
+    const successRule = formData.get('successRule') as SuccessRule;
+    const group = (formData.get('group') as string).trim();
+    const tags = parseTags(formData.get('tags') as string);
+    const program = parseProgramForm(formData);
+    const color = parseColorForm(formData);
 
-    if (name && targetTime) {
+    if (name && measure) {
       const newHabit: Habit = {
         id: Math.random().toString(36).substr(2, 9),
         name,
-        targetTime,
+        ...measure,
+        ...(program ? { program } : {}),
+        ...(color ? { color } : {}),
+        ...(schedule ? { schedule } : {}),
+        ...(freezeDaysPerMonth ? { freezeDaysPerMonth } : {}),
+        successRule,
+        ...(group ? { group } : {}),
+        ...(tags.length ? { tags } : {}),
+        createdAt: getTodayKey(),
       };
       setHabits([...habits, newHabit]);
+      persist(api.createHabit(newHabit).then(created => {
+        if (created && created.id !== newHabit.id) setHabits((prev: Habit[]) => prev.map(h => h.id === newHabit.id ? created : h));
+      }));
+      record({ label: `Added ${name}`, undo: () => trashHabit(newHabit), redo: () => untrashHabit(newHabit.id) });
       setIsAddingHabit(false);
     }
   };
 
+  // Milestones reached by the latest changes go on record for good. Only the new
+  // achievements are sent, so the rest of a habit edited elsewhere isn't overwritten.
+  useEffect(() => {
+    if (!hasSynced) return;
+    for (const habit of habits) {
+      if (isArchived(habit)) continue;
+      const { habit: updated, reached } = recordAchievements(habit, entries);
+      if (reached.length === 0) continue;
+      setHabits((prev: Habit[]) => prev.map(h => h.id === habit.id ? addAchievements(h, reached) : h));
+      persist(api.recordAchievements(updated, reached));
+      setCelebrations((prev: Celebration[]) => [...prev, ...reached.map(achievement => ({ habit: updated, achievement }))]);
+    }
+  }, [habits, entries, hasSynced]);
+
+  // Undo can run long after the change, when the habit may have reached milestones since
+  const latestHabits = useRef<Habit[]>(habits);
+  useEffect(() => {
+    latestHabits.current = habits;
+  }, [habits]);
+
+  // Writes an earlier copy of a habit back without taking away what it achieved meanwhile
+  const restoreHabit = (habit: Habit) => {
+    const current = latestHabits.current.find(h => h.id === habit.id);
+    writeHabit(addAchievements(habit, current?.achievements ?? []));
+  };
+
+  const saveHabit = (updated: Habit, label: string) => {
+    const previous = habits.find(h => h.id === updated.id);
+    if (!previous) return;
+    writeHabit(updated);
+    record({ label, undo: () => restoreHabit(previous), redo: () => restoreHabit(updated) });
+  };
+
   const handleUpdateHabit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!editingHabit) return;
     const formData = new FormData(e.currentTarget);
     const name = formData.get('name') as string;
-    const targetTime = parseInt(formData.get('targetTime') as string);
+    const measure = parseMeasureForm(formData);
+    const schedule = parseScheduleForm(formData);
+    const freezeDaysPerMonth = parseInt(formData.get('freezeDaysPerMonth') as string) || 0;
+    const successRule = formData.get('successRule') as SuccessRule;
+    const group = (formData.get('group') as string).trim() || undefined;
+    const tags = parseTags(formData.get('tags') as string);
+    const color = parseColorForm(formData);
 
-    if (name && targetTime) {
-      setHabits(habits.map(h => h.id === editingHabit.id ? { ...h, name, targetTime } : h));
+    if (name && measure) {
+      // Clear the old measure fields first, the form only returns the ones that differ from the defaults
+      const updated = { ...editingHabit, name, measure: undefined, unit: undefined, direction: undefined, ...measure, targetTime: editingHabit.targetTime, color, schedule, freezeDaysPerMonth, successRule, group, tags };
+      // A changed goal is versioned so earlier days are still judged by the old one
+      const targetFrom = formData.get('targetFrom') as string;
+      saveHabit(withEditedGoal(updated, measure.targetTime, targetFrom, parseProgramForm(formData), getTodayKey()), `Edited ${name}`);
       setEditingHabit(null);
     }
   };
 
+  const handleArchiveHabit = (habit: Habit) => {
+    saveHabit({ ...habit, archivedAt: getTodayKey() }, `Archived ${habit.name}`);
+    setEditingHabit(null);
+  };
+
+  // A goal suggested by the weekly insights, taking effect today like an edit would
+  const handleApplyInsightTarget = (habit: Habit, targetTime: number) => {
+    saveHabit(withTargetChange(habit, targetTime, getTodayKey()), `Goal for ${habit.name} set to ${formatAmount(habit, targetTime)}`);
+  };
+
+  const handleRestoreHabit = (habit: Habit) => {
+    saveHabit({ ...habit, archivedAt: undefined }, `Unarchived ${habit.name}`);
+  };
+
+  // Columns only move within their group, the drop target decides the new slot
+  const handleReorderHabit = (draggedId: string, targetId: string) => {
+    const reordered = moveHabit(habits, draggedId, targetId);
+    if (reordered === habits) return;
+    const before = habits.map(h => h.id);
+    const after = reordered.map(h => h.id);
+    writeOrder(after);
+    record({ label: 'Moved column', undo: () => writeOrder(before), redo: () => writeOrder(after) });
+  };
+
+  // The column next to a habit's in its group, for moving columns without dragging
+  const neighbourColumn = (habit: Habit, step: -1 | 1): Habit | undefined => {
+    const siblings = habitGroups.find(group => group.habits.some(h => h.id === habit.id))?.habits ?? [];
+    return siblings[siblings.findIndex(h => h.id === habit.id) + step];
+  };
+
+  const handleMoveColumn = (habit: Habit, step: -1 | 1) => {
+    const neighbour = neighbourColumn(habit, step);
+    if (neighbour) handleReorderHabit(habit.id, neighbour.id);
+  };
+
   const handleDeleteHabit = (id: string) => {
-    if (window.confirm('Are you sure you want to delete this habit and all its logged data?')) {
-      setHabits(habits.filter(h => h.id !== id));
-      setEntries(entries.filter(e => e.habitId !== id));
+    const habit = habits.find(h => h.id === id);
+    if (!habit) return;
+    if (window.confirm(`Move this habit and its logged data to the trash? It can be restored for ${TRASH_RETENTION_DAYS} days.`)) {
+      trashHabit(habit);
+      record({ label: `Deleted ${habit.name}`, undo: () => untrashHabit(id), redo: () => trashHabit(habit) });
       setEditingHabit(null);
+      setSelectedHabitForStats(null);
     }
   };
 
-  const updateEntry = (habitId: string, date: string, status: HabitStatus, timeSpent: number, notes?: string) => {
-    setEntries(prev => {
-      const filtered = prev.filter(e => !(e.habitId === habitId && e.date === date));
-      return [...filtered, { habitId, date, status, timeSpent, notes }];
+  const handleSetReminder = (habit: Habit, reminderTime: string | undefined) => {
+    const { reminderTime: _, ...rest } = habit;
+    saveHabit(reminderTime ? { ...rest, reminderTime } : rest, `Reminder for ${habit.name} ${reminderTime ? `at ${reminderTime}` : 'off'}`);
+  };
+
+  const handleUntrashHabit = (habit: Habit) => {
+    untrashHabit(habit.id);
+    record({ label: `Restored ${habit.name}`, undo: () => trashHabit(habit), redo: () => untrashHabit(habit.id) });
+  };
+
+  // Several days saved together are undone together
+  const saveEntries = (updated: HabitEntry[], label: string) => {
+    const previous = updated.map(entry => getEntry(entry.habitId, entry.date));
+    updated.forEach(writeEntry);
+    record({
+      label,
+      undo: () => updated.forEach((entry, i) => previous[i] ? writeEntry(previous[i]!) : removeEntry(entry.habitId, entry.date)),
+      redo: () => updated.forEach(writeEntry),
     });
-    setEditingEntry(null);
   };
 
-  const getEntry = (habitId: string, date: string) => {
-    return entries.find(e => e.habitId === habitId && e.date === date);
+  const saveEntry = (entry: HabitEntry) => {
+    const habit = habits.find(h => h.id === entry.habitId);
+    if (!habit) return;
+    saveEntries([entry], describeEntrySave(habit, entry));
+  };
+
+  // Keyboard marks on the focused cell; a fresh day marked done gets the day's target like the editor would fill in
+  const markEntry = (habit: Habit, date: string, status: 'done' | 'failed') => {
+    const existing = getEntry(habit.id, date);
+    const base = existing ?? { habitId: habit.id, date, status, timeSpent: 0 };
+    saveEntry(!existing && status === 'done' && !isLimitHabit(habit)
+      ? withSessions({ ...base, status }, [{ id: newSessionId(), duration: getTargetOn(habit, date) }])
+      : { ...base, status });
+  };
+
+  const clearEntry = (habit: Habit, date: string) => {
+    const previous = getEntry(habit.id, date);
+    if (!previous) return;
+    removeEntry(habit.id, date);
+    record({
+      label: `${habit.name}, ${format(parseISO(date), 'MMM dd')}: cleared`,
+      undo: () => writeEntry(previous),
+      redo: () => removeEntry(habit.id, date),
+    });
+  };
+
+  const handleQuickLog = (updated: HabitEntry[]) => {
+    if (updated.length === 1) {
+      saveEntry(updated[0]);
+    } else if (updated.length > 1) {
+      saveEntries(updated, `Logged ${updated.length} days`);
+    }
+  };
+
+  // Ctrl+K (Cmd+K) opens quick logging from anywhere
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsCommandBarOpen(true);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // A stopped timer adds a session to the day and completes it once a target (not a limit) is reached
+  const logTimedSession = (habitId: string, date: string, minutes: number, startedAt: Date) => {
+    const habit = habits.find(h => h.id === habitId);
+    if (!habit) return;
+    const existing = getEntry(habitId, date);
+    const session = { id: newSessionId(), startTime: format(startedAt, 'HH:mm'), duration: minutes };
+    const updated = withSessions(
+      existing ?? { habitId, date, status: 'none', timeSpent: 0 },
+      [...getSessions(existing), session]
+    );
+    const reached = !isLimitHabit(habit) && meetsTarget(habit, updated.timeSpent, date);
+    saveEntry({ ...updated, status: reached ? 'done' : updated.status });
   };
 
+  const reminders = useReminders(habits, entries);
+
+  const { timers, now, start: startTimer, pause: pauseTimer, stop: stopTimer } = useSessionTimers(logTimedSession);
+
+  // Show the running timer in the browser tab
+  useEffect(() => {
+    const running = Object.values<SessionTimer>(timers).find(t => t.startedAt !== null);
+    const habit = running && habits.find(h => h.id === running.habitId);
+    document.title = running && habit
+      ? `${formatDuration(getElapsedMs(running, now))} ${habit.name} // HabitGrid`
+      : 'HabitGrid';
+  }, [timers, now, habits]);
+
+  // Shows right away; an account keeps it too, for its other devices
+  const handleThemeChange = (preference: ThemePreference) => {
+    theme.updatePreference(preference);
+    if (user) api.setTheme(preference).then(setUser, err => setSyncError(`Could not save the theme: ${err.message}`));
+  };
+
+  // Signing in or out swaps in another account's data, which the undo history can't reach
+  const handleUserChange = (next: User | null) => {
+    setUser(next);
+    setHasSynced(false);
+    setHabits([]);
+    setEntries([]);
+    setDeletedHabits([]);
+    resetHistory();
+    sync().then(() => api.listDeletedHabits().then(setDeletedHabits)).catch(err => setSyncError(`Could not sync: ${err.message}`));
+  };
+
+  // Imports go to the server first so the grid only ever shows what was stored
+  const handleImport = async (incoming: AppState, mode: ImportMode) => {
+    const state = await api.importState(incoming, mode);
+    setHabits(state.habits);
+    setEntries(state.entries);
+    resetHistory();
+  };
+
+  const entryIndex = useMemo(() => {
+    return new Map(entries.map(e => [`${e.habitId}|${e.date}`, e]));
+  }, [entries]);
+
+  const getEntry = (habitId: string, date: string): HabitEntry | undefined => {
+    return entryIndex.get(`${habitId}|${date}`);
+  };
+
+  const openEntry = (habitId: string, date: string) => setEditingEntry({ habitId, date });
+
+  const editingEntryHabit = editingEntry && habits.find(h => h.id === editingEntry.habitId);
+  const draggedHabit = draggedHabitId ? habits.find(h => h.id === draggedHabitId) : undefined;
+
   return (
     <div className="min-h-screen p-4 md:p-8 max-w-7xl mx-auto">
       <header className="mb-8 md:mb-12 flex flex-col md:flex-row justify-between items-start md:items-end gap-6">
         <div>
           <h1 className="text-4xl md:text-5xl font-serif italic uppercase tracking-tighter leading-none">HabitGrid</h1>
           <div className="flex items-center gap-4 mt-4">
-            <div className="flex items-center border border-[#141414] bg-white/50">
+            <div className="flex items-center border border-ink bg-surface/50">
               <button 
-                onClick={() => setViewDate(prev => subMonths(prev, 1))}
-                className="p-2 hover:bg-[#141414] hover:text-[#E4E3E0] transition-all border-r border-[#141414]"
-                aria-label="Previous Month"
+                onClick={() => setViewDate(prev => stepViewDate(prev, viewMode, -1))}
+                className="p-2 hover:bg-ink hover:text-paper transition-all border-r border-ink"
+                aria-label={`Previous ${viewMode}`}
               >
                 <ChevronLeft size={16} />
               </button>
               <div className="px-4 py-1 font-serif italic uppercase text-sm min-w-[140px] text-center">
-                {format(viewDate, 'MMMM yyyy')}
+                {viewLabel}
               </div>
               <button 
-                onClick={() => setViewDate(prev => addMonths(prev, 1))}
-                className="p-2 hover:bg-[#141414] hover:text-[#E4E3E0] transition-all border-l border-[#141414]"
-                aria-label="Next Month"
+                onClick={() => setViewDate(prev => stepViewDate(prev, viewMode, 1))}
+                className="p-2 hover:bg-ink hover:text-paper transition-all border-l border-ink"
+                aria-label={`Next ${viewMode}`}
               >
                 <ChevronRight size={16} />
               </button>
             </div>
             <button 
               onClick={() => {
-                const today = new Date();
-                if (!isSameMonth(viewDate, today)) {
-                  setViewDate(startOfMonth(today));
-                } else {
+                const today = getToday();
+                if (viewMode === 'month' && isSameMonth(viewDate, today)) {
                   scrollToToday();
+                } else {
+                  setViewDate(today);
                 }
               }}
-              className="flex items-center gap-2 border border-[#141414] px-3 py-1.5 hover:bg-[#141414] hover:text-[#E4E3E0] transition-all font-mono text-[10px] uppercase"
+              className="flex items-center gap-2 border border-ink px-3 py-1.5 hover:bg-ink hover:text-paper transition-all font-mono text-[10px] uppercase"
             >
               <Calendar size={12} /> Today
             </button>
+            <div className="flex border border-ink" role="group" aria-label="View">
+              {VIEW_MODES.map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setViewMode(mode)}
+                  aria-pressed={viewMode === mode}
+                  className={cn(
+                    "px-3 py-1.5 font-mono text-[10px] uppercase border-r last:border-r-0 border-ink transition-all",
+                    viewMode === mode ? "bg-ink text-paper" : "hover:bg-ink/10"
+                  )}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
           </div>
         </div>
-        <button 
-          onClick={() => setIsAddingHabit(true)}
-          className="w-full md:w-auto flex items-center justify-center gap-2 border border-[#141414] px-6 py-3 md:px-4 md:py-2 hover:bg-[#141414] hover:text-[#E4E3E0] transition-all font-mono text-xs uppercase active:scale-95"
-        >
-          <Plus size={14} /> Add Habit
-        </button>
+        <div className="w-full md:w-auto flex gap-2">
+          <button 
+            onClick={() => setIsDashboardOpen(true)}
+            className="flex items-center justify-center gap-2 border border-ink px-4 py-3 md:py-2 hover:bg-ink hover:text-paper transition-all font-mono text-xs uppercase active:scale-95"
+            aria-label="Dashboard"
+          >
+            <LayoutDashboard size={14} /> <span className="hidden sm:inline">Dashboard</span>
+          </button>
+          <button 
+            onClick={() => setIsJournalOpen(true)}
+            className="flex items-center justify-center gap-2 border border-ink px-4 py-3 md:py-2 hover:bg-ink hover:text-paper transition-all font-mono text-xs uppercase active:scale-95"
+            aria-label="Journal"
+          >
+            <BookOpen size={14} />
+          </button>
+          <button 
+            onClick={() => setIsTransferringData(true)}
+            className="flex items-center justify-center gap-2 border border-ink px-4 py-3 md:py-2 hover:bg-ink hover:text-paper transition-all font-mono text-xs uppercase active:scale-95"
+            aria-label="Import / Export"
+          >
+            <ArrowDownUp size={14} /> Data
+          </button>
+          <button 
+            onClick={() => setIsRemindersOpen(true)}
+            className={cn(
+              "flex items-center justify-center gap-2 border border-ink px-4 py-3 md:py-2 hover:bg-ink hover:text-paper transition-all font-mono text-xs uppercase active:scale-95",
+              reminders.settings.enabled && reminders.permission === 'granted' && "bg-ink text-paper"
+            )}
+            aria-label="Reminders"
+          >
+            <Bell size={14} />
+          </button>
+          <button 
+            onClick={() => setIsDaySettingsOpen(true)}
+            className="flex items-center justify-center gap-2 border border-ink px-4 py-3 md:py-2 hover:bg-ink hover:text-paper transition-all font-mono text-xs uppercase active:scale-95"
+            aria-label="Day Start and Time Zone"
+          >
+            <Sunrise size={14} />
+          </button>
+          <button 
+            onClick={() => setIsThemeOpen(true)}
+            className="flex items-center justify-center gap-2 border border-ink px-4 py-3 md:py-2 hover:bg-ink hover:text-paper transition-all font-mono text-xs uppercase active:scale-95"
+            aria-label="Theme"
+          >
+            <SunMoon size={14} />
+          </button>
+          <button 
+            onClick={() => setIsCommandBarOpen(true)}
+            className="flex items-center justify-center gap-2 border border-ink px-4 py-3 md:py-2 hover:bg-ink hover:text-paper transition-all font-mono text-xs uppercase active:scale-95"
+            aria-label="Quick Log (Ctrl+K)"
+            title="Quick Log (Ctrl+K)"
+          >
+            <Command size={14} />
+          </button>
+          <button 
+            onClick={() => setIsInsightsOpen(true)}
+            className="flex items-center justify-center gap-2 border border-ink px-4 py-3 md:py-2 hover:bg-ink hover:text-paper transition-all font-mono text-xs uppercase active:scale-95"
+            aria-label="Weekly Insights"
+          >
+            <Sparkles size={14} />
+          </button>
+          <button 
+            onClick={() => setIsTeamsOpen(true)}
+            className="flex items-center justify-center gap-2 border border-ink px-4 py-3 md:py-2 hover:bg-ink hover:text-paper transition-all font-mono text-xs uppercase active:scale-95"
+            aria-label={user ? `Teams (signed in as ${user.name})` : 'Sign in and teams'}
+          >
+            <Users size={14} /> {user && <span className="hidden sm:inline max-w-24 truncate">{user.name}</span>}
+          </button>
+          <button 
+            onClick={() => setIsActivityOpen(true)}
+            className="flex items-center justify-center gap-2 border border-ink px-4 py-3 md:py-2 hover:bg-ink hover:text-paper transition-all font-mono text-xs uppercase active:scale-95"
+            aria-label="Activity Log"
+          >
+            <History size={14} />
+          </button>
+          {(archivedHabits.length > 0 || deletedHabits.length > 0) && (
+            <button 
+              onClick={() => setIsArchiveOpen(true)}
+              className="flex items-center justify-center gap-2 border border-ink px-4 py-3 md:py-2 hover:bg-ink hover:text-paper transition-all font-mono text-xs uppercase active:scale-95"
+              aria-label="Archived and Deleted Habits"
+            >
+              <Archive size={14} /> <span className="hidden sm:inline">{archivedHabits.length + deletedHabits.length}</span>
+            </button>
+          )}
+          <button 
+            onClick={() => setIsAddingHabit(true)}
+            className="flex-1 md:flex-none flex items-center justify-center gap-2 border border-ink px-6 py-3 md:px-4 md:py-2 hover:bg-ink hover:text-paper transition-all font-mono text-xs uppercase active:scale-95"
+          >
+            <Plus size={14} /> Add Habit
+          </button>
+        </div>
       </header>
 
-      <div className="overflow-auto border border-[#141414] bg-white/30 backdrop-blur-sm shadow-xl max-h-[70vh]">
-        <table className="w-full border-collapse text-left">
-          <thead className="sticky top-0 z-30 bg-[#E4E3E0]">
-            <tr className="border-b border-[#141414]">
-              <th className="p-4 border-r border-[#141414] bg-[#E4E3E0] sticky left-0 top-0 z-40 w-24 md:w-40">
-                <span className="data-grid-header">Timeline</span>
-              </th>
-              {habits.map(habit => (
-                <th key={habit.id} className="p-4 min-w-[140px] md:min-w-[160px] group relative bg-[#E4E3E0]">
-                  <div className="flex justify-between items-start gap-2">
-                    <div className="flex-1">
-                      <span className="data-grid-header block mb-1">Habit</span>
-                      <span className="font-serif italic text-base md:text-lg uppercase leading-tight block truncate max-w-[100px] md:max-w-none">{habit.name}</span>
-                      <span className="font-mono text-[9px] opacity-40 uppercase">Goal: {habit.targetTime}m</span>
-                    </div>
-                    <div className="flex flex-col gap-1">
-                      <button 
-                        onClick={() => setSelectedHabitForStats(habit)}
-                        className="p-2 border border-[#141414]/10 hover:bg-[#141414] hover:text-[#E4E3E0] transition-all rounded-sm active:scale-90"
-                        aria-label="View Stats"
-                      >
-                        <BarChart2 size={16} />
-                      </button>
-                      <button 
-                        onClick={() => setEditingHabit(habit)}
-                        className="p-2 border border-[#141414]/10 hover:bg-[#141414] hover:text-[#E4E3E0] transition-all rounded-sm active:scale-90"
-                        aria-label="Edit Habit"
-                      >
-                        <Settings2 size={16} />
-                      </button>
-                    </div>
-                  </div>
-                </th>
-              ))}
-            </tr>
-          </thead>
-          <tbody>
-            {days.map(day => {
-              const dateStr = format(day, 'yyyy-MM-dd');
-              const isCurrentDay = isToday(day);
-              
-              return (
-                <tr 
-                  key={dateStr} 
-                  ref={isCurrentDay ? todayRef : null}
-                  className={cn(
-                    "border-b border-[#141414]/10 hover:bg-[#141414]/5 transition-colors",
-                    isCurrentDay && "bg-emerald-500/5"
-                  )}
-                >
-                  <td className="p-4 border-r border-[#141414] bg-[#E4E3E0] sticky left-0 z-10">
-                    <div className="flex flex-col">
-                      <span className="font-mono text-xs font-bold">{format(day, 'dd')}</span>
-                      <span className="font-serif italic text-[10px] uppercase opacity-50">{format(day, 'MMM yyyy')}</span>
-                    </div>
-                  </td>
-                  {habits.map(habit => {
-                    const entry = getEntry(habit.id, dateStr);
-                    const isPastDay = isBefore(day, startOfToday());
-                    const isAutoFailed = isPastDay && !entry;
+      {(!isOnline || pendingWrites > 0) && (
+        <div className="mb-4 flex items-center gap-2 border border-warn bg-warn/10 px-4 py-2 font-mono text-[10px] uppercase text-warn">
+          <CloudOff size={12} />
+          <span>
+            {isOnline ? 'Server unreachable' : 'Offline'}
+            {pendingWrites > 0 ? ` // ${pendingWrites} ${pendingWrites === 1 ? 'change' : 'changes'} saved on this device, sent when you reconnect` : ' // changes are saved on this device'}
+          </span>
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="mb-4 flex justify-between items-center gap-4 border border-fail bg-fail/10 px-4 py-2 font-mono text-[10px] uppercase text-fail">
+          <span>{conflicts.length} {conflicts.length === 1 ? 'day was' : 'days were'} changed here and on another device</span>
+          <button onClick={() => setIsConflictsOpen(true)} className="underline underline-offset-2 hover:opacity-70">
+            Resolve
+          </button>
+        </div>
+      )}
+
+      {syncError && (
+        <div className="mb-4 flex justify-between items-center gap-4 border border-fail bg-fail/10 px-4 py-2 font-mono text-[10px] uppercase text-fail">
+          <span>{syncError}</span>
+          <button onClick={() => setSyncError(null)} aria-label="Dismiss">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
+      {allTags.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-2">
+          <Tag size={12} className="opacity-50" />
+          {[null, ...allTags].map(tag => (
+            <button
+              key={tag ?? 'all'}
+              onClick={() => setTagFilter(tag)}
+              aria-pressed={tagFilter === tag}
+              className={cn(
+                "px-2 py-1 border border-ink font-mono text-[10px] uppercase transition-all",
+                tagFilter === tag ? "bg-ink text-paper" : "hover:bg-ink/10"
+              )}
+            >
+              {tag ?? 'All'}
+            </button>
+          ))}
+        </div>
+      )}
 
+      {viewMode === 'week' && (
+        <div className="border border-ink bg-surface/30 backdrop-blur-sm shadow-xl">
+          <WeekView habits={visibleHabits} days={days} entries={entries} getEntry={getEntry} onSelectDay={openEntry} />
+        </div>
+      )}
+
+      {viewMode === 'year' && (
+        <div className="border border-ink bg-surface/30 backdrop-blur-sm shadow-xl p-4 md:p-6">
+          <YearHeatmap habits={visibleHabits} endDate={viewDate} getEntry={getEntry} onSelectDay={openEntry} />
+        </div>
+      )}
+
+      {viewMode === 'month' && (
+        <div className="overflow-auto border border-ink bg-surface/30 backdrop-blur-sm shadow-xl max-h-[70vh]">
+          <table ref={gridRef} role="grid" aria-label="Habit grid" aria-describedby="grid-keys" className="w-full border-collapse text-left">
+            <thead className="sticky top-0 z-30 bg-paper">
+              {hasGroups && (
+                <tr className="border-b border-ink/20">
+                  <th rowSpan={2} className="p-4 border-r border-b border-ink bg-paper sticky left-0 top-0 z-40 w-24 md:w-40">
+                    <span className="data-grid-header">Timeline</span>
+                  </th>
+                  {habitGroups.map(group => {
+                    const isCollapsed = group.name !== null && collapsedGroups.has(group.name);
                     return (
-                      <td 
-                        key={`${habit.id}-${dateStr}`} 
-                        className="p-0 data-grid-cell relative group cursor-pointer"
-                        onClick={() => setEditingEntry({ habitId: habit.id, date: dateStr })}
+                      <th
+                        key={group.name ?? 'ungrouped'}
+                        colSpan={isCollapsed ? 1 : group.habits.length}
+                        className="px-4 py-2 bg-paper border-r last:border-r-0 border-ink/20"
                       >
-                        <div className={cn(
-                          "w-full h-20 md:h-16 transition-all duration-300 flex items-center justify-center relative",
-                          entry?.status === 'done' ? "bg-emerald-500/20" : 
-                          (entry?.status === 'failed' || isAutoFailed) ? "bg-rose-500/20" : 
-                          "bg-transparent active:bg-[#141414]/10"
-                        )}>
-                          {entry?.notes && (
-                            <div className="absolute top-1 right-1 opacity-40">
-                              <FileText size={10} />
+                        {group.name !== null && (
+                          <button
+                            onClick={() => toggleGroup(group.name!)}
+                            aria-expanded={!isCollapsed}
+                            className="flex items-center gap-1 font-mono text-[10px] uppercase opacity-60 hover:opacity-100 transition-opacity"
+                          >
+                            {isCollapsed ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+                            {group.name}
+                          </button>
+                        )}
+                      </th>
+                    );
+                  })}
+                </tr>
+              )}
+              <tr className="border-b border-ink">
+                {!hasGroups && (
+                  <th className="p-4 border-r border-ink bg-paper sticky left-0 top-0 z-40 w-24 md:w-40">
+                    <span className="data-grid-header">Timeline</span>
+                  </th>
+                )}
+                {gridColumns.map(column => {
+                  if (column.kind === 'group') {
+                    return (
+                      <th key={`group-${column.group.name}`} className="p-4 min-w-[90px] bg-paper align-top">
+                        <span className="data-grid-header block mb-1">Group</span>
+                        <span className="font-serif italic text-base uppercase leading-tight block">{column.group.name}</span>
+                        <span className="font-mono text-[9px] opacity-40 uppercase block">{column.group.habits.length} habits</span>
+                      </th>
+                    );
+                  }
+                  const { habit } = column;
+                  return (
+                      <th
+                      key={habit.id}
+                      draggable
+                      onDragStart={e => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDraggedHabitId(habit.id);
+                      }}
+                      onDragOver={e => {
+                        if (draggedHabit && draggedHabit.id !== habit.id && draggedHabit.group === habit.group) e.preventDefault();
+                      }}
+                      onDrop={e => {
+                        e.preventDefault();
+                        if (draggedHabitId) handleReorderHabit(draggedHabitId, habit.id);
+                        setDraggedHabitId(null);
+                      }}
+                      onDragEnd={() => setDraggedHabitId(null)}
+                      className={cn(
+                        "p-4 min-w-[140px] md:min-w-[160px] group relative bg-paper cursor-grab",
+                        draggedHabitId === habit.id && "opacity-40"
+                      )}
+                      style={habit.color ? { boxShadow: `inset 0 4px 0 ${habit.color}` } : undefined}
+                    >
+                        <div className="flex justify-between items-start gap-2">
+                          <div className="flex-1">
+                            <div className="flex items-center gap-1 mb-1">
+                              <span className="data-grid-header flex items-center gap-1">
+                                <GripVertical size={10} className="opacity-30" aria-hidden /> Habit
+                              </span>
+                              {([-1, 1] as const).map(step => (
+                                <button
+                                  key={step}
+                                  onClick={() => handleMoveColumn(habit, step)}
+                                  disabled={!neighbourColumn(habit, step)}
+                                  className="p-0.5 opacity-40 hover:opacity-100 focus-visible:opacity-100 hover:bg-ink hover:text-paper transition-all disabled:invisible"
+                                  aria-label={`Move ${habit.name} ${step < 0 ? 'left' : 'right'}`}
+                                  title={step < 0 ? 'Move left' : 'Move right'}
+                                >
+                                  {step < 0 ? <ChevronLeft size={10} /> : <ChevronRight size={10} />}
+                                </button>
+                              ))}
                             </div>
-                          )}
-                          {(entry || isAutoFailed) && (
-                            <div className="text-center">
-                              <div className={cn(
-                                "font-mono text-[10px] md:text-xs font-bold",
-                                entry?.status === 'done' ? "text-emerald-700" : "text-rose-700"
-                              )}>
-                                {entry ? `${entry.timeSpent}/${habit.targetTime}m` : `0/${habit.targetTime}m`}
+                            <span className="font-serif italic text-base md:text-lg uppercase leading-tight block truncate max-w-[100px] md:max-w-none">{habit.name}</span>
+                            <span className="font-mono text-[9px] opacity-40 uppercase block">{formatGoal(habit)} · {describeSchedule(habit.schedule)}</span>
+                            {nextMilestones.get(habit.id) && (
+                              <div
+                                className="mt-1 max-w-[100px] md:max-w-[160px]"
+                                title={`${describeMilestone(habit, nextMilestones.get(habit.id)!.milestone)}: ${formatMilestoneCount(habit, nextMilestones.get(habit.id)!)}`}
+                              >
+                                <MilestoneBar progress={nextMilestones.get(habit.id)!} />
                               </div>
-                              <div className="text-[8px] uppercase opacity-40 font-mono">
-                                {entry ? Math.round((entry.timeSpent / habit.targetTime) * 100) : 0}%
+                            )}
+                            {habit.tags?.length ? (
+                              <span className="font-mono text-[9px] opacity-40 block truncate max-w-[100px] md:max-w-[160px]">#{habit.tags.join(' #')}</span>
+                            ) : null}
+                            {!isTimeHabit(habit) ? null : timers[habit.id] ? (
+                              <div className="flex items-center gap-1 mt-1">
+                                <span className={cn(
+                                  "font-mono text-xs tabular-nums",
+                                  timers[habit.id].startedAt !== null ? "text-done animate-pulse" : "opacity-50"
+                                )}>
+                                  {formatDuration(getElapsedMs(timers[habit.id], now))}
+                                </span>
+                                <button
+                                  onClick={() => timers[habit.id].startedAt !== null ? pauseTimer(habit.id) : startTimer(habit.id)}
+                                  className="p-1 hover:bg-ink hover:text-paper transition-all"
+                                  aria-label={timers[habit.id].startedAt !== null ? "Pause Timer" : "Resume Timer"}
+                                >
+                                  {timers[habit.id].startedAt !== null ? <Pause size={10} /> : <Play size={10} />}
+                                </button>
+                                <button
+                                  onClick={() => stopTimer(habit.id)}
+                                  className="p-1 hover:bg-ink hover:text-paper transition-all"
+                                  aria-label="Stop Timer and Log Time"
+                                >
+                                  <Square size={10} />
+                                </button>
                               </div>
-                            </div>
-                          )}
-                          {!entry && (
-                            <div className="opacity-0 group-hover:opacity-100 transition-opacity">
-                              <Plus size={14} className="text-[#141414]/30" />
-                            </div>
-                          )}
+                            ) : (
+                              <button
+                                onClick={() => startTimer(habit.id)}
+                                className="flex items-center gap-1 mt-1 font-mono text-[9px] uppercase opacity-40 hover:opacity-100 transition-opacity"
+                                aria-label="Start Timer"
+                              >
+                                <Play size={10} /> Start
+                              </button>
+                            )}
+                            <span
+                              className="inline-flex items-center gap-1 mt-1 px-1.5 py-0.5 border border-ink/20 font-mono text-[9px] uppercase"
+                              title={`Longest streak: ${streaks.get(habit.id)?.longest ?? 0} days`}
+                            >
+                              <Flame size={10} className={streaks.get(habit.id)?.current ? "text-warn" : "opacity-30"} />
+                              {streaks.get(habit.id)?.current ?? 0}d
+                            </span>
+                          </div>
+                          <div className="flex flex-col gap-1">
+                            <button 
+                              onClick={() => setSelectedHabitForStats(habit)}
+                              className="p-2 border border-ink/10 hover:bg-ink hover:text-paper transition-all rounded-sm active:scale-90"
+                              aria-label="View Stats"
+                            >
+                              <BarChart2 size={16} />
+                            </button>
+                            <button 
+                              onClick={() => setEditingHabit(habit)}
+                              className="p-2 border border-ink/10 hover:bg-ink hover:text-paper transition-all rounded-sm active:scale-90"
+                              aria-label="Edit Habit"
+                            >
+                              <Settings2 size={16} />
+                            </button>
+                          </div>
                         </div>
-                      </td>
-                    );
-                  })}
-                </tr>
-              );
-            })}
-          </tbody>
-        </table>
-      </div>
+                      </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {days.map(day => {
+                const dateStr = toDateKey(day);
+                const isCurrentDay = isToday(day);
+                
+                return (
+                  <tr 
+                    key={dateStr} 
+                    ref={isCurrentDay ? todayRef : null}
+                    className={cn(
+                      "border-b border-ink/10 hover:bg-ink/5 transition-colors",
+                      isCurrentDay && "bg-done/5"
+                    )}
+                  >
+                    <td role="rowheader" aria-label={format(day, 'EEEE, MMMM d')} className="p-4 border-r border-ink bg-paper sticky left-0 z-10">
+                      <div className="flex flex-col">
+                        <span className="font-mono text-xs font-bold">{format(day, 'dd')}</span>
+                        <span className="font-serif italic text-[10px] uppercase opacity-50">{format(day, 'MMM yyyy')}</span>
+                      </div>
+                    </td>
+                    {gridColumns.map(column => {
+                      if (column.kind === 'group') {
+                        const doneCount = column.group.habits.filter(habit =>
+                          getCellState(habit, day, getEntry(habit.id, dateStr), entries) === 'done'
+                        ).length;
+                        return (
+                          <td
+                            key={`group-${column.group.name}-${dateStr}`}
+                            className="p-0 data-grid-cell cursor-pointer"
+                            aria-label={`${column.group.name}, ${format(day, 'MMM d')}, ${doneCount} of ${column.group.habits.length} done`}
+                            onClick={() => toggleGroup(column.group.name!)}
+                          >
+                            <div className={cn(
+                              "w-full h-20 md:h-16 flex items-center justify-center font-mono text-[10px]",
+                              doneCount === column.group.habits.length ? "bg-done/20 text-done" : "opacity-50"
+                            )}>
+                              {doneCount}/{column.group.habits.length}
+                            </div>
+                          </td>
+                        );
+                      }
+                      const { habit } = column;
+                      const entry = getEntry(habit.id, dateStr);
+                      const state = getCellState(habit, day, entry, entries);
+                      const isMissed = state === 'missed';
+                      const isTabCell = tabCell?.habitId === habit.id && tabCell.date === dateStr;
+
+                      return (
+                        <td 
+                          key={`${habit.id}-${dateStr}`} 
+                          data-cell={`${habit.id}|${dateStr}`}
+                          tabIndex={isTabCell ? 0 : -1}
+                          aria-label={describeCell(habit, day, entry, state)}
+                          className="p-0 data-grid-cell relative group cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ink"
+                          onClick={() => openEntry(habit.id, dateStr)}
+                          onFocus={() => setFocusedCell({ habitId: habit.id, date: dateStr })}
+                          onKeyDown={e => handleCellKeyDown(e, habit, dateStr)}
+                        >
+                          <div className={cn(
+                            "w-full h-20 md:h-16 transition-all duration-300 flex items-center justify-center relative",
+                            CELL_BACKGROUNDS[state],
+                            (state === 'open' || state === 'logged') && "active:bg-ink/10"
+                          )} style={getCellStyle(habit, state)}>
+                            {entry?.notes && (
+                              <div className="absolute top-1 right-1 opacity-40">
+                                <FileText size={10} />
+                              </div>
+                            )}
+                            {state !== 'skipped' && (
+                              <div className="absolute bottom-1 left-1 opacity-60">
+                                <CellStatusIcon state={state} />
+                              </div>
+                            )}
+                            {(entry?.sessions?.length ?? 0) > 1 && (
+                              <div className="absolute top-1 left-1 font-mono text-[8px] opacity-40">
+                                x{entry?.sessions?.length}
+                              </div>
+                            )}
+                            {entry?.status === 'skipped' && (
+                              <div className="flex flex-col items-center gap-1 opacity-50">
+                                <Coffee size={12} />
+                                <span className="text-[8px] uppercase font-mono">Rest</span>
+                              </div>
+                            )}
+                            {((entry && entry.status !== 'skipped') || isMissed) && (
+                              <div className="text-center">
+                                <div className={cn(
+                                  "font-mono text-[10px] md:text-xs font-bold",
+                                  state === 'done' || state === 'partial' ? "text-done" : "text-fail"
+                                )}>
+                                  {formatProgress(habit, entry?.timeSpent ?? 0, dateStr)}
+                                </div>
+                                <div className="text-[8px] uppercase opacity-40 font-mono">
+                                  {describeProgress(habit, entry?.timeSpent ?? 0, dateStr)}
+                                </div>
+                              </div>
+                            )}
+                            {!entry && (
+                              <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+                                <Plus size={14} className="text-ink/30" />
+                              </div>
+                            )}
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {viewMode === 'month' && gridHabits.length > 0 && (
+        <p id="grid-keys" className="mt-2 font-mono text-[9px] uppercase opacity-40">
+          Arrows move // Enter opens // D done // F failed // C clears // Ctrl+K quick log
+        </p>
+      )}
 
       {/* Add Habit Modal */}
       {isAddingHabit && (
         <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-          <div className="bg-[#E4E3E0] border border-[#141414] p-8 w-full max-w-md shadow-2xl">
+          <div ref={addDialogRef} role="dialog" aria-modal="true" aria-label="New Habit" tabIndex={-1} className="bg-paper border border-ink p-8 w-full max-w-md max-h-[90vh] overflow-y-auto shadow-2xl focus:outline-none">
             <h2 className="text-2xl font-serif italic uppercase mb-6">New Habit Configuration</h2>
             <form onSubmit={handleAddHabit} className="space-y-6">
               <div>
@@ -281,31 +1143,65 @@ export default function App() {
                   name="name" 
                   required 
                   autoFocus
-                  className="w-full bg-transparent border-b border-[#141414] py-2 font-mono text-lg focus:outline-none focus:border-emerald-500 transition-colors"
+                  className="w-full bg-transparent border-b border-ink py-2 font-mono text-lg focus:outline-none focus:border-done transition-colors"
                   placeholder="E.G. DEEP WORK"
                 />
               </div>
+              <MeasureFields />
+              <ProgramFields />
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Group</label>
+                  <input 
+                    name="group" 
+                    list="habit-groups"
+                    className="w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors"
+                    placeholder="HEALTH"
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Tags (Comma Separated)</label>
+                  <input 
+                    name="tags"
+                    className="w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors"
+                    placeholder="MORNING, OUTDOORS"
+                  />
+                </div>
+              </div>
+              <ColorField />
+              <ScheduleFields />
               <div>
-                <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Target Duration (Minutes)</label>
+                <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Streak Freezes (Days per Month)</label>
                 <input 
-                  name="targetTime" 
+                  name="freezeDaysPerMonth" 
                   type="number" 
-                  required 
-                  className="w-full bg-transparent border-b border-[#141414] py-2 font-mono text-lg focus:outline-none focus:border-emerald-500 transition-colors"
-                  placeholder="30"
+                  min={0}
+                  max={31}
+                  className="w-full bg-transparent border-b border-ink py-2 font-mono text-lg focus:outline-none focus:border-done transition-colors"
+                  placeholder="0"
                 />
               </div>
+              <div>
+                <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">A Day Counts As Done When</label>
+                <select 
+                  name="successRule" 
+                  defaultValue="manual"
+                  className="w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors"
+                >
+                  {SUCCESS_RULES.map(({ rule, label }) => <option key={rule} value={rule}>{label}</option>)}
+                </select>
+              </div>
               <div className="flex gap-4 pt-4">
                 <button 
                   type="submit"
-                  className="flex-1 bg-[#141414] text-[#E4E3E0] py-3 font-mono text-xs uppercase hover:opacity-90 transition-opacity"
+                  className="flex-1 bg-ink text-paper py-3 font-mono text-xs uppercase hover:opacity-90 transition-opacity"
                 >
                   Initialize Habit
                 </button>
                 <button 
                   type="button"
                   onClick={() => setIsAddingHabit(false)}
-                  className="flex-1 border border-[#141414] py-3 font-mono text-xs uppercase hover:bg-[#141414] hover:text-[#E4E3E0] transition-all"
+                  className="flex-1 border border-ink py-3 font-mono text-xs uppercase hover:bg-ink hover:text-paper transition-all"
                 >
                   Cancel
                 </button>
@@ -315,80 +1211,32 @@ export default function App() {
         </div>
       )}
 
-      {/* Entry Edit Modal */}
-      {editingEntry && (
-        <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-          <div className="bg-[#E4E3E0] border border-[#141414] p-8 w-full max-w-md shadow-2xl">
-            <div className="flex justify-between items-start mb-6">
-              <div>
-                <h2 className="text-2xl font-serif italic uppercase">Log Progress</h2>
-                <p className="text-[10px] uppercase font-mono opacity-50 mt-1">
-                  {habits.find(h => h.id === editingEntry.habitId)?.name} // {editingEntry.date}
-                </p>
-              </div>
-              <button onClick={() => setEditingEntry(null)} className="p-3 -mr-2 -mt-2 hover:bg-[#141414] hover:text-[#E4E3E0] transition-colors active:scale-90">
-                <X size={24} />
-              </button>
-            </div>
-
-            <div className="space-y-6">
-              <div>
-                <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Time Spent (Minutes)</label>
-                <input 
-                  type="number"
-                  id="custom-time"
-                  inputMode="numeric"
-                  defaultValue={getEntry(editingEntry.habitId, editingEntry.date)?.timeSpent ?? habits.find(h => h.id === editingEntry.habitId)?.targetTime ?? 0}
-                  className="w-full bg-transparent border-b border-[#141414] py-2 font-mono text-3xl focus:outline-none"
-                />
-              </div>
-
-              <div>
-                <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Journal / Session Notes</label>
-                <textarea 
-                  id="entry-notes"
-                  placeholder="What did you accomplish? Any obstacles?"
-                  defaultValue={getEntry(editingEntry.habitId, editingEntry.date)?.notes || ''}
-                  className="w-full bg-transparent border border-[#141414]/20 p-3 font-mono text-xs focus:outline-none focus:border-[#141414] min-h-[80px] resize-none"
-                />
-              </div>
+      {/* Journal Modal, before the entry editor so an entry opened from it shows on top */}
+      {isJournalOpen && (
+        <Journal habits={habits} entries={entries} onOpenEntry={openEntry} onClose={() => setIsJournalOpen(false)} />
+      )}
 
-              <div className="grid grid-cols-2 gap-4 pt-4">
-                <button 
-                  onClick={() => {
-                    const val = parseInt((document.getElementById('custom-time') as HTMLInputElement).value) || 0;
-                    const notes = (document.getElementById('entry-notes') as HTMLTextAreaElement)?.value;
-                    updateEntry(editingEntry.habitId, editingEntry.date, 'done', val, notes);
-                  }}
-                  className="flex flex-col items-center gap-3 border border-[#141414] p-6 bg-emerald-500/5 hover:bg-emerald-500/10 transition-colors group"
-                >
-                  <Check className="text-emerald-600 group-hover:scale-110 transition-transform" />
-                  <span className="font-mono text-[10px] uppercase">Complete Session</span>
-                </button>
-                <button 
-                  onClick={() => {
-                    const val = parseInt((document.getElementById('custom-time') as HTMLInputElement).value) || 0;
-                    const notes = (document.getElementById('entry-notes') as HTMLTextAreaElement)?.value;
-                    updateEntry(editingEntry.habitId, editingEntry.date, 'failed', val, notes);
-                  }}
-                  className="flex flex-col items-center gap-3 border border-[#141414] p-6 bg-rose-500/5 hover:bg-rose-500/10 transition-colors group"
-                >
-                  <X className="text-rose-600 group-hover:scale-110 transition-transform" />
-                  <span className="font-mono text-[10px] uppercase">Failed Session</span>
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
+      {/* Entry Edit Modal */}
+      {editingEntry && editingEntryHabit && (
+        <EntryEditor
+          habit={editingEntryHabit}
+          date={editingEntry.date}
+          entry={getEntry(editingEntry.habitId, editingEntry.date)}
+          onSave={entry => {
+            saveEntry(entry);
+            setEditingEntry(null);
+          }}
+          onClose={() => setEditingEntry(null)}
+        />
       )}
 
       {/* Edit Habit Modal */}
       {editingHabit && (
         <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-          <div className="bg-[#E4E3E0] border border-[#141414] p-8 w-full max-w-md shadow-2xl">
+          <div ref={editDialogRef} role="dialog" aria-modal="true" aria-label={`Edit ${editingHabit.name}`} tabIndex={-1} className="bg-paper border border-ink p-8 w-full max-w-md max-h-[90vh] overflow-y-auto shadow-2xl focus:outline-none">
             <div className="flex justify-between items-start mb-6">
               <h2 className="text-2xl font-serif italic uppercase">Edit Habit</h2>
-              <button onClick={() => setEditingHabit(null)} className="p-1 hover:bg-[#141414] hover:text-[#E4E3E0] transition-colors">
+              <button onClick={() => setEditingHabit(null)} aria-label="Close" className="p-1 hover:bg-ink hover:text-paper transition-colors">
                 <X size={18} />
               </button>
             </div>
@@ -399,37 +1247,80 @@ export default function App() {
                   name="name" 
                   required 
                   defaultValue={editingHabit.name}
-                  className="w-full bg-transparent border-b border-[#141414] py-2 font-mono text-lg focus:outline-none focus:border-emerald-500 transition-colors"
+                  className="w-full bg-transparent border-b border-ink py-2 font-mono text-lg focus:outline-none focus:border-done transition-colors"
                 />
               </div>
+              <MeasureFields habit={editingHabit} />
+              <ProgramFields habit={editingHabit} />
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Group</label>
+                  <input 
+                    name="group" 
+                    list="habit-groups" 
+                    defaultValue={editingHabit.group}
+                    className="w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors"
+                    placeholder="HEALTH"
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Tags (Comma Separated)</label>
+                  <input 
+                    name="tags" 
+                    defaultValue={editingHabit.tags?.join(', ')}
+                    className="w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors"
+                    placeholder="MORNING, OUTDOORS"
+                  />
+                </div>
+              </div>
+              <ColorField color={editingHabit.color} />
+              <ScheduleFields schedule={editingHabit.schedule} />
               <div>
-                <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Target Duration (Minutes)</label>
+                <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Streak Freezes (Days per Month)</label>
                 <input 
-                  name="targetTime" 
+                  name="freezeDaysPerMonth" 
                   type="number" 
-                  required 
-                  defaultValue={editingHabit.targetTime}
-                  className="w-full bg-transparent border-b border-[#141414] py-2 font-mono text-lg focus:outline-none focus:border-emerald-500 transition-colors"
+                  min={0}
+                  max={31}
+                  defaultValue={editingHabit.freezeDaysPerMonth ?? 0}
+                  className="w-full bg-transparent border-b border-ink py-2 font-mono text-lg focus:outline-none focus:border-done transition-colors"
                 />
               </div>
+              <div>
+                <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">A Day Counts As Done When</label>
+                <select 
+                  name="successRule" 
+                  defaultValue={editingHabit.successRule ?? 'manual'}
+                  className="w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors"
+                >
+                  {SUCCESS_RULES.map(({ rule, label }) => <option key={rule} value={rule}>{label}</option>)}
+                </select>
+              </div>
               <div className="flex flex-col gap-3 pt-4">
                 <button 
                   type="submit"
-                  className="w-full bg-[#141414] text-[#E4E3E0] py-3 font-mono text-xs uppercase hover:opacity-90 transition-opacity"
+                  className="w-full bg-ink text-paper py-3 font-mono text-xs uppercase hover:opacity-90 transition-opacity"
                 >
                   Save Changes
                 </button>
+                <button 
+                  type="button"
+                  onClick={() => handleArchiveHabit(editingHabit)}
+                  className="w-full flex items-center justify-center gap-2 border border-ink py-3 font-mono text-xs uppercase hover:bg-ink hover:text-paper transition-all"
+                >
+                  <Archive size={14} /> Archive Habit
+                </button>
                 <button 
                   type="button"
                   onClick={() => handleDeleteHabit(editingHabit.id)}
-                  className="w-full border border-rose-500 text-rose-600 py-3 font-mono text-xs uppercase hover:bg-rose-500 hover:text-white transition-all"
+                  className="w-full border border-fail text-fail py-3 font-mono text-xs uppercase hover:bg-fail hover:text-paper transition-all"
                 >
                   Delete Habit
                 </button>
                 <button 
                   type="button"
                   onClick={() => setEditingHabit(null)}
-                  className="w-full border border-[#141414] py-3 font-mono text-xs uppercase hover:bg-[#141414] hover:text-[#E4E3E0] transition-all"
+                  className="w-full border border-ink py-3 font-mono text-xs uppercase hover:bg-ink hover:text-paper transition-all"
                 >
                   Cancel
                 </button>
@@ -439,14 +1330,133 @@ export default function App() {
         </div>
       )}
 
+      {/* Import / Export Modal */}
+      {isTransferringData && (
+        <DataTransfer
+          state={{ habits, entries }}
+          onImport={handleImport}
+          onClose={() => setIsTransferringData(false)}
+        />
+      )}
+
+      {/* Dashboard Modal */}
+      {isDashboardOpen && (
+        <Dashboard habits={habits} entries={entries} onClose={() => setIsDashboardOpen(false)} />
+      )}
+
+      {/* Archived Habits Modal */}
+      {isArchiveOpen && (
+        <ArchivedHabits
+          habits={archivedHabits}
+          deletedHabits={deletedHabits}
+          onShowStats={setSelectedHabitForStats}
+          onRestore={handleRestoreHabit}
+          onDelete={handleDeleteHabit}
+          onRestoreDeleted={handleUntrashHabit}
+          onClose={() => setIsArchiveOpen(false)}
+        />
+      )}
+
+      {/* Reminders Modal */}
+      {isRemindersOpen && (
+        <ReminderSettings
+          habits={habits.filter(h => !isArchived(h))}
+          settings={reminders.settings}
+          permission={reminders.permission}
+          onEnable={reminders.enable}
+          onUpdateSettings={reminders.updateSettings}
+          onSendTest={reminders.sendTest}
+          onSetReminder={handleSetReminder}
+          onClose={() => setIsRemindersOpen(false)}
+        />
+      )}
+
+      {/* Sync Conflicts Modal */}
+      {isConflictsOpen && (
+        <SyncConflicts
+          conflicts={conflicts}
+          habits={habits}
+          onResolve={resolveConflict}
+          onClose={() => setIsConflictsOpen(false)}
+        />
+      )}
+
+      {/* Activity Log Modal */}
+      {isActivityOpen && <ActivityLog habits={habits} onClose={() => setIsActivityOpen(false)} />}
+
+      {/* Quick Log Command Bar */}
+      {isCommandBarOpen && (
+        <CommandBar
+          habits={habits}
+          getEntry={getEntry}
+          onApply={handleQuickLog}
+          onClose={() => setIsCommandBarOpen(false)}
+        />
+      )}
+
+      {/* Weekly Insights Modal */}
+      {isInsightsOpen && (
+        <InsightsPanel
+          habits={habits}
+          onApplyTarget={handleApplyInsightTarget}
+          onClose={() => setIsInsightsOpen(false)}
+        />
+      )}
+
+      {/* Day Start and Time Zone Modal */}
+      {isDaySettingsOpen && (
+        <DaySettings
+          settings={daySettings.settings}
+          onUpdateSettings={daySettings.updateSettings}
+          onClose={() => setIsDaySettingsOpen(false)}
+        />
+      )}
+
+      {/* Theme Modal */}
+      {isThemeOpen && (
+        <ThemeSettings
+          preference={theme.preference}
+          theme={theme.theme}
+          isSignedIn={user !== null}
+          onChangePreference={handleThemeChange}
+          onClose={() => setIsThemeOpen(false)}
+        />
+      )}
+
+      {/* Accounts and Teams Modal */}
+      {isTeamsOpen && (
+        <TeamsPanel
+          user={user}
+          habits={habits}
+          onUserChange={handleUserChange}
+          onClose={() => setIsTeamsOpen(false)}
+        />
+      )}
+
+      {notice && <UndoToast notice={notice} onUndo={undo} onRedo={redo} onDismiss={dismissNotice} />}
+
+      <datalist id="habit-groups">
+        {allGroups.map(group => <option key={group} value={group} />)}
+      </datalist>
+
       {/* Stats Modal */}
       {selectedHabitForStats && (
         <HabitStats 
-          habit={selectedHabitForStats} 
+          habit={habits.find(h => h.id === selectedHabitForStats.id) ?? selectedHabitForStats} 
           entries={entries} 
+          onSaveHabit={saveHabit}
           onClose={() => setSelectedHabitForStats(null)} 
         />
       )}
+
+      {/* Milestone Celebration, one at a time */}
+      {celebrations.length > 0 && (
+        <MilestoneCelebration
+          key={celebrations[0].achievement.milestoneId}
+          celebration={celebrations[0]}
+          onClose={() => setCelebrations((prev: Celebration[]) => prev.slice(1))}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,71 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { X } from 'lucide-react';
+import { ActivityItem, Habit } from '../types';
+import { api } from '../lib/api';
+import { describeActivity } from '../lib/activity';
+import { getDateKeyAt } from '../lib/dates';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface ActivityLogProps {
+  habits: Habit[];
+  onClose: () => void;
+}
+
+/** Every stored change, newest first, grouped by the day it happened. */
+export const ActivityLog: React.FC<ActivityLogProps> = ({ habits, onClose }) => {
+  const dialogRef = useFocusTrap(onClose);
+  const [items, setItems] = useState<ActivityItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.listActivity().then(setItems, err => setError(err.message));
+  }, []);
+
+  const days = useMemo(() => {
+    const byDay = new Map<string, ActivityItem[]>();
+    for (const item of items ?? []) {
+      const day = getDateKeyAt(parseISO(item.at));
+      byDay.set(day, [...(byDay.get(day) ?? []), item]);
+    }
+    return [...byDay];
+  }, [items]);
+
+  const habitsById = useMemo(() => new Map<string, Habit>(habits.map(h => [h.id, h])), [habits]);
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-label="Activity" tabIndex={-1} className="bg-paper border border-ink p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-2xl focus:outline-none">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-serif italic uppercase">Activity</h2>
+            <p className="text-[10px] uppercase font-mono opacity-50 mt-1">What changed and when</p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-3 -mr-2 -mt-2 hover:bg-ink hover:text-paper transition-colors active:scale-90">
+            <X size={24} />
+          </button>
+        </div>
+
+        {error && <p className="font-mono text-xs text-fail">Could not load activity: {error}</p>}
+        {!items && !error && <p className="font-mono text-xs opacity-50">Loading…</p>}
+        {items?.length === 0 && <p className="font-mono text-xs opacity-50">No changes recorded yet.</p>}
+
+        <div className="space-y-6">
+          {days.map(([day, dayItems]) => (
+            <div key={day}>
+              <h3 className="text-[10px] uppercase font-serif italic opacity-50 mb-2">{format(parseISO(day), 'EEEE, MMM dd yyyy')}</h3>
+              <div className="border border-ink divide-y divide-ink/10">
+                {dayItems.map(item => (
+                  <div key={item.id} className="flex gap-3 p-3 font-mono text-[11px]">
+                    <span className="opacity-40 shrink-0">{format(parseISO(item.at), 'HH:mm')}</span>
+                    <span>{describeActivity(item, item.habitId ? habitsById.get(item.habitId) : undefined)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { ArchiveRestore, BarChart2, Trash2, X } from 'lucide-react';
+import { Habit } from '../types';
+import { getDaysUntilPurge } from '../lib/activity';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface ArchivedHabitsProps {
+  habits: Habit[]; // archived habits only
+  deletedHabits: Habit[]; // the trash, newest first
+  onShowStats: (habit: Habit) => void;
+  onRestore: (habit: Habit) => void;
+  onDelete: (id: string) => void;
+  onRestoreDeleted: (habit: Habit) => void;
+  onClose: () => void;
+}
+
+/** Habits taken off the grid: archived ones keep their history, deleted ones wait in the trash until purged. */
+export const ArchivedHabits: React.FC<ArchivedHabitsProps> = ({
+  habits,
+  deletedHabits,
+  onShowStats,
+  onRestore,
+  onDelete,
+  onRestoreDeleted,
+  onClose,
+}) => {
+  const dialogRef = useFocusTrap(onClose);
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-label="Archive" tabIndex={-1} className="bg-paper border border-ink p-8 w-full max-w-md max-h-[90vh] overflow-y-auto shadow-2xl focus:outline-none">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-serif italic uppercase">Archive</h2>
+            <p className="text-[10px] uppercase font-mono opacity-50 mt-1">{habits.length} retired // {deletedHabits.length} in trash</p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-3 -mr-2 -mt-2 hover:bg-ink hover:text-paper transition-colors active:scale-90">
+            <X size={24} />
+          </button>
+        </div>
+
+        {habits.length === 0 ? (
+          <p className="font-mono text-xs opacity-50">Nothing archived yet.</p>
+        ) : (
+          <div className="border border-ink divide-y divide-ink/10">
+            {habits.map(habit => (
+              <div key={habit.id} className="flex items-center gap-3 p-3">
+                <div className="flex-1 min-w-0">
+                  <span className="font-serif italic uppercase text-sm block truncate">{habit.name}</span>
+                  <span className="font-mono text-[9px] uppercase opacity-50">
+                    Archived {format(parseISO(habit.archivedAt!), 'MMM dd, yyyy')}
+                    {habit.group && ` · ${habit.group}`}
+                  </span>
+                </div>
+                <button
+                  onClick={() => onShowStats(habit)}
+                  className="p-2 border border-ink/10 hover:bg-ink hover:text-paper transition-all active:scale-90"
+                  aria-label="View Stats"
+                >
+                  <BarChart2 size={14} />
+                </button>
+                <button
+                  onClick={() => onRestore(habit)}
+                  className="p-2 border border-ink/10 hover:bg-ink hover:text-paper transition-all active:scale-90"
+                  aria-label="Restore Habit"
+                >
+                  <ArchiveRestore size={14} />
+                </button>
+                <button
+                  onClick={() => onDelete(habit.id)}
+                  className="p-2 border border-ink/10 text-fail hover:bg-fail hover:text-paper transition-all active:scale-90"
+                  aria-label="Delete Habit"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {deletedHabits.length > 0 && (
+          <div className="mt-8">
+            <h3 className="text-[10px] uppercase font-serif italic opacity-50 mb-2">Recently Deleted</h3>
+            <div className="border border-ink divide-y divide-ink/10">
+              {deletedHabits.map(habit => (
+                <div key={habit.id} className="flex items-center gap-3 p-3">
+                  <div className="flex-1 min-w-0">
+                    <span className="font-serif italic uppercase text-sm block truncate opacity-60">{habit.name}</span>
+                    <span className="font-mono text-[9px] uppercase opacity-50">
+                      Removed for good in {getDaysUntilPurge(habit.deletedAt!)} days
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => onRestoreDeleted(habit)}
+                    className="flex items-center gap-1 px-2 py-1 border border-ink font-mono text-[9px] uppercase hover:bg-ink hover:text-paper transition-all active:scale-90"
+                  >
+                    <ArchiveRestore size={12} /> Restore
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
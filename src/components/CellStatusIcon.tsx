@@ -0,0 +1,18 @@
+import React from 'react';
+import { Check, CircleDashed, Coffee, LucideIcon, Minus, X } from 'lucide-react';
+import { CellState } from '../lib/scoring';
+import { cn } from '../lib/utils';
+
+const ICONS: Partial<Record<CellState, LucideIcon>> = {
+  done: Check,
+  partial: CircleDashed,
+  failed: X,
+  missed: Minus,
+  skipped: Coffee,
+};
+
+/** A shape for each settled state, so the grid reads without telling green from red. */
+export const CellStatusIcon: React.FC<{ state: CellState; size?: number; className?: string }> = ({ state, size = 10, className }) => {
+  const Icon = ICONS[state];
+  return Icon ? <Icon size={size} aria-hidden className={cn("shrink-0", className)} /> : null;
+};
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Ban } from 'lucide-react';
+import { HABIT_COLORS } from '../lib/theme';
+import { cn } from '../lib/utils';
+
+interface ColorFieldProps {
+  color?: string;
+}
+
+const labelClass = 'block text-[10px] uppercase font-serif italic opacity-50 mb-2';
+const swatchClass = 'w-7 h-7 border border-ink flex items-center justify-center transition-transform hover:scale-110';
+
+/** Habit color swatches for the habit forms, plus any custom color; read back with `parseColorForm`. */
+export const ColorField: React.FC<ColorFieldProps> = ({ color }) => {
+  const [value, setValue] = useState(color ?? '');
+  const isCustom = value !== '' && !HABIT_COLORS.some(option => option.color === value);
+
+  return (
+    <div>
+      <label className={labelClass}>Color</label>
+      <input type="hidden" name="color" value={value} />
+      <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Habit Color">
+        <button
+          type="button"
+          onClick={() => setValue('')}
+          aria-pressed={value === ''}
+          aria-label="No color"
+          title="No color"
+          className={cn(swatchClass, value === '' && "ring-2 ring-offset-2 ring-ink ring-offset-paper")}
+        >
+          <Ban size={12} className="opacity-50" />
+        </button>
+        {HABIT_COLORS.map(option => (
+          <button
+            key={option.color}
+            type="button"
+            onClick={() => setValue(option.color)}
+            aria-pressed={value === option.color}
+            aria-label={option.label}
+            title={option.label}
+            className={cn(swatchClass, value === option.color && "ring-2 ring-offset-2 ring-ink ring-offset-paper")}
+            style={{ backgroundColor: option.color }}
+          />
+        ))}
+        <label
+          title="Custom color"
+          className={cn(swatchClass, "relative cursor-pointer font-mono text-[9px]", isCustom && "ring-2 ring-offset-2 ring-ink ring-offset-paper")}
+          style={isCustom ? { backgroundColor: value } : undefined}
+        >
+          {!isCustom && '+'}
+          <input
+            type="color"
+            aria-label="Custom color"
+            value={isCustom ? value : '#000000'}
+            onChange={e => setValue(e.target.value)}
+            className="absolute inset-0 opacity-0 cursor-pointer"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
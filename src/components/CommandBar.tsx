@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Check, CornerDownLeft, X } from 'lucide-react';
+import { Habit, HabitEntry } from '../types';
+import { formatAmount, formatProgress } from '../lib/measure';
+import { applyQuickLogItems, parseQuickLog, QuickLogItem } from '../lib/quickLog';
+import { getToday } from '../lib/dates';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface CommandBarProps {
+  habits: Habit[];
+  getEntry: (habitId: string, date: string) => HabitEntry | undefined;
+  onApply: (entries: HabitEntry[]) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<HabitEntry['status'], string> = {
+  done: 'done',
+  failed: 'failed',
+  skipped: 'rest day',
+  none: 'not marked',
+};
+
+const describeChange = ({ change }: QuickLogItem, habit: Habit) => {
+  if (!change) return '';
+  return [
+    change.amount > 0 && `+${formatAmount(habit, change.amount)}`,
+    change.status && STATUS_LABELS[change.status],
+    change.note && `“${change.note}”`,
+  ].filter(Boolean).join(' · ');
+};
+
+/**
+ * Ctrl+K quick logging: type what happened in plain words, check the preview
+ * and save every day at once, as a single undo step.
+ */
+export const CommandBar: React.FC<CommandBarProps> = ({ habits, getEntry, onApply, onClose }) => {
+  const dialogRef = useFocusTrap(onClose);
+  const [input, setInput] = useState('');
+  const today = getToday();
+
+  const items = useMemo(() => parseQuickLog(input, habits, today), [input, habits, today.getTime()]);
+  const updated = useMemo(() => applyQuickLogItems(items, habits, getEntry), [items, habits, getEntry]);
+  const habitsById = useMemo(() => new Map<string, Habit>(habits.map(h => [h.id, h])), [habits]);
+  const canApply = items.length > 0 && items.every(item => item.change);
+
+  const apply = () => {
+    if (!canApply) return;
+    onApply(updated);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      apply();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-[15vh]" onClick={onClose}>
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-label="Quick Log" tabIndex={-1} className="bg-paper border border-ink w-full max-w-xl shadow-2xl focus:outline-none" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center gap-3 border-b border-ink px-4">
+          <input
+            autoFocus
+            value={input}
+            onChange={e => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="read 25m, gym done, meditation failed yesterday - too tired"
+            className="flex-1 bg-transparent py-4 font-mono text-sm focus:outline-none placeholder:opacity-40"
+            aria-label="Quick log"
+          />
+          <button onClick={onClose} className="p-2 -mr-2 hover:bg-ink hover:text-paper transition-colors" aria-label="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        {items.length === 0 ? (
+          <p className="px-4 py-3 font-mono text-[10px] uppercase opacity-50">
+            One habit per comma // amounts like 25m, 1h30m or 3 // done, failed, skip // yesterday, friday, 3 days ago // note after " - "
+          </p>
+        ) : (
+          <div className="divide-y divide-ink/10">
+            {items.map((item, i) => {
+              const habit = item.change && habitsById.get(item.change.habitId);
+              return (
+                <div key={i} className="px-4 py-2 flex justify-between items-baseline gap-4 font-mono text-[11px]">
+                  {habit && item.change ? (
+                    <>
+                      <span className="truncate">
+                        <span className="font-serif italic uppercase text-sm mr-2">{habit.name}</span>
+                        {describeChange(item, habit)}
+                      </span>
+                      <span className="text-[10px] uppercase opacity-50 shrink-0">{format(parseISO(item.change.date), 'EEE, MMM dd')}</span>
+                    </>
+                  ) : (
+                    <>
+                      <span className="truncate opacity-50">{item.clause}</span>
+                      <span className="text-fail shrink-0">{item.error}</span>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {canApply && (
+          <div className="border-t border-ink px-4 py-3 flex justify-between items-end gap-4">
+            <div className="space-y-1 min-w-0">
+              {updated.map(entry => {
+                const habit = habitsById.get(entry.habitId)!;
+                return (
+                  <div key={`${entry.habitId}|${entry.date}`} className="font-mono text-[10px] uppercase opacity-60 truncate">
+                    {habit.name}, {format(parseISO(entry.date), 'MMM dd')}: {STATUS_LABELS[entry.status]} {formatProgress(habit, entry.timeSpent, entry.date)}
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              onClick={apply}
+              className="flex items-center gap-2 border border-ink bg-ink text-paper px-4 py-2 font-mono text-xs uppercase hover:bg-done hover:border-done transition-all active:scale-95 shrink-0"
+            >
+              <Check size={14} /> Log {updated.length === 1 ? '1 day' : `${updated.length} days`} <CornerDownLeft size={12} className="opacity-60" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
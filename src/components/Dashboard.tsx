@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { parseISO, subDays } from 'date-fns';
+import { X } from 'lucide-react';
+import { Habit, HabitEntry } from '../types';
+import { Bucket, describeRatingCorrelation, getHabitCompletion, getMinutesByBucket, getRangeDays, getRatingCorrelations, getWeekdaySuccess } from '../lib/analytics';
+import { formatAmount, isTimeHabit } from '../lib/measure';
+import { cn } from '../lib/utils';
+import { getToday, getTodayKey, toDateKey } from '../lib/dates';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface DashboardProps {
+  habits: Habit[];
+  entries: HabitEntry[];
+  onClose: () => void;
+}
+
+type RangeOption = 7 | 30 | 90 | 365 | 'custom';
+
+const RANGE_OPTIONS: RangeOption[] = [7, 30, 90, 365, 'custom'];
+
+// Series colors for the stacked chart, in habit order, for habits without a color of their own
+const SERIES_COLORS = ['var(--ink)', 'var(--done)', 'var(--fail)', '#6366f1', '#f59e0b', '#0ea5e9', '#8b5cf6', '#84cc16'];
+
+const tooltipStyle = {
+  backgroundColor: 'var(--paper)',
+  border: '1px solid var(--ink)',
+  fontFamily: 'monospace',
+  fontSize: '12px'
+};
+
+export const Dashboard: React.FC<DashboardProps> = ({ habits, entries, onClose }) => {
+  const dialogRef = useFocusTrap(onClose);
+  const [range, setRange] = useState<RangeOption>(30);
+  const [customFrom, setCustomFrom] = useState(toDateKey(subDays(getToday(), 29)));
+  const [customTo, setCustomTo] = useState(getTodayKey());
+  const [bucket, setBucket] = useState<Bucket>('week');
+
+  const days = useMemo(() => {
+    if (range === 'custom') {
+      return customFrom && customTo ? getRangeDays(parseISO(customFrom), parseISO(customTo)) : [];
+    }
+    return getRangeDays(subDays(getToday(), range - 1), getToday());
+  }, [range, customFrom, customTo]);
+
+  // Counts have their own units, so only time habits stack into the minutes chart
+  const timeHabits = useMemo(() => habits.filter(isTimeHabit), [habits]);
+  const minutesByBucket = useMemo(() => getMinutesByBucket(timeHabits, entries, days, bucket), [timeHabits, entries, days, bucket]);
+  const weekdaySuccess = useMemo(() => getWeekdaySuccess(habits, entries, days), [habits, entries, days]);
+  const ratingCorrelations = useMemo(() => getRatingCorrelations(habits, entries, days), [habits, entries, days]);
+  const ranking = useMemo(() => {
+    return habits
+      .map(habit => getHabitCompletion(habit, entries, days))
+      .sort((a, b) => b.rate - a.rate || b.done - a.done);
+  }, [habits, entries, days]);
+
+  const totalMinutes = ranking.filter(r => isTimeHabit(r.habit)).reduce((sum, r) => sum + r.amount, 0);
+  const totalDone = ranking.reduce((sum, r) => sum + r.done, 0);
+  const totalExpected = ranking.reduce((sum, r) => sum + r.expected, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-label="Dashboard" tabIndex={-1} className="bg-paper border border-ink w-full max-w-5xl max-h-[90vh] overflow-y-auto shadow-2xl focus:outline-none">
+        <div className="flex justify-between items-center p-4 md:p-6 border-b border-ink">
+          <div>
+            <h2 className="text-xl md:text-2xl font-serif italic uppercase tracking-wider">Dashboard</h2>
+            <p className="text-[10px] md:text-xs opacity-60 uppercase mt-1">All Habits // {days.length} days</p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-3 md:p-2 hover:bg-ink hover:text-paper transition-colors active:scale-90">
+            <X size={24} className="md:w-5 md:h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 md:p-6 space-y-8">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex border border-ink" role="group" aria-label="Range">
+              {RANGE_OPTIONS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setRange(option)}
+                  aria-pressed={range === option}
+                  className={cn(
+                    "px-3 py-1.5 font-mono text-[10px] uppercase border-r last:border-r-0 border-ink transition-all",
+                    range === option ? "bg-ink text-paper" : "hover:bg-ink/10"
+                  )}
+                >
+                  {option === 'custom' ? 'Custom' : `${option}d`}
+                </button>
+              ))}
+            </div>
+            {range === 'custom' && (
+              <div className="flex items-center gap-2 font-mono text-xs">
+                <input type="date" value={customFrom} onChange={e => setCustomFrom(e.target.value)} className="bg-transparent border-b border-ink py-1 focus:outline-none" />
+                <span className="opacity-50">→</span>
+                <input type="date" value={customTo} onChange={e => setCustomTo(e.target.value)} className="bg-transparent border-b border-ink py-1 focus:outline-none" />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="border border-ink p-4">
+              <p className="text-[10px] uppercase opacity-50 font-serif italic">Total Time</p>
+              <p className="text-3xl font-mono mt-2">{Math.floor(totalMinutes / 60)}h {totalMinutes % 60}m</p>
+            </div>
+            <div className="border border-ink p-4">
+              <p className="text-[10px] uppercase opacity-50 font-serif italic">Overall Completion</p>
+              <p className="text-3xl font-mono mt-2">{totalExpected ? Math.round((totalDone / totalExpected) * 100) : 0}%</p>
+            </div>
+            <div className="border border-ink p-4">
+              <p className="text-[10px] uppercase opacity-50 font-serif italic">Days Completed</p>
+              <p className="text-3xl font-mono mt-2">{Math.round(totalDone * 10) / 10}/{totalExpected}</p>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-xs uppercase font-serif italic opacity-60">Minutes per {bucket}</h3>
+              <div className="flex border border-ink" role="group" aria-label="Group By">
+                {(['week', 'month'] as Bucket[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setBucket(option)}
+                    aria-pressed={bucket === option}
+                    className={cn(
+                      "px-3 py-1 font-mono text-[10px] uppercase first:border-r border-ink transition-all",
+                      bucket === option ? "bg-ink text-paper" : "hover:bg-ink/10"
+                    )}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="h-[250px] md:h-[300px] w-full border border-ink p-2 md:p-4 bg-surface/50">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={minutesByBucket}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="var(--ink)" opacity={0.1} />
+                  <XAxis dataKey="label" stroke="var(--ink)" fontSize={10} tickLine={false} axisLine={false} />
+                  <YAxis stroke="var(--ink)" fontSize={10} tickLine={false} axisLine={false} />
+                  <Tooltip contentStyle={tooltipStyle} />
+                  <Legend wrapperStyle={{ fontFamily: 'monospace', fontSize: '10px', textTransform: 'uppercase' }} />
+                  {timeHabits.map((habit, i) => (
+                    <Bar key={habit.id} dataKey={habit.id} name={habit.name} stackId="minutes" fill={habit.color ?? SERIES_COLORS[i % SERIES_COLORS.length]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <h3 className="text-xs uppercase font-serif italic opacity-60">Success Rate by Weekday</h3>
+              <div className="h-[220px] w-full border border-ink p-2 md:p-4 bg-surface/50">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={weekdaySuccess}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="var(--ink)" opacity={0.1} />
+                    <XAxis dataKey="weekday" stroke="var(--ink)" fontSize={10} tickLine={false} axisLine={false} />
+                    <YAxis stroke="var(--ink)" fontSize={10} tickLine={false} axisLine={false} domain={[0, 100]} unit="%" />
+                    <Tooltip contentStyle={tooltipStyle} />
+                    <Bar dataKey="rate" name="Success %" fill="var(--done)" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="text-xs uppercase font-serif italic opacity-60">Best to Worst</h3>
+              <div className="border border-ink divide-y divide-ink/10">
+                {ranking.map(({ habit, done, expected, rate, amount }, i) => (
+                  <div key={habit.id} className="flex items-center gap-3 p-3">
+                    <span className="font-mono text-[10px] opacity-40 w-4">{i + 1}</span>
+                    <span className="font-serif italic uppercase text-sm flex-1 truncate">{habit.name}</span>
+                    <div className="w-24 h-2 border border-ink/20">
+                      <div
+                        className={cn("h-full", rate >= 0.7 ? "bg-done" : rate >= 0.4 ? "bg-ink" : "bg-fail")}
+                        style={{ width: `${rate * 100}%` }}
+                      />
+                    </div>
+                    <span className="font-mono text-xs w-12 text-right">{Math.round(rate * 100)}%</span>
+                    <span className="font-mono text-[10px] opacity-50 w-28 text-right truncate">{Math.round(done * 10) / 10}/{expected} · {formatAmount(habit, amount)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="text-xs uppercase font-serif italic opacity-60">Mood & Energy</h3>
+            {ratingCorrelations.length === 0 ? (
+              <p className="font-mono text-xs opacity-50">
+                Rate mood and energy when logging a day; with a few high and low days in this range, you'll see how each habit goes on them.
+              </p>
+            ) : (
+              <div className="border border-ink divide-y divide-ink/10">
+                {ratingCorrelations.map(correlation => (
+                  <div key={`${correlation.kind}|${correlation.habit.id}`} className="flex items-center gap-3 p-3">
+                    <span className="font-mono text-[9px] uppercase opacity-50 w-12 shrink-0">{correlation.kind}</span>
+                    <p className="font-mono text-xs flex-1">{describeRatingCorrelation(correlation)}</p>
+                    <span className="font-mono text-[10px] opacity-50 shrink-0 text-right">
+                      {[correlation.high && `${correlation.high.days} high`, correlation.low && `${correlation.low.days} low`].filter(Boolean).join(' · ')} days
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Upload, X } from 'lucide-react';
+import { AppState, Habit } from '../types';
+import {
+  downloadFile,
+  exportCsv,
+  exportJson,
+  findConflicts,
+  ImportError,
+  ImportMode,
+  parseCsvImport,
+  parseJsonImport,
+  withoutConflicts,
+} from '../lib/transfer';
+import { formatAmount } from '../lib/measure';
+import { cn } from '../lib/utils';
+import { getTodayKey } from '../lib/dates';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface DataTransferProps {
+  state: AppState;
+  onImport: (state: AppState, mode: ImportMode) => Promise<void>;
+  onClose: () => void;
+}
+
+interface PendingImport {
+  fileName: string;
+  state: AppState;
+}
+
+export const DataTransfer: React.FC<DataTransferProps> = ({ state, onImport, onClose }) => {
+  const dialogRef = useFocusTrap(onClose);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [keepExisting, setKeepExisting] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const habitsById = useMemo(() => {
+    return new Map<string, Habit>([...state.habits, ...(pending?.state.habits ?? [])].map(h => [h.id, h]));
+  }, [state, pending]);
+
+  const conflicts = useMemo(() => {
+    return pending ? findConflicts(state.entries, pending.state.entries) : [];
+  }, [state, pending]);
+
+  const newHabits = useMemo(() => {
+    const known = new Set(state.habits.map(h => h.id));
+    return pending?.state.habits.filter(h => !known.has(h.id)) ?? [];
+  }, [state, pending]);
+
+  const stamp = getTodayKey();
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setPending(null);
+    try {
+      const text = await file.text();
+      const parsed = file.name.toLowerCase().endsWith('.csv')
+        ? parseCsvImport(text, state.habits)
+        : parseJsonImport(text);
+      setPending({ fileName: file.name, state: parsed });
+    } catch (err) {
+      setError(err instanceof ImportError ? err.message : `Could not read ${file.name}`);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!pending) return;
+    const incoming = mode === 'merge' && keepExisting ? withoutConflicts(pending.state, conflicts) : pending.state;
+    setIsApplying(true);
+    try {
+      await onImport(incoming, mode);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-label="Data Transfer" tabIndex={-1} className="bg-paper border border-ink p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-2xl focus:outline-none">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-serif italic uppercase">Data Transfer</h2>
+            <p className="text-[10px] uppercase font-mono opacity-50 mt-1">
+              {state.habits.length} habits // {state.entries.length} entries
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-ink hover:text-paper transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-8">
+          <div className="space-y-3">
+            <h3 className="text-[10px] uppercase font-serif italic opacity-50">Export</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <button
+                onClick={() => downloadFile(`habitgrid-${stamp}.json`, exportJson(state), 'application/json')}
+                className="flex items-center justify-center gap-2 border border-ink py-3 font-mono text-xs uppercase hover:bg-ink hover:text-paper transition-all"
+              >
+                <Download size={14} /> Full Backup (JSON)
+              </button>
+              <button
+                onClick={() => downloadFile(`habitgrid-${stamp}.csv`, exportCsv(state), 'text/csv')}
+                className="flex items-center justify-center gap-2 border border-ink py-3 font-mono text-xs uppercase hover:bg-ink hover:text-paper transition-all"
+              >
+                <Download size={14} /> Entries (CSV)
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-[10px] uppercase font-serif italic opacity-50">Import</h3>
+            <label className="flex items-center justify-center gap-2 border border-dashed border-ink py-6 font-mono text-xs uppercase cursor-pointer hover:bg-ink/5 transition-colors">
+              <Upload size={14} /> {pending ? pending.fileName : 'Choose JSON or CSV file'}
+              <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFile} className="sr-only" />
+            </label>
+
+            {error && (
+              <p className="border border-fail bg-fail/10 px-3 py-2 font-mono text-[10px] uppercase text-fail">{error}</p>
+            )}
+
+            {pending && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-2 font-mono text-center">
+                  <div className="border border-ink p-2">
+                    <p className="text-lg">{pending.state.entries.length}</p>
+                    <p className="text-[9px] uppercase opacity-50">Entries</p>
+                  </div>
+                  <div className="border border-ink p-2">
+                    <p className="text-lg">{newHabits.length}</p>
+                    <p className="text-[9px] uppercase opacity-50">New Habits</p>
+                  </div>
+                  <div className={cn("border border-ink p-2", conflicts.length > 0 && "border-fail text-fail")}>
+                    <p className="text-lg">{conflicts.length}</p>
+                    <p className="text-[9px] uppercase opacity-50">Conflicts</p>
+                  </div>
+                </div>
+
+                {newHabits.length > 0 && (
+                  <p className="font-mono text-[10px] uppercase opacity-60">
+                    Creates: {newHabits.map(h => h.name).join(', ')}
+                  </p>
+                )}
+
+                {conflicts.length > 0 && (
+                  <div className="max-h-40 overflow-y-auto border border-ink/20">
+                    <table className="w-full font-mono text-[10px]">
+                      <thead className="sticky top-0 bg-paper">
+                        <tr className="uppercase opacity-50 text-left">
+                          <th className="p-2">Day</th>
+                          <th className="p-2">Current</th>
+                          <th className="p-2">Imported</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {conflicts.map(({ existing, incoming }) => {
+                          const habit = habitsById.get(incoming.habitId)!;
+                          return (
+                            <tr key={`${incoming.habitId}-${incoming.date}`} className="border-t border-ink/10">
+                              <td className="p-2">{incoming.date} · {habit.name}</td>
+                              <td className="p-2">{existing.status} {formatAmount(habit, existing.timeSpent)}</td>
+                              <td className="p-2">{incoming.status} {formatAmount(habit, incoming.timeSpent)}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 border border-ink">
+                  {(['merge', 'replace'] as ImportMode[]).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setMode(option)}
+                      className={cn(
+                        "py-2 font-mono text-[10px] uppercase first:border-r border-ink transition-colors",
+                        mode === option ? "bg-ink text-paper" : "hover:bg-ink/10"
+                      )}
+                    >
+                      {option === 'merge' ? 'Merge Into Current' : 'Replace Everything'}
+                    </button>
+                  ))}
+                </div>
+
+                {mode === 'merge' && conflicts.length > 0 && (
+                  <label className="flex items-center gap-2 font-mono text-[10px] uppercase cursor-pointer">
+                    <input type="checkbox" checked={keepExisting} onChange={e => setKeepExisting(e.target.checked)} />
+                    Keep current entries on conflicting days
+                  </label>
+                )}
+                {mode === 'replace' && (
+                  <p className="font-mono text-[10px] uppercase text-fail">
+                    All {state.habits.length} current habits and {state.entries.length} entries will be deleted.
+                  </p>
+                )}
+
+                <button
+                  onClick={handleApply}
+                  disabled={isApplying}
+                  className="w-full bg-ink text-paper py-3 font-mono text-xs uppercase hover:opacity-90 transition-opacity disabled:opacity-50"
+                >
+                  {isApplying ? 'Importing...' : 'Apply Import'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
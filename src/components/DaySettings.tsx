@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { X } from 'lucide-react';
+import { DaySettings as Settings, formatDayStart, getDeviceTimeZone, getToday, isValidTimeZone } from '../lib/dates';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface DaySettingsProps {
+  settings: Settings;
+  onUpdateSettings: (changes: Partial<Settings>) => void;
+  onClose: () => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+const labelClass = 'block text-[10px] uppercase font-serif italic opacity-50 mb-2';
+const inputClass = 'w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors';
+
+/** When a day begins and which time zone days are counted in, for this device. */
+export const DaySettings: React.FC<DaySettingsProps> = ({ settings, onUpdateSettings, onClose }) => {
+  const dialogRef = useFocusTrap(onClose);
+  // Typed names only take effect once they name a real zone
+  const [timeZone, setTimeZone] = useState(settings.timeZone);
+  const deviceTimeZone = getDeviceTimeZone();
+  const isValid = isValidTimeZone(timeZone);
+
+  const changeTimeZone = (value: string) => {
+    setTimeZone(value);
+    if (isValidTimeZone(value)) onUpdateSettings({ timeZone: value });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-label="Day Settings" tabIndex={-1} className="bg-paper border border-ink p-8 w-full max-w-md max-h-[90vh] overflow-y-auto shadow-2xl focus:outline-none">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-serif italic uppercase">Your Day</h2>
+            <p className="text-[10px] uppercase font-mono opacity-50 mt-1">Today is {format(getToday(), 'EEEE, MMM dd')}</p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-3 -mr-2 -mt-2 hover:bg-ink hover:text-paper transition-colors active:scale-90">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div>
+            <label htmlFor="day-start-hour" className={labelClass}>Day Starts At</label>
+            <select
+              id="day-start-hour"
+              value={settings.dayStartHour}
+              onChange={e => onUpdateSettings({ dayStartHour: parseInt(e.target.value) })}
+              className={inputClass}
+            >
+              {HOURS.map(hour => <option key={hour} value={hour}>{formatDayStart(hour)}</option>)}
+            </select>
+            <p className="font-mono text-[10px] opacity-50 mt-2">
+              Anything logged before {formatDayStart(settings.dayStartHour)} counts for the day before, for late nights.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="home-time-zone" className={labelClass}>Home Time Zone</label>
+            <input
+              id="home-time-zone"
+              list="time-zones"
+              value={timeZone}
+              onChange={e => changeTimeZone(e.target.value)}
+              className={inputClass}
+              aria-invalid={!isValid}
+            />
+            <datalist id="time-zones">
+              {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+            </datalist>
+            {!isValid && <p className="font-mono text-[10px] text-fail mt-2">Not a known time zone; still using {settings.timeZone}.</p>}
+            <p className="font-mono text-[10px] opacity-50 mt-2">
+              Days are counted in this zone wherever you are, so travelling doesn't shift or repeat them.
+            </p>
+            {deviceTimeZone !== settings.timeZone && (
+              <button
+                type="button"
+                onClick={() => changeTimeZone(deviceTimeZone)}
+                className="font-mono text-[10px] uppercase underline underline-offset-2 opacity-60 hover:opacity-100 mt-2"
+              >
+                This device is in {deviceTimeZone}; use that
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Check, X, Coffee, Plus, Trash2 } from 'lucide-react';
+import { Habit, HabitEntry, HabitSession, HabitStatus, Rating } from '../types';
+import { formatTarget, getUnitLabel, isLimitHabit, isTimeHabit, meetsTarget } from '../lib/measure';
+import { getTargetOn } from '../lib/targets';
+import { getSessions, newSessionId, sumSessions, withSessions } from '../lib/sessions';
+import { formatEntryTags, parseEntryTags, RATING_KINDS, RATING_LABELS, RatingKind, RATINGS } from '../lib/journal';
+import { cn } from '../lib/utils';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface EntryEditorProps {
+  habit: Habit;
+  date: string;
+  entry?: HabitEntry;
+  onSave: (entry: HabitEntry) => void;
+  onClose: () => void;
+}
+
+const RatingPicker: React.FC<{ kind: RatingKind; value?: Rating; onChange: (value?: Rating) => void }> = ({ kind, value, onChange }) => (
+  <div>
+    <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">
+      {kind}{value && <span className="not-italic font-mono"> // {RATING_LABELS[kind][value - 1]}</span>}
+    </label>
+    <div className="grid grid-cols-5 border border-ink" role="group" aria-label={kind}>
+      {RATINGS.map(rating => (
+        <button
+          key={rating}
+          type="button"
+          // Picking the current rating again clears it
+          onClick={() => onChange(value === rating ? undefined : rating)}
+          aria-pressed={value === rating}
+          aria-label={`${kind} ${rating}, ${RATING_LABELS[kind][rating - 1]}`}
+          title={RATING_LABELS[kind][rating - 1]}
+          className={cn(
+            "py-1.5 font-mono text-xs border-r last:border-r-0 border-ink transition-colors",
+            value === rating ? "bg-ink text-paper" : "hover:bg-ink/10"
+          )}
+        >
+          {rating}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export const EntryEditor: React.FC<EntryEditorProps> = ({ habit, date, entry, onSave, onClose }) => {
+  const dialogRef = useFocusTrap(onClose);
+  const [sessions, setSessions] = useState<HabitSession[]>(() =>
+    // A limit starts from nothing logged rather than from the allowance
+    entry ? getSessions(entry) : [{ id: newSessionId(), duration: isLimitHabit(habit) ? 0 : getTargetOn(habit, date) }]
+  );
+  const [notes, setNotes] = useState(entry?.notes ?? '');
+  const [ratings, setRatings] = useState<Partial<Record<RatingKind, Rating>>>({ mood: entry?.mood, energy: entry?.energy });
+  const [tags, setTags] = useState(formatEntryTags(entry?.tags));
+
+  const updateSession = (id: string, changes: Partial<HabitSession>) => {
+    setSessions((prev: HabitSession[]) => prev.map(s => s.id === id ? { ...s, ...changes } : s));
+  };
+
+  const total = sumSessions(sessions);
+  const unitLabel = isTimeHabit(habit) ? 'min' : getUnitLabel(habit);
+
+  const save = (status: HabitStatus) => {
+    const parsedTags = parseEntryTags(tags);
+    onSave(withSessions({
+      habitId: habit.id,
+      date,
+      status,
+      timeSpent: 0,
+      notes,
+      ...(ratings.mood ? { mood: ratings.mood } : {}),
+      ...(ratings.energy ? { energy: ratings.energy } : {}),
+      ...(parsedTags.length ? { tags: parsedTags } : {}),
+    }, sessions));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-label={`Log progress for ${habit.name}`} tabIndex={-1} className="bg-paper border border-ink p-8 w-full max-w-md max-h-[90vh] overflow-y-auto shadow-2xl focus:outline-none">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-serif italic uppercase">Log Progress</h2>
+            <p className="text-[10px] uppercase font-mono opacity-50 mt-1">
+              {habit.name} // {date}
+            </p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-3 -mr-2 -mt-2 hover:bg-ink hover:text-paper transition-colors active:scale-90">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div>
+            <div className="flex justify-between items-end mb-2">
+              <label className="block text-[10px] uppercase font-serif italic opacity-50">Sessions</label>
+              <span className={cn("font-mono text-3xl", isLimitHabit(habit) && !meetsTarget(habit, total, date) && "text-fail")}>
+                {total}<span className="text-sm opacity-50">/{formatTarget(habit, date)}</span>
+              </span>
+            </div>
+            <div className="space-y-3">
+              {sessions.map((session, i) => (
+                <div key={session.id} className="border border-ink/20 p-3 space-y-2">
+                  <div className="flex items-center gap-3">
+                    <span className="font-mono text-[10px] opacity-40">#{i + 1}</span>
+                    <input
+                      type="time"
+                      aria-label="Start Time"
+                      value={session.startTime ?? ''}
+                      onChange={e => updateSession(session.id, { startTime: e.target.value || undefined })}
+                      className="bg-transparent border-b border-ink/30 py-1 font-mono text-xs focus:outline-none focus:border-ink"
+                    />
+                    <input
+                      type="number"
+                      inputMode="numeric"
+                      min={0}
+                      aria-label={`Amount (${unitLabel})`}
+                      value={session.duration}
+                      onChange={e => updateSession(session.id, { duration: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className="w-16 bg-transparent border-b border-ink py-1 font-mono text-lg text-right focus:outline-none"
+                    />
+                    <span className="font-mono text-xs opacity-50">{unitLabel}</span>
+                    <button
+                      onClick={() => setSessions((prev: HabitSession[]) => prev.filter(s => s.id !== session.id))}
+                      className="ml-auto p-1 opacity-40 hover:opacity-100 hover:text-fail transition-all"
+                      aria-label="Delete Session"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    placeholder="Session note"
+                    value={session.note ?? ''}
+                    onChange={e => updateSession(session.id, { note: e.target.value || undefined })}
+                    className="w-full bg-transparent font-mono text-[11px] focus:outline-none placeholder:opacity-40"
+                  />
+                </div>
+              ))}
+              <button
+                onClick={() => setSessions((prev: HabitSession[]) => [...prev, { id: newSessionId(), duration: 0 }])}
+                className="w-full flex items-center justify-center gap-2 border border-dashed border-ink/40 py-2 font-mono text-[10px] uppercase hover:bg-ink/5 transition-colors"
+              >
+                <Plus size={12} /> Add Session
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Journal / Day Notes</label>
+            <textarea
+              placeholder="What did you accomplish? Any obstacles?"
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              className="w-full bg-transparent border border-ink/20 p-3 font-mono text-xs focus:outline-none focus:border-ink min-h-[80px] resize-none"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {RATING_KINDS.map(kind => (
+              <RatingPicker
+                key={kind}
+                kind={kind}
+                value={ratings[kind]}
+                onChange={value => setRatings((prev: Partial<Record<RatingKind, Rating>>) => ({ ...prev, [kind]: value }))}
+              />
+            ))}
+          </div>
+
+          <div>
+            <label htmlFor="entry-tags" className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Tags</label>
+            <input
+              id="entry-tags"
+              type="text"
+              placeholder="#travel #sick"
+              value={tags}
+              onChange={e => setTags(e.target.value)}
+              onBlur={() => setTags(formatEntryTags(parseEntryTags(tags)))}
+              className="w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 pt-4">
+            <button
+              onClick={() => save('done')}
+              className="flex flex-col items-center gap-3 border border-ink p-6 bg-done/5 hover:bg-done/10 transition-colors group"
+            >
+              <Check className="text-done group-hover:scale-110 transition-transform" />
+              <span className="font-mono text-[10px] uppercase">Complete Session</span>
+            </button>
+            <button
+              onClick={() => save('failed')}
+              className="flex flex-col items-center gap-3 border border-ink p-6 bg-fail/5 hover:bg-fail/10 transition-colors group"
+            >
+              <X className="text-fail group-hover:scale-110 transition-transform" />
+              <span className="font-mono text-[10px] uppercase">Failed Session</span>
+            </button>
+            <button
+              onClick={() => save('skipped')}
+              className="col-span-2 flex items-center justify-center gap-3 border border-ink p-3 bg-ink/5 hover:bg-ink/10 transition-colors group"
+            >
+              <Coffee size={16} className="opacity-60 group-hover:scale-110 transition-transform" />
+              <span className="font-mono text-[10px] uppercase">Rest Day (Keeps Streak)</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
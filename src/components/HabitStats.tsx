@@ -10,27 +10,39 @@ import {
   BarChart,
   Bar
 } from 'recharts';
-import { format, subDays, parseISO, isSameDay, compareDesc } from 'date-fns';
+import { format, subDays, parseISO, compareDesc } from 'date-fns';
 import { Habit, HabitEntry } from '../types';
-import { X, FileText } from 'lucide-react';
+import { X, FileText, Flame } from 'lucide-react';
+import { formatAmount, formatTarget, getUnitLabel, isLimitHabit } from '../lib/measure';
+import { isScheduledDay } from '../lib/schedule';
+import { describeProgram } from '../lib/programs';
+import { formatEntryTags, formatRatings, hasJournal } from '../lib/journal';
+import { getTargetOn } from '../lib/targets';
+import { getCompletion, getLifetimeDays, SUCCESS_RULES } from '../lib/scoring';
+import { calculateStreaks } from '../lib/streaks';
+import { getToday, getTodayKey, toDateKey } from '../lib/dates';
+import { Milestones } from './Milestones';
+import { useFocusTrap } from '../hooks/useFocusTrap';
 
 interface HabitStatsProps {
   habit: Habit;
   entries: HabitEntry[];
+  onSaveHabit: (habit: Habit, label: string) => void;
   onClose: () => void;
 }
 
-export const HabitStats: React.FC<HabitStatsProps> = ({ habit, entries, onClose }) => {
+export const HabitStats: React.FC<HabitStatsProps> = ({ habit, entries, onSaveHabit, onClose }) => {
+  const dialogRef = useFocusTrap(onClose);
   const last30Days = useMemo(() => {
     const days = [];
     for (let i = 29; i >= 0; i--) {
-      const date = subDays(new Date(), i);
-      const dateStr = format(date, 'yyyy-MM-dd');
+      const date = subDays(getToday(), i);
+      const dateStr = toDateKey(date);
       const entry = entries.find(e => e.habitId === habit.id && e.date === dateStr);
       days.push({
         date: format(date, 'MMM dd'),
         timeSpent: entry?.timeSpent || 0,
-        target: habit.targetTime,
+        target: isScheduledDay(habit, date) ? getTargetOn(habit, dateStr) : null,
         status: entry?.status || 'none'
       });
     }
@@ -39,69 +51,125 @@ export const HabitStats: React.FC<HabitStatsProps> = ({ habit, entries, onClose
 
   const journalEntries = useMemo(() => {
     return entries
-      .filter(e => e.habitId === habit.id && e.notes && e.notes.trim() !== '')
+      .filter(e => e.habitId === habit.id && hasJournal(e))
       .sort((a, b) => compareDesc(parseISO(a.date), parseISO(b.date)));
   }, [habit, entries]);
 
-  const completionRate = useMemo(() => {
-    const habitEntries = entries.filter(e => e.habitId === habit.id);
-    if (habitEntries.length === 0) return 0;
-    const done = habitEntries.filter(e => e.status === 'done').length;
-    return Math.round((done / habitEntries.length) * 100);
-  }, [habit, entries]);
+  const completion = useMemo(() => getCompletion(habit, entries, getLifetimeDays(habit, entries)), [habit, entries]);
+  const unitLabel = getUnitLabel(habit);
+  const targetLabel = isLimitHabit(habit) ? 'Limit' : 'Target';
+  const successRuleLabel = SUCCESS_RULES.find(r => r.rule === (habit.successRule ?? 'manual'))?.label;
+
+  const streaks = useMemo(() => calculateStreaks(habit, entries), [habit, entries]);
+
+  const freezesThisMonth = useMemo(() => {
+    const month = getTodayKey().slice(0, 7);
+    return streaks.frozenDays.filter(d => d.startsWith(month)).length;
+  }, [streaks]);
 
   return (
     <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-      <div className="bg-[#E4E3E0] border border-[#141414] w-full max-w-4xl max-h-[90vh] overflow-y-auto shadow-2xl">
-        <div className="flex justify-between items-center p-4 md:p-6 border-b border-[#141414]">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-label={`${habit.name} statistics`} tabIndex={-1} className="bg-paper border border-ink w-full max-w-4xl max-h-[90vh] overflow-y-auto shadow-2xl focus:outline-none">
+        <div className="flex justify-between items-center p-4 md:p-6 border-b border-ink">
           <div>
             <h2 className="text-xl md:text-2xl font-serif italic uppercase tracking-wider">{habit.name}</h2>
             <p className="text-[10px] md:text-xs opacity-60 uppercase mt-1">Performance Analytics</p>
           </div>
-          <button onClick={onClose} className="p-3 md:p-2 hover:bg-[#141414] hover:text-[#E4E3E0] transition-colors active:scale-90">
+          <button onClick={onClose} aria-label="Close" className="p-3 md:p-2 hover:bg-ink hover:text-paper transition-colors active:scale-90">
             <X size={24} className="md:w-5 md:h-5" />
           </button>
         </div>
 
         <div className="p-4 md:p-6 space-y-8">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            <div className="border border-[#141414] p-4">
+            <div className="border border-ink p-4">
               <p className="text-[10px] uppercase opacity-50 font-serif italic">Completion Rate</p>
-              <p className="text-3xl font-mono mt-2">{completionRate}%</p>
+              <p className="text-3xl font-mono mt-2">{Math.round(completion.rate * 100)}%</p>
+              <p className="font-mono text-[9px] uppercase opacity-50 mt-1">
+                {Math.round(completion.credit * 10) / 10}/{completion.expected} days // {successRuleLabel}
+              </p>
             </div>
-            <div className="border border-[#141414] p-4">
-              <p className="text-[10px] uppercase opacity-50 font-serif italic">Target Time</p>
-              <p className="text-3xl font-mono mt-2">{habit.targetTime}m</p>
+            <div className="border border-ink p-4">
+              <p className="text-[10px] uppercase opacity-50 font-serif italic">{isLimitHabit(habit) ? 'Daily Limit' : 'Daily Target'}</p>
+              <p className="text-3xl font-mono mt-2">{formatTarget(habit)}</p>
+              {habit.program && (
+                <p className="font-mono text-[9px] uppercase opacity-50 mt-1">Program: {describeProgram(habit, habit.program)}</p>
+              )}
+              {habit.targetHistory && habit.targetHistory.length > 1 && (
+                <p className="font-mono text-[9px] uppercase opacity-50 mt-1">
+                  {habit.targetHistory.slice(1).reverse().map((change, i, changes) => {
+                    const previous = changes[i + 1]?.targetTime ?? habit.targetHistory![0].targetTime;
+                    return `${formatAmount(habit, previous)} → ${formatAmount(habit, change.targetTime)} on ${format(parseISO(change.from), 'MMM dd, yyyy')}`;
+                  }).join(' // ')}
+                </p>
+              )}
             </div>
-            <div className="border border-[#141414] p-4">
+            <div className="border border-ink p-4">
               <p className="text-[10px] uppercase opacity-50 font-serif italic">Total Entries</p>
               <p className="text-3xl font-mono mt-2">{entries.filter(e => e.habitId === habit.id).length}</p>
             </div>
+            <div className="border border-ink p-4">
+              <p className="text-[10px] uppercase opacity-50 font-serif italic">Current Streak</p>
+              <p className="text-3xl font-mono mt-2 flex items-center gap-2">
+                <Flame size={24} className={streaks.current > 0 ? "text-warn" : "opacity-30"} />
+                {streaks.current}d
+              </p>
+            </div>
+            <div className="border border-ink p-4">
+              <p className="text-[10px] uppercase opacity-50 font-serif italic">Longest Streak</p>
+              <p className="text-3xl font-mono mt-2">{streaks.longest}d</p>
+            </div>
+            <div className="border border-ink p-4">
+              <p className="text-[10px] uppercase opacity-50 font-serif italic">Freezes Used This Month</p>
+              <p className="text-3xl font-mono mt-2">{freezesThisMonth}/{habit.freezeDaysPerMonth ?? 0}</p>
+            </div>
           </div>
 
+          {streaks.history.length > 0 && (
+            <div className="space-y-4">
+              <h3 className="text-xs uppercase font-serif italic opacity-60">Streak History</h3>
+              <div className="space-y-2">
+                {[...streaks.history].reverse().slice(0, 10).map(run => (
+                  <div key={run.start} className="flex items-center gap-4">
+                    <span className="font-mono text-[10px] uppercase opacity-50 w-48 shrink-0">
+                      {format(parseISO(run.start), 'MMM dd')} – {format(parseISO(run.end), 'MMM dd, yyyy')}
+                    </span>
+                    <div className="flex-1 h-3 border border-ink/20">
+                      <div
+                        className="h-full bg-ink"
+                        style={{ width: `${(run.length / streaks.longest) * 100}%` }}
+                      />
+                    </div>
+                    <span className="font-mono text-[10px] w-10 text-right">{run.length}d</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="space-y-4">
-            <h3 className="text-xs uppercase font-serif italic opacity-60">Time Spent vs Target (Last 30 Days)</h3>
-            <div className="h-[250px] md:h-[300px] w-full border border-[#141414] p-2 md:p-4 bg-white/50">
+            <h3 className="text-xs uppercase font-serif italic opacity-60">{unitLabel} vs {targetLabel} (Last 30 Days)</h3>
+            <div className="h-[250px] md:h-[300px] w-full border border-ink p-2 md:p-4 bg-surface/50">
               <ResponsiveContainer width="100%" height="100%">
                 <LineChart data={last30Days}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#141414" opacity={0.1} />
+                  <CartesianGrid strokeDasharray="3 3" stroke="var(--ink)" opacity={0.1} />
                   <XAxis 
                     dataKey="date" 
-                    stroke="#141414" 
+                    stroke="var(--ink)" 
                     fontSize={10} 
                     tickLine={false}
                     axisLine={false}
                   />
                   <YAxis 
-                    stroke="#141414" 
+                    stroke="var(--ink)" 
                     fontSize={10} 
                     tickLine={false}
                     axisLine={false}
                   />
                   <Tooltip 
                     contentStyle={{ 
-                      backgroundColor: '#E4E3E0', 
-                      border: '1px solid #141414',
+                      backgroundColor: 'var(--paper)', 
+                      border: '1px solid var(--ink)',
                       fontFamily: 'monospace',
                       fontSize: '12px'
                     }}
@@ -109,36 +177,46 @@ export const HabitStats: React.FC<HabitStatsProps> = ({ habit, entries, onClose
                   <Line 
                     type="monotone" 
                     dataKey="timeSpent" 
-                    stroke="#141414" 
+                    stroke={habit.color ?? "var(--ink)"} 
                     strokeWidth={2} 
-                    dot={{ r: 3, fill: '#141414' }}
-                    name="Minutes Spent"
+                    dot={{ r: 3, fill: habit.color ?? 'var(--ink)' }}
+                    name={unitLabel}
                   />
                   <Line 
                     type="stepAfter" 
                     dataKey="target" 
-                    stroke="#141414" 
+                    stroke={isLimitHabit(habit) ? "var(--fail)" : "var(--ink)"} 
                     strokeDasharray="5 5" 
-                    opacity={0.3}
+                    opacity={isLimitHabit(habit) ? 0.6 : 0.3}
                     dot={false}
-                    name="Target"
+                    name={targetLabel}
                   />
                 </LineChart>
               </ResponsiveContainer>
             </div>
           </div>
 
+          <Milestones habit={habit} entries={entries} onSaveHabit={onSaveHabit} />
+
           {journalEntries.length > 0 && (
             <div className="space-y-4">
               <h3 className="text-xs uppercase font-serif italic opacity-60">Journal History</h3>
               <div className="space-y-3">
                 {journalEntries.map((entry, idx) => (
-                  <div key={idx} className="border border-[#141414] p-4 bg-white/30">
+                  <div key={idx} className="border border-ink p-4 bg-surface/30">
                     <div className="flex justify-between items-start mb-2">
                       <span className="font-mono text-[10px] uppercase opacity-50">{format(parseISO(entry.date), 'MMMM dd, yyyy')}</span>
-                      <span className="font-mono text-[10px] uppercase px-2 py-0.5 border border-[#141414]">{entry.timeSpent}m</span>
+                      <span className="font-mono text-[10px] uppercase px-2 py-0.5 border border-ink">{formatAmount(habit, entry.timeSpent)}</span>
                     </div>
-                    <p className="font-mono text-xs whitespace-pre-wrap leading-relaxed">{entry.notes}</p>
+                    {formatRatings(entry) && <p className="font-mono text-[10px] uppercase opacity-60 mb-2">{formatRatings(entry)}</p>}
+                    {entry.notes && <p className="font-mono text-xs whitespace-pre-wrap leading-relaxed">{entry.notes}</p>}
+                    {entry.sessions?.filter(s => s.note).map(session => (
+                      <p key={session.id} className="font-mono text-[11px] leading-relaxed mt-2 pl-3 border-l border-ink/30">
+                        <span className="opacity-50">{session.startTime ?? 'Session'} · {formatAmount(habit, session.duration)} — </span>
+                        {session.note}
+                      </p>
+                    ))}
+                    {entry.tags?.length ? <p className="font-mono text-[10px] opacity-60 mt-2">{formatEntryTags(entry.tags)}</p> : null}
                   </div>
                 ))}
               </div>
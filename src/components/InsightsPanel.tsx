@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { addDays, addWeeks, format, parseISO, startOfWeek, subWeeks } from 'date-fns';
+import { ChevronLeft, ChevronRight, Sparkles, X } from 'lucide-react';
+import { Habit, InsightAdjustment, WeeklyInsights } from '../types';
+import { api } from '../lib/api';
+import { formatTarget } from '../lib/measure';
+import { getToday, toDateKey } from '../lib/dates';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface InsightsPanelProps {
+  habits: Habit[];
+  onApplyTarget: (habit: Habit, targetTime: number) => void;
+  onClose: () => void;
+}
+
+const weekStartOf = (date: Date) => toDateKey(startOfWeek(date, { weekStartsOn: 1 }));
+
+const Section: React.FC<{ title: string; items: string[] }> = ({ title, items }) => (
+  <div>
+    <h3 className="text-[10px] uppercase font-serif italic opacity-50 mb-2">{title}</h3>
+    {items.length === 0
+      ? <p className="font-mono text-[11px] opacity-40">Nothing stood out.</p>
+      : (
+        <ul className="border border-ink divide-y divide-ink/10">
+          {items.map((item, i) => <li key={i} className="p-3 font-mono text-[11px]">{item}</li>)}
+        </ul>
+      )}
+  </div>
+);
+
+/**
+ * A coaching read of one week, written by the server's model from the week's
+ * entries and notes. Only generated on request, since each one is a model call.
+ */
+export const InsightsPanel: React.FC<InsightsPanelProps> = ({ habits, onApplyTarget, onClose }) => {
+  const dialogRef = useFocusTrap(onClose);
+  const thisWeek = weekStartOf(getToday());
+  // The last full week is the one worth reading
+  const [weekStart, setWeekStart] = useState(() => weekStartOf(subWeeks(getToday(), 1)));
+  const [insights, setInsights] = useState<WeeklyInsights | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [applied, setApplied] = useState<Set<string>>(new Set());
+
+  const shiftWeek = (weeks: number) => {
+    setWeekStart(weekStartOf(addWeeks(parseISO(weekStart), weeks)));
+    setInsights(null);
+    setError(null);
+  };
+
+  const generate = () => {
+    setLoading(true);
+    setError(null);
+    api.getInsights(weekStart)
+      .then(result => {
+        setInsights(result);
+        setApplied(new Set());
+      }, err => setError(err.message))
+      .finally(() => setLoading(false));
+  };
+
+  const apply = (habit: Habit, adjustment: InsightAdjustment) => {
+    onApplyTarget(habit, adjustment.targetTime!);
+    setApplied(prev => new Set(prev).add(habit.id));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-label="Insights" tabIndex={-1} className="bg-paper border border-ink p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-2xl focus:outline-none">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-serif italic uppercase">Insights</h2>
+            <p className="text-[10px] uppercase font-mono opacity-50 mt-1">A coach's read of your week</p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-3 -mr-2 -mt-2 hover:bg-ink hover:text-paper transition-colors active:scale-90">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 mb-6">
+          <button
+            onClick={() => shiftWeek(-1)}
+            className="p-2 border border-ink hover:bg-ink hover:text-paper transition-all"
+            aria-label="Previous week"
+          >
+            <ChevronLeft size={14} />
+          </button>
+          <span className="flex-1 text-center font-mono text-xs uppercase">
+            {format(parseISO(weekStart), 'MMM dd')} – {format(addDays(parseISO(weekStart), 6), 'MMM dd yyyy')}
+          </span>
+          <button
+            onClick={() => shiftWeek(1)}
+            disabled={weekStart >= thisWeek}
+            className="p-2 border border-ink hover:bg-ink hover:text-paper transition-all disabled:opacity-30 disabled:pointer-events-none"
+            aria-label="Next week"
+          >
+            <ChevronRight size={14} />
+          </button>
+        </div>
+
+        <button
+          onClick={generate}
+          disabled={loading}
+          className="w-full flex items-center justify-center gap-2 border border-ink py-3 mb-6 hover:bg-ink hover:text-paper transition-all font-mono text-xs uppercase active:scale-95 disabled:opacity-50"
+        >
+          <Sparkles size={14} /> {loading ? 'Reading your week…' : insights ? 'Regenerate' : 'Generate Insights'}
+        </button>
+
+        {error && <p className="font-mono text-xs text-fail mb-6">Could not generate insights: {error}</p>}
+
+        {insights && (
+          <div className="space-y-6">
+            <p className="font-serif italic text-sm leading-relaxed">{insights.summary}</p>
+            <Section title="Patterns" items={insights.patterns} />
+            <Section title="Obstacles Mentioned" items={insights.obstacles} />
+
+            <div>
+              <h3 className="text-[10px] uppercase font-serif italic opacity-50 mb-2">Suggested Adjustments</h3>
+              {insights.adjustments.length === 0 && <p className="font-mono text-[11px] opacity-40">Keep going as you are.</p>}
+              <div className="space-y-2">
+                {insights.adjustments.map((adjustment, i) => {
+                  const habit = habits.find(h => h.id === adjustment.habitId);
+                  if (!habit) return null;
+                  const canApply = adjustment.kind === 'targetTime' && adjustment.targetTime !== habit.targetTime;
+                  return (
+                    <div key={i} className="border border-ink p-3">
+                      <div className="flex justify-between items-baseline gap-2 mb-1">
+                        <span className="font-serif italic uppercase text-sm truncate">{habit.name}</span>
+                        {adjustment.kind === 'targetTime' && (
+                          <span className="font-mono text-[10px] uppercase opacity-50 shrink-0">
+                            {formatTarget(habit)} → {formatTarget({ ...habit, targetTime: adjustment.targetTime! })}
+                          </span>
+                        )}
+                      </div>
+                      <p className="font-mono text-[11px]">{adjustment.suggestion}</p>
+                      {canApply && (
+                        <button
+                          onClick={() => apply(habit, adjustment)}
+                          disabled={applied.has(habit.id)}
+                          className="mt-2 border border-ink px-3 py-1 font-mono text-[10px] uppercase hover:bg-ink hover:text-paper transition-all disabled:opacity-40 disabled:pointer-events-none"
+                        >
+                          {applied.has(habit.id) ? 'Applied' : 'Apply from today'}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <p className="font-mono text-[9px] uppercase opacity-40">Generated {format(parseISO(insights.generatedAt), 'MMM dd, HH:mm')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Search, X } from 'lucide-react';
+import { Habit, HabitEntry } from '../types';
+import { formatAmount } from '../lib/measure';
+import { formatEntryTags, formatRatings, getJournalTags, searchJournal } from '../lib/journal';
+import { cn } from '../lib/utils';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface JournalProps {
+  habits: Habit[];
+  entries: HabitEntry[];
+  onOpenEntry: (habitId: string, date: string) => void;
+  onClose: () => void;
+}
+
+// Rendering thousands of notes at once makes typing lag; a narrower search shows the rest
+const MAX_RESULTS = 200;
+
+/** Notes, ratings and tags from every habit, searchable by text and tag. */
+export const Journal: React.FC<JournalProps> = ({ habits, entries, onOpenEntry, onClose }) => {
+  const dialogRef = useFocusTrap(onClose);
+  const [query, setQuery] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+
+  const tags = useMemo(() => getJournalTags(entries), [entries]);
+  const results = useMemo(() => searchJournal(habits, entries, query, selectedTags), [habits, entries, query, selectedTags]);
+
+  const toggleTag = (tag: string) =>
+    setSelectedTags((prev: string[]) => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-label="Journal" tabIndex={-1} className="bg-paper border border-ink w-full max-w-2xl max-h-[90vh] flex flex-col shadow-2xl focus:outline-none">
+        <div className="flex justify-between items-center p-4 md:p-6 border-b border-ink">
+          <div>
+            <h2 className="text-xl md:text-2xl font-serif italic uppercase tracking-wider">Journal</h2>
+            <p className="text-[10px] md:text-xs opacity-60 uppercase mt-1">All Habits // {results.length} days</p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-3 md:p-2 hover:bg-ink hover:text-paper transition-colors active:scale-90">
+            <X size={24} className="md:w-5 md:h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 md:p-6 space-y-3 border-b border-ink">
+          <div className="flex items-center gap-2 border-b border-ink">
+            <Search size={14} className="opacity-50" />
+            <input
+              autoFocus
+              type="search"
+              aria-label="Search the journal"
+              placeholder="Search notes, or #tag"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              className="flex-1 bg-transparent py-2 font-mono text-sm focus:outline-none"
+            />
+          </div>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Tags">
+              {tags.map(({ tag, count }) => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  aria-pressed={selectedTags.includes(tag)}
+                  className={cn(
+                    "px-2 py-0.5 border border-ink font-mono text-[10px] transition-colors",
+                    selectedTags.includes(tag) ? "bg-ink text-paper" : "hover:bg-ink/10"
+                  )}
+                >
+                  #{tag} <span className="opacity-50">{count}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 md:p-6 space-y-3 overflow-y-auto">
+          {results.length === 0 && (
+            <p className="font-mono text-xs opacity-50">
+              {query || selectedTags.length ? 'Nothing matches that search.' : 'Notes, ratings and tags from the Log Progress dialog show up here.'}
+            </p>
+          )}
+          {results.slice(0, MAX_RESULTS).map(({ habit, entry }) => (
+            <button
+              key={`${entry.habitId}|${entry.date}`}
+              onClick={() => onOpenEntry(entry.habitId, entry.date)}
+              className="w-full text-left border border-ink p-4 bg-surface/30 hover:bg-surface/60 transition-colors"
+            >
+              <div className="flex justify-between items-start gap-2 mb-2">
+                <div className="min-w-0">
+                  <span className="font-serif italic uppercase text-sm truncate block">{habit.name}</span>
+                  <span className="font-mono text-[10px] uppercase opacity-50">{format(parseISO(entry.date), 'EEE, MMMM dd, yyyy')}</span>
+                </div>
+                <span className="font-mono text-[10px] uppercase px-2 py-0.5 border border-ink shrink-0">{formatAmount(habit, entry.timeSpent)}</span>
+              </div>
+              {formatRatings(entry) && <p className="font-mono text-[10px] uppercase opacity-60 mb-2">{formatRatings(entry)}</p>}
+              {entry.notes && <p className="font-mono text-xs whitespace-pre-wrap leading-relaxed">{entry.notes}</p>}
+              {entry.sessions?.filter(s => s.note).map(session => (
+                <p key={session.id} className="font-mono text-[11px] leading-relaxed mt-2 pl-3 border-l border-ink/30">
+                  <span className="opacity-50">{session.startTime ?? 'Session'} · {formatAmount(habit, session.duration)} — </span>
+                  {session.note}
+                </p>
+              ))}
+              {entry.tags?.length ? (
+                <p className="font-mono text-[10px] opacity-60 mt-2">{formatEntryTags(entry.tags)}</p>
+              ) : null}
+            </button>
+          ))}
+          {results.length > MAX_RESULTS && (
+            <p className="font-mono text-[10px] uppercase opacity-50">Showing the latest {MAX_RESULTS}; search to narrow it down.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Habit, HabitMeasure, TargetDirection } from '../types';
+import { DIRECTIONS, MEASURES, targetFor } from '../lib/measure';
+import { cn } from '../lib/utils';
+import { getTodayKey } from '../lib/dates';
+
+interface MeasureFieldsProps {
+  habit?: Habit;
+}
+
+const labelClass = 'block text-[10px] uppercase font-serif italic opacity-50 mb-2';
+const inputClass = 'w-full bg-transparent border-b border-ink py-2 font-mono text-lg focus:outline-none focus:border-done transition-colors';
+
+/** Type, direction, unit and target inputs for the habit forms; read back with `parseMeasureForm`. */
+export const MeasureFields: React.FC<MeasureFieldsProps> = ({ habit }) => {
+  const [measure, setMeasure] = useState<HabitMeasure>(habit?.measure ?? 'time');
+  const [direction, setDirection] = useState<TargetDirection>(habit?.direction ?? 'atLeast');
+  // The goal in force today, which a running program may have moved away from the habit's own
+  const currentTarget = habit ? String(targetFor(habit)) : '';
+  const [targetTime, setTargetTime] = useState(currentTarget);
+  const isLimit = direction === 'atMost';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Measure</label>
+          <input type="hidden" name="measure" value={measure} />
+          <div className="grid grid-cols-2 border border-ink">
+            {MEASURES.map(option => (
+              <button
+                key={option.measure}
+                type="button"
+                onClick={() => setMeasure(option.measure)}
+                className={cn(
+                  "py-2 font-mono text-[9px] uppercase border-r last:border-r-0 border-ink transition-colors",
+                  measure === option.measure ? "bg-ink text-paper" : "hover:bg-ink/10"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>Direction</label>
+          <input type="hidden" name="direction" value={direction} />
+          <div className="grid grid-cols-2 border border-ink">
+            {DIRECTIONS.map(option => (
+              <button
+                key={option.direction}
+                type="button"
+                onClick={() => setDirection(option.direction)}
+                className={cn(
+                  "py-2 font-mono text-[9px] uppercase border-r last:border-r-0 border-ink transition-colors",
+                  direction === option.direction ? "bg-ink text-paper" : "hover:bg-ink/10"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className={cn(measure === 'time' && "col-span-2")}>
+          <label className={labelClass}>
+            {isLimit ? 'Daily Limit' : 'Daily Target'} ({measure === 'time' ? 'Minutes' : 'Amount'})
+          </label>
+          <input
+            name="targetTime"
+            type="number"
+            required
+            min={isLimit ? 0 : 1}
+            value={targetTime}
+            onChange={e => setTargetTime(e.target.value)}
+            className={inputClass}
+            placeholder={isLimit ? '1' : '30'}
+          />
+        </div>
+        {measure === 'count' && (
+          <div>
+            <label className={labelClass}>Unit</label>
+            <input
+              name="unit"
+              defaultValue={habit?.unit}
+              className={inputClass}
+              placeholder="GLASSES"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Past days keep the goal they had; a changed goal applies from this date on */}
+      {habit && targetTime !== currentTarget && (
+        <div>
+          <label className={labelClass}>New Goal Applies From</label>
+          <input
+            name="targetFrom"
+            type="date"
+            required
+            defaultValue={getTodayKey()}
+            className={inputClass}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Trash2, Trophy } from 'lucide-react';
+import { Achievement, Habit, HabitEntry, Milestone, MilestoneKind } from '../types';
+import { getTodayKey, parseDateKey } from '../lib/dates';
+import { isTimeHabit } from '../lib/measure';
+import {
+  describeMilestone,
+  formatTotal,
+  getMilestoneProgress,
+  MILESTONE_KINDS,
+  MILESTONE_STATUS_LABELS,
+  MilestoneProgress,
+  newMilestoneId,
+} from '../lib/milestones';
+import { cn } from '../lib/utils';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface MilestonesProps {
+  habit: Habit;
+  entries: HabitEntry[];
+  onSaveHabit: (habit: Habit, label: string) => void;
+}
+
+const labelClass = 'block text-[10px] uppercase font-serif italic opacity-50 mb-2';
+const inputClass = 'w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors';
+
+const formatDay = (date: string) => format(parseDateKey(date), 'MMM dd, yyyy');
+
+/** `40h / 100h` or `12 / 30 days`. */
+export const formatMilestoneCount = (habit: Habit, { milestone, current }: MilestoneProgress) =>
+  milestone.kind === 'total'
+    ? `${formatTotal(habit, current)} / ${formatTotal(habit, milestone.target)}`
+    : `${current} / ${milestone.target} days`;
+
+// `On track // by Dec 31, 2026 // at this pace Nov 20, 2026`, or the day it was reached
+function describeStatus({ status, reachedOn, milestone, projectedDate }: MilestoneProgress): string {
+  if (reachedOn) return `Reached on ${formatDay(reachedOn)}`;
+  const parts = [MILESTONE_STATUS_LABELS[status], `by ${formatDay(milestone.deadline)}`];
+  if (projectedDate) parts.push(`at this pace ${formatDay(projectedDate)}`);
+  else if (status === 'behind') parts.push('nothing logged lately');
+  return parts.join(' // ');
+}
+
+const STATUS_COLORS: Record<MilestoneProgress['status'], string> = {
+  upcoming: 'bg-ink/40',
+  onTrack: 'bg-done',
+  behind: 'bg-warn',
+  reached: 'bg-done',
+  missed: 'bg-fail',
+};
+
+export const MilestoneBar: React.FC<{ progress: MilestoneProgress; className?: string }> = ({ progress, className }) => (
+  <div
+    className={cn("h-1.5 border border-ink/30", className)}
+    role="progressbar"
+    aria-valuemin={0}
+    aria-valuemax={100}
+    aria-valuenow={Math.round(progress.fraction * 100)}
+  >
+    <div className={cn("h-full", STATUS_COLORS[progress.status])} style={{ width: `${progress.fraction * 100}%` }} />
+  </div>
+);
+
+// Totals for time habits are entered in hours, everything else as stored
+const usesHours = (habit: Habit, kind: MilestoneKind) => kind === 'total' && isTimeHabit(habit);
+
+/** A habit's long-term milestones with their progress and projections, and the achievements they left behind. */
+export const Milestones: React.FC<MilestonesProps> = ({ habit, entries, onSaveHabit }) => {
+  const [kind, setKind] = useState<MilestoneKind>('total');
+  const [target, setTarget] = useState('');
+  const [startDate, setStartDate] = useState(getTodayKey());
+  const [deadline, setDeadline] = useState(`${getTodayKey().slice(0, 4)}-12-31`);
+
+  const progress = useMemo(
+    () => (habit.milestones ?? []).map(milestone => getMilestoneProgress(habit, milestone, entries)),
+    [habit, entries]
+  );
+
+  const addMilestone = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(target);
+    if (!(amount > 0) || !startDate || !deadline || deadline < startDate) return;
+    const milestone: Milestone = {
+      id: newMilestoneId(),
+      kind,
+      target: Math.round(usesHours(habit, kind) ? amount * 60 : amount),
+      startDate,
+      deadline,
+    };
+    onSaveHabit({ ...habit, milestones: [...(habit.milestones ?? []), milestone] }, `Added a milestone to ${habit.name}`);
+    setTarget('');
+  };
+
+  const removeMilestone = (id: string) => {
+    const milestones = (habit.milestones ?? []).filter(m => m.id !== id);
+    onSaveHabit({ ...habit, milestones: milestones.length ? milestones : undefined }, `Removed a milestone from ${habit.name}`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-xs uppercase font-serif italic opacity-60">Milestones</h3>
+
+      {progress.length > 0 && (
+        <div className="border border-ink divide-y divide-ink/10">
+          {progress.map(item => (
+            <div key={item.milestone.id} className="p-3 space-y-2">
+              <div className="flex items-baseline gap-3">
+                <span className="font-serif italic uppercase text-sm flex-1">{describeMilestone(habit, item.milestone)}</span>
+                <span className="font-mono text-xs">{formatMilestoneCount(habit, item)}</span>
+                <button
+                  onClick={() => removeMilestone(item.milestone.id)}
+                  className="p-1 opacity-40 hover:opacity-100 hover:text-fail transition-all"
+                  aria-label={`Remove milestone ${describeMilestone(habit, item.milestone)}`}
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              <MilestoneBar progress={item} />
+              <p className="font-mono text-[9px] uppercase opacity-60">{describeStatus(item)}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={addMilestone} className="border border-ink p-4 space-y-4">
+        <div className="grid grid-cols-3 border border-ink" role="group" aria-label="Milestone Kind">
+          {MILESTONE_KINDS.map(option => (
+            <button
+              key={option.kind}
+              type="button"
+              onClick={() => setKind(option.kind)}
+              aria-pressed={kind === option.kind}
+              className={cn(
+                "py-2 font-mono text-[9px] uppercase border-r last:border-r-0 border-ink transition-colors",
+                kind === option.kind ? "bg-ink text-paper" : "hover:bg-ink/10"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="milestone-target" className={labelClass}>
+              {usesHours(habit, kind) ? 'Hours' : kind === 'total' ? habit.unit || 'Times' : kind === 'streak' ? 'Days in a Row' : 'Days'}
+            </label>
+            <input
+              id="milestone-target"
+              type="number"
+              min={usesHours(habit, kind) ? 0.5 : 1}
+              step={usesHours(habit, kind) ? 0.5 : 1}
+              required
+              value={target}
+              onChange={e => setTarget(e.target.value)}
+              placeholder={usesHours(habit, kind) ? '100' : '30'}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="milestone-start" className={labelClass}>Counting From</label>
+            <input id="milestone-start" type="date" required value={startDate} onChange={e => setStartDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="milestone-deadline" className={labelClass}>Deadline</label>
+            <input id="milestone-deadline" type="date" required min={startDate} value={deadline} onChange={e => setDeadline(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+        <button
+          type="submit"
+          className="w-full border border-ink py-2 font-mono text-[10px] uppercase hover:bg-ink hover:text-paper transition-all"
+        >
+          Add Milestone
+        </button>
+      </form>
+
+      {habit.achievements?.length ? (
+        <div className="space-y-2">
+          <h3 className="text-xs uppercase font-serif italic opacity-60">Achievements</h3>
+          <ul className="space-y-1">
+            {[...habit.achievements].reverse().map(achievement => (
+              <li key={achievement.milestoneId} className="flex items-center gap-2 font-mono text-xs">
+                <Trophy size={12} className="text-warn shrink-0" aria-hidden />
+                <span className="flex-1">{describeMilestone(habit, achievement)}</span>
+                <span className="text-[10px] opacity-50">{formatDay(achievement.achievedAt)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export interface Celebration {
+  habit: Habit;
+  achievement: Achievement;
+}
+
+/** Shown as a milestone is reached; the achievement is already on record by then. */
+export const MilestoneCelebration: React.FC<{ celebration: Celebration; onClose: () => void }> = ({ celebration, onClose }) => {
+  const dialogRef = useFocusTrap(onClose);
+  const { habit, achievement } = celebration;
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div ref={dialogRef} role="alertdialog" aria-modal="true" aria-label="Milestone reached" tabIndex={-1} className="bg-paper border border-ink p-8 w-full max-w-sm shadow-2xl text-center focus:outline-none">
+        <Trophy size={48} className="mx-auto text-warn animate-bounce" aria-hidden />
+        <h2 className="text-2xl font-serif italic uppercase mt-4">Milestone Reached</h2>
+        <p className="font-mono text-sm mt-4">{habit.name}: {describeMilestone(habit, achievement)}</p>
+        <p className="font-mono text-[10px] uppercase opacity-50 mt-1">{formatDay(achievement.achievedAt)}</p>
+        <button
+          onClick={onClose}
+          className="w-full mt-6 bg-ink text-paper py-3 font-mono text-xs uppercase hover:opacity-90 transition-opacity"
+        >
+          Keep Going
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceDot, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Habit } from '../types';
+import { getTodayKey } from '../lib/dates';
+import { getRampPreview, parseProgramDraft, PROGRAM_TEMPLATES, ProgramDraft, ProgramSettings, RAMP_KINDS } from '../lib/programs';
+import { DEFAULT_DELOAD_PERCENT } from '../lib/targets';
+import { cn } from '../lib/utils';
+
+interface ProgramFieldsProps {
+  habit?: Habit;
+}
+
+const labelClass = 'block text-[10px] uppercase font-serif italic opacity-50 mb-2';
+const inputClass = 'w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors';
+
+const toDraft = (program: ProgramSettings, startDate: string): ProgramDraft => ({
+  startDate,
+  start: String(program.start),
+  ramp: program.ramp,
+  increase: String(program.increase),
+  everyWeeks: String(program.everyWeeks),
+  cap: String(program.cap),
+  deloadEvery: program.deloadEvery ? String(program.deloadEvery) : '',
+  deloadPercent: String(program.deloadPercent ?? DEFAULT_DELOAD_PERCENT),
+});
+
+/**
+ * Controlled inputs for a goal that ramps over the weeks, with templates to
+ * start from and a preview of the ramp; read back with `parseProgramForm`.
+ */
+export const ProgramFields: React.FC<ProgramFieldsProps> = ({ habit }) => {
+  const program = habit?.program && !habit.program.endDate ? habit.program : undefined;
+  const [enabled, setEnabled] = useState(!!program);
+  const [draft, setDraft] = useState<ProgramDraft>(() => program
+    ? toDraft(program, program.startDate)
+    : toDraft({ ...PROGRAM_TEMPLATES[0].program, start: habit?.targetTime ?? PROGRAM_TEMPLATES[0].program.start }, getTodayKey()));
+  const preview = parseProgramDraft(draft);
+  const points = preview ? getRampPreview(preview) : [];
+
+  const update = (changes: Partial<ProgramDraft>) => setDraft((prev: ProgramDraft) => ({ ...prev, ...changes }));
+
+  const field = (name: keyof ProgramDraft, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <div>
+      <label htmlFor={`program-${name}`} className={labelClass}>{label}</label>
+      <input
+        id={`program-${name}`}
+        name={`program${name[0].toUpperCase()}${name.slice(1)}`}
+        type="number"
+        value={draft[name]}
+        onChange={e => update({ [name]: e.target.value })}
+        className={inputClass}
+        {...props}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          name="programEnabled"
+          checked={enabled}
+          onChange={e => setEnabled(e.target.checked)}
+          className="accent-ink"
+        />
+        <span className="text-[10px] uppercase font-serif italic opacity-70">Ramp the goal over time</span>
+      </label>
+      {habit?.program?.endDate && !enabled && (
+        <p className="font-mono text-[10px] opacity-50">The last program ended on {habit.program.endDate} when the goal was set by hand.</p>
+      )}
+
+      {program && enabled && (
+        <p className="font-mono text-[10px] opacity-50">Changing the daily goal above ends this program and keeps the goal you type.</p>
+      )}
+
+      {enabled && (
+        <div className="space-y-4 border border-ink p-4">
+          <div>
+            <label className={labelClass}>Start From a Template</label>
+            <div className="grid grid-cols-2 gap-1">
+              {PROGRAM_TEMPLATES.map(template => (
+                <button
+                  key={template.id}
+                  type="button"
+                  onClick={() => update(toDraft(template.program, draft.startDate))}
+                  title={template.description}
+                  className="py-2 px-1 border border-ink font-mono text-[9px] uppercase hover:bg-ink hover:text-paper transition-colors"
+                >
+                  {template.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Ramp</label>
+            <input type="hidden" name="programRamp" value={draft.ramp} />
+            <div className="grid grid-cols-2 border border-ink">
+              {RAMP_KINDS.map(option => (
+                <button
+                  key={option.ramp}
+                  type="button"
+                  onClick={() => update({ ramp: option.ramp })}
+                  className={cn(
+                    "py-2 font-mono text-[9px] uppercase border-r last:border-r-0 border-ink transition-colors",
+                    draft.ramp === option.ramp ? "bg-ink text-paper" : "hover:bg-ink/10"
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="program-startDate" className={labelClass}>Week One Starts</label>
+              <input
+                id="program-startDate"
+                name="programStartDate"
+                type="date"
+                required
+                value={draft.startDate}
+                onChange={e => update({ startDate: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            {field('start', 'Starting Goal', { min: 0, required: true })}
+            {field('increase', 'Change per Period', { required: true })}
+            {field('everyWeeks', 'Weeks per Period', { min: 1, required: true })}
+            {field('cap', 'Stop At', { min: 0, required: true })}
+            {field('deloadEvery', 'Easy Week Every (blank for none)', { min: 2, placeholder: '4' })}
+            {draft.deloadEvery && field('deloadPercent', 'Easy Week Goal %', { min: 1, max: 100 })}
+          </div>
+
+          {points.length > 0 && (
+            <div>
+              <label className={labelClass}>Preview</label>
+              <div className="h-[140px] w-full border border-ink p-2 bg-surface/50">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={points}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="var(--ink)" opacity={0.1} />
+                    <XAxis dataKey="label" stroke="var(--ink)" fontSize={9} tickLine={false} axisLine={false} interval="preserveStartEnd" />
+                    <YAxis stroke="var(--ink)" fontSize={9} tickLine={false} axisLine={false} width={28} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: 'var(--paper)', border: '1px solid var(--ink)', fontFamily: 'monospace', fontSize: '11px' }}
+                      labelFormatter={label => {
+                        const point = points.find(p => p.label === label);
+                        return point ? `${label} (from ${point.date})` : label;
+                      }}
+                    />
+                    <Line type={draft.ramp === 'step' ? 'stepAfter' : 'linear'} dataKey="target" stroke="var(--ink)" strokeWidth={2} dot={false} name="Goal" />
+                    {points.filter(p => p.deload).map(p => (
+                      <ReferenceDot key={p.week} x={p.label} y={p.target} r={3} fill="var(--paper)" stroke="var(--ink)" />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              {points.some(p => p.deload) && <p className="font-mono text-[9px] uppercase opacity-50 mt-1">Open dots are easy weeks</p>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React from 'react';
+import { Bell, BellOff, X } from 'lucide-react';
+import { Habit } from '../types';
+import { ReminderSettings as Settings } from '../lib/reminders';
+import { describeSchedule } from '../lib/schedule';
+import { cn } from '../lib/utils';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface ReminderSettingsProps {
+  habits: Habit[]; // active habits only
+  settings: Settings;
+  permission: NotificationPermission | 'unsupported';
+  onEnable: () => void;
+  onUpdateSettings: (changes: Partial<Settings>) => void;
+  onSendTest: () => void;
+  onSetReminder: (habit: Habit, time: string | undefined) => void;
+  onClose: () => void;
+}
+
+const PERMISSION_NOTES: Record<NotificationPermission | 'unsupported', string | null> = {
+  granted: null,
+  default: 'Your browser will ask for permission to show notifications.',
+  denied: 'Notifications are blocked for this site. Allow them in your browser settings to get reminders.',
+  unsupported: 'This browser does not support notifications.',
+};
+
+/** Reminder times per habit, plus quiet hours and the daily summary for this device. */
+export const ReminderSettings: React.FC<ReminderSettingsProps> = ({
+  habits,
+  settings,
+  permission,
+  onEnable,
+  onUpdateSettings,
+  onSendTest,
+  onSetReminder,
+  onClose,
+}) => {
+  const dialogRef = useFocusTrap(onClose);
+  const isOn = settings.enabled && permission === 'granted';
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-label="Reminders" tabIndex={-1} className="bg-paper border border-ink p-8 w-full max-w-md max-h-[90vh] overflow-y-auto shadow-2xl focus:outline-none">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-serif italic uppercase">Reminders</h2>
+            <p className="text-[10px] uppercase font-mono opacity-50 mt-1">Only for habits not yet logged today</p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-3 -mr-2 -mt-2 hover:bg-ink hover:text-paper transition-colors active:scale-90">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div>
+            <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Notifications on this device</label>
+            <div className="flex border border-ink">
+              <button
+                type="button"
+                onClick={onEnable}
+                disabled={permission === 'denied' || permission === 'unsupported'}
+                className={cn(
+                  "flex-1 flex items-center justify-center gap-2 py-2 font-mono text-[10px] uppercase border-r border-ink transition-all disabled:opacity-30",
+                  isOn ? "bg-ink text-paper" : "hover:bg-ink/10"
+                )}
+              >
+                <Bell size={12} /> On
+              </button>
+              <button
+                type="button"
+                onClick={() => onUpdateSettings({ enabled: false })}
+                className={cn(
+                  "flex-1 flex items-center justify-center gap-2 py-2 font-mono text-[10px] uppercase transition-all",
+                  !isOn ? "bg-ink text-paper" : "hover:bg-ink/10"
+                )}
+              >
+                <BellOff size={12} /> Off
+              </button>
+            </div>
+            {PERMISSION_NOTES[permission] && (
+              <p className="font-mono text-[10px] opacity-60 mt-2">{PERMISSION_NOTES[permission]}</p>
+            )}
+            {isOn && (
+              <button type="button" onClick={onSendTest} className="font-mono text-[10px] uppercase underline underline-offset-2 opacity-60 hover:opacity-100 mt-2">
+                Send a test notification
+              </button>
+            )}
+            <p className="font-mono text-[10px] opacity-50 mt-2">
+              Reminders only arrive while HabitGrid is open in a tab, even one in the background. With every tab closed, or the browser quit, none are sent.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Quiet From</label>
+              <input
+                type="time"
+                value={settings.quietStart ?? ''}
+                onChange={e => onUpdateSettings({ quietStart: e.target.value || undefined })}
+                className="w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors"
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Quiet Until</label>
+              <input
+                type="time"
+                value={settings.quietEnd ?? ''}
+                onChange={e => onUpdateSettings({ quietEnd: e.target.value || undefined })}
+                className="w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Daily Summary (blank for none)</label>
+            <input
+              type="time"
+              value={settings.summaryTime ?? ''}
+              onChange={e => onUpdateSettings({ summaryTime: e.target.value || undefined })}
+              className="w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors"
+            />
+          </div>
+
+          <div>
+            <label className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">Remind Me At</label>
+            {habits.length === 0 ? (
+              <p className="font-mono text-xs opacity-50">No habits yet.</p>
+            ) : (
+              <div className="border border-ink divide-y divide-ink/10">
+                {habits.map(habit => (
+                  <div key={habit.id} className="flex items-center gap-3 p-3">
+                    <div className="flex-1 min-w-0">
+                      <span className="font-serif italic uppercase text-sm block truncate">{habit.name}</span>
+                      <span className="font-mono text-[9px] uppercase opacity-50">{describeSchedule(habit.schedule)}</span>
+                    </div>
+                    <input
+                      type="time"
+                      value={habit.reminderTime ?? ''}
+                      onChange={e => onSetReminder(habit, e.target.value || undefined)}
+                      className="bg-transparent border-b border-ink py-1 font-mono text-xs focus:outline-none focus:border-done transition-colors"
+                      aria-label={`Reminder time for ${habit.name}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { HabitSchedule, ScheduleFrequency } from '../types';
+import { WEEKDAY_LABELS } from '../lib/schedule';
+import { cn } from '../lib/utils';
+
+interface ScheduleFieldsProps {
+  schedule?: HabitSchedule;
+}
+
+const FREQUENCY_OPTIONS: { kind: ScheduleFrequency['kind']; label: string }[] = [
+  { kind: 'daily', label: 'Daily' },
+  { kind: 'weekdays', label: 'Weekdays' },
+  { kind: 'perPeriod', label: 'X Times' },
+  { kind: 'interval', label: 'Every N Days' },
+];
+
+const labelClass = 'block text-[10px] uppercase font-serif italic opacity-50 mb-2';
+const inputClass = 'w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors';
+
+/** Uncontrolled schedule inputs for the habit forms; read back with `parseScheduleForm`. */
+export const ScheduleFields: React.FC<ScheduleFieldsProps> = ({ schedule }) => {
+  const frequency = schedule?.frequency;
+  const [kind, setKind] = useState<ScheduleFrequency['kind']>(frequency?.kind ?? 'daily');
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={labelClass}>Schedule</label>
+        <input type="hidden" name="frequency" value={kind} />
+        <div className="grid grid-cols-4 border border-ink">
+          {FREQUENCY_OPTIONS.map(option => (
+            <button
+              key={option.kind}
+              type="button"
+              onClick={() => setKind(option.kind)}
+              className={cn(
+                "py-2 font-mono text-[9px] uppercase border-r last:border-r-0 border-ink transition-colors",
+                kind === option.kind ? "bg-ink text-paper" : "hover:bg-ink/10"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {kind === 'weekdays' && (
+        <div className="grid grid-cols-7 gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <label key={label} className="relative cursor-pointer">
+              <input
+                type="checkbox"
+                name="weekday"
+                value={day}
+                defaultChecked={frequency?.kind === 'weekdays' ? frequency.days.includes(day) : day > 0 && day < 6}
+                className="peer sr-only"
+              />
+              <span className="block text-center py-2 border border-ink font-mono text-[9px] uppercase peer-checked:bg-ink peer-checked:text-paper transition-colors">
+                {label}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {kind === 'perPeriod' && (
+        <div className="flex items-end gap-4">
+          <input
+            name="count"
+            type="number"
+            min={1}
+            required
+            defaultValue={frequency?.kind === 'perPeriod' ? frequency.count : 3}
+            className={inputClass}
+          />
+          <span className="font-mono text-xs uppercase pb-2">times per</span>
+          <select
+            name="period"
+            defaultValue={frequency?.kind === 'perPeriod' ? frequency.period : 'week'}
+            className={inputClass}
+          >
+            <option value="week">Week</option>
+            <option value="month">Month</option>
+          </select>
+        </div>
+      )}
+
+      {kind === 'interval' && (
+        <div className="flex items-end gap-4">
+          <span className="font-mono text-xs uppercase pb-2">Every</span>
+          <input
+            name="every"
+            type="number"
+            min={1}
+            required
+            defaultValue={frequency?.kind === 'interval' ? frequency.every : 2}
+            className={inputClass}
+          />
+          <span className="font-mono text-xs uppercase pb-2">days</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Starts</label>
+          <input name="startDate" type="date" defaultValue={schedule?.startDate} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Ends</label>
+          <input name="endDate" type="date" defaultValue={schedule?.endDate} className={inputClass} />
+        </div>
+      </div>
+    </div>
+  );
+};
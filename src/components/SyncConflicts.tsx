@@ -0,0 +1,98 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { X } from 'lucide-react';
+import { Habit, HabitEntry, SyncConflict } from '../types';
+import { formatAmount } from '../lib/measure';
+import { getSessions } from '../lib/sessions';
+import { formatEntryTags } from '../lib/journal';
+import { ENTRY_FIELD_LABELS, EntryField, mergeEntries } from '../lib/sync';
+import { cn } from '../lib/utils';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface SyncConflictsProps {
+  conflicts: SyncConflict[];
+  habits: Habit[];
+  onResolve: (conflict: SyncConflict, keep: 'mine' | 'theirs') => void;
+  onClose: () => void;
+}
+
+const EntrySide: React.FC<{ title: string; entry: HabitEntry | null; habit?: Habit; fields: EntryField[] }> = ({ title, entry, habit, fields }) => {
+  const rows: { field: EntryField; value: string }[] = entry
+    ? [
+        { field: 'status', value: entry.status === 'none' ? 'logged' : entry.status },
+        { field: 'timeSpent', value: habit ? formatAmount(habit, entry.timeSpent) : String(entry.timeSpent) },
+        { field: 'sessions', value: String(getSessions(entry).length) },
+        { field: 'notes', value: entry.notes || '—' },
+        // Ratings and tags only when there is something to compare
+        ...(entry.mood || fields.includes('mood') ? [{ field: 'mood' as const, value: entry.mood ? `${entry.mood}/5` : '—' }] : []),
+        ...(entry.energy || fields.includes('energy') ? [{ field: 'energy' as const, value: entry.energy ? `${entry.energy}/5` : '—' }] : []),
+        ...(entry.tags?.length || fields.includes('tags') ? [{ field: 'tags' as const, value: formatEntryTags(entry.tags) || '—' }] : []),
+      ]
+    : [];
+  return (
+    <div className="flex-1 min-w-0 p-3">
+      <span className="block text-[10px] uppercase font-serif italic opacity-50 mb-2">{title}</span>
+      {!entry && <span className="font-mono text-[11px]">Cleared</span>}
+      {rows.map(({ field, value }) => (
+        <div key={field} className={cn("font-mono text-[11px] break-words", fields.includes(field) ? "text-fail" : "opacity-60")}>
+          <span className="uppercase text-[9px] opacity-70">{ENTRY_FIELD_LABELS[field]}:</span> {value}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/** Days changed on this device and another since they last synced, one side to keep for each. */
+export const SyncConflicts: React.FC<SyncConflictsProps> = ({ conflicts, habits, onResolve, onClose }) => {
+  const dialogRef = useFocusTrap(onClose);
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-label="Sync Conflicts" tabIndex={-1} className="bg-paper border border-ink p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-2xl focus:outline-none">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-serif italic uppercase">Sync Conflicts</h2>
+            <p className="text-[10px] uppercase font-mono opacity-50 mt-1">Changed here and on another device</p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-3 -mr-2 -mt-2 hover:bg-ink hover:text-paper transition-colors active:scale-90">
+            <X size={24} />
+          </button>
+        </div>
+
+        {conflicts.length === 0 && <p className="font-mono text-xs opacity-50">Everything is in sync.</p>}
+
+        <div className="space-y-4">
+          {conflicts.map(conflict => {
+            const habit = habits.find(h => h.id === conflict.habitId);
+            const { conflicts: fields } = mergeEntries(conflict.base, conflict.mine, conflict.theirs);
+            return (
+              <div key={`${conflict.habitId}|${conflict.date}`} className="border border-ink">
+                <div className="px-3 py-2 border-b border-ink flex justify-between items-baseline gap-2">
+                  <span className="font-serif italic uppercase text-sm truncate">{habit?.name ?? 'Deleted habit'}</span>
+                  <span className="font-mono text-[10px] uppercase opacity-50 shrink-0">{format(parseISO(conflict.date), 'EEE, MMM dd')}</span>
+                </div>
+                <div className="flex divide-x divide-ink/10">
+                  <EntrySide title="This device" entry={conflict.mine} habit={habit} fields={fields} />
+                  <EntrySide title="Other device" entry={conflict.theirs} habit={habit} fields={fields} />
+                </div>
+                <div className="flex border-t border-ink">
+                  <button
+                    onClick={() => onResolve(conflict, 'mine')}
+                    className="flex-1 py-2 font-mono text-[10px] uppercase border-r border-ink hover:bg-ink hover:text-paper transition-all"
+                  >
+                    Keep this device's
+                  </button>
+                  <button
+                    onClick={() => onResolve(conflict, 'theirs')}
+                    className="flex-1 py-2 font-mono text-[10px] uppercase hover:bg-ink hover:text-paper transition-all"
+                  >
+                    Keep other device's
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,456 @@
+import React, { useEffect, useState } from 'react';
+import { differenceInCalendarDays, eachDayOfInterval, format, parseISO, subDays } from 'date-fns';
+import { ChevronLeft, Flame, LogOut, Trophy, Users, X } from 'lucide-react';
+import { Challenge, Habit, HabitEntry, HabitMeasure, Team, TeamDetail, TeamMember, User } from '../types';
+import { api } from '../lib/api';
+import { CELL_BACKGROUNDS, describeCell, getCellState, getCellStyle } from '../lib/cells';
+import { getChallengeEnd } from '../lib/challenges';
+import { formatGoal } from '../lib/measure';
+import { calculateStreaks } from '../lib/streaks';
+import { isArchived } from '../lib/groups';
+import { cn } from '../lib/utils';
+import { getToday, getTodayKey, toDateKey } from '../lib/dates';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { CellStatusIcon } from './CellStatusIcon';
+
+interface TeamsPanelProps {
+  user: User | null;
+  habits: Habit[];
+  onUserChange: (user: User | null) => void;
+  onClose: () => void;
+}
+
+// Days of each teammate's habit shown in their strip
+const GRID_DAYS = 14;
+
+const labelClass = 'block text-[10px] uppercase font-serif italic opacity-50 mb-2';
+const inputClass = 'w-full bg-transparent border-b border-ink py-2 font-mono text-sm focus:outline-none focus:border-done transition-colors';
+const buttonClass = 'flex items-center justify-center gap-2 border border-ink px-4 py-2 hover:bg-ink hover:text-paper transition-all font-mono text-xs uppercase active:scale-95 disabled:opacity-50';
+
+const formatChallengeAmount = (measure: HabitMeasure, amount: number) => measure === 'time' ? `${amount}m` : `${amount}×`;
+
+const AuthForm: React.FC<{ onUserChange: (user: User) => void }> = ({ onUserChange }) => {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const email = formData.get('email') as string;
+    const password = formData.get('password') as string;
+    const keepDeviceData = formData.get('keepDeviceData') === 'on';
+    setBusy(true);
+    setError(null);
+    (mode === 'login'
+      ? api.login(email, password, keepDeviceData)
+      : api.register(formData.get('name') as string, email, password, keepDeviceData))
+      .then(onUserChange, err => setError(err.message))
+      .finally(() => setBusy(false));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <p className="font-mono text-[11px] opacity-60">
+        Sign in to keep your grid in an account and share habits with a team.
+      </p>
+      {mode === 'register' && (
+        <div>
+          <label htmlFor="auth-name" className={labelClass}>Name</label>
+          <input id="auth-name" name="name" required autoComplete="name" className={inputClass} />
+        </div>
+      )}
+      <div>
+        <label htmlFor="auth-email" className={labelClass}>Email</label>
+        <input id="auth-email" name="email" type="email" required autoComplete="email" className={inputClass} />
+      </div>
+      <div>
+        <label htmlFor="auth-password" className={labelClass}>Password</label>
+        <input
+          id="auth-password"
+          name="password"
+          type="password"
+          required
+          minLength={mode === 'register' ? 8 : undefined}
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          className={inputClass}
+        />
+      </div>
+      <label className="flex items-start gap-2 font-mono text-[11px] cursor-pointer">
+        <input type="checkbox" name="keepDeviceData" className="mt-0.5 accent-ink" />
+        <span>
+          Bring this device's habits into the account
+          <span className="block opacity-50">Otherwise they stay on this device, and you see only the account's habits.</span>
+        </span>
+      </label>
+      {error && <p className="font-mono text-xs text-fail">{error}</p>}
+      <button type="submit" disabled={busy} className={cn(buttonClass, 'w-full py-3')}>
+        {mode === 'login' ? 'Sign In' : 'Create Account'}
+      </button>
+      <button
+        type="button"
+        onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }}
+        className="w-full font-mono text-[10px] uppercase opacity-50 hover:opacity-100 underline"
+      >
+        {mode === 'login' ? 'New here? Create an account' : 'Have an account? Sign in'}
+      </button>
+    </form>
+  );
+};
+
+// A teammate's shared habits, read-only: the last two weeks and their streaks
+const MemberGrid: React.FC<{ member: TeamMember }> = ({ member }) => {
+  const today = getToday();
+  const days = eachDayOfInterval({ start: subDays(today, GRID_DAYS - 1), end: today });
+  const entryIndex = new Map<string, HabitEntry>(member.entries.map(e => [`${e.habitId}|${e.date}`, e]));
+
+  return (
+    <div className="border border-ink p-3 space-y-3">
+      <h4 className="font-serif italic text-sm">{member.name}</h4>
+      {member.habits.length === 0 && <p className="font-mono text-[11px] opacity-40">Nothing shared yet.</p>}
+      {member.habits.map(habit => {
+        const streaks = calculateStreaks(habit, member.entries);
+        return (
+          <div key={habit.id}>
+            <div className="flex justify-between items-baseline font-mono text-[10px] uppercase mb-1">
+              <span className="font-bold">{habit.name} <span className="opacity-50 font-normal">{formatGoal(habit)}</span></span>
+              <span className="flex items-center gap-1 opacity-70" title={`Longest streak: ${streaks.longest}`}>
+                <Flame size={10} /> {streaks.current} <span className="opacity-50">/ best {streaks.longest}</span>
+              </span>
+            </div>
+            <div className="grid gap-px" style={{ gridTemplateColumns: `repeat(${GRID_DAYS}, minmax(0, 1fr))` }}>
+              {days.map(day => {
+                const entry = entryIndex.get(`${habit.id}|${toDateKey(day)}`);
+                const state = getCellState(habit, day, entry, member.entries);
+                const label = describeCell(habit, day, entry, state);
+                return (
+                  <div
+                    key={day.toISOString()}
+                    role="img"
+                    aria-label={label}
+                    title={label}
+                    className={cn('h-6 border border-ink/20 flex items-center justify-center', CELL_BACKGROUNDS[state])}
+                    style={getCellStyle(habit, state)}
+                  >
+                    <CellStatusIcon state={state} size={8} />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const ChallengeCard: React.FC<{ challenge: Challenge; user: User; habits: Habit[]; onJoin: (habitId: string) => void }> = ({
+  challenge, user, habits, onJoin,
+}) => {
+  const today = getTodayKey();
+  const end = getChallengeEnd(challenge);
+  const joined = challenge.leaderboard.some(row => row.userId === user.id);
+  const eligible = habits.filter(h => (h.measure ?? 'time') === challenge.measure);
+  const [habitId, setHabitId] = useState(eligible[0]?.id ?? '');
+  const status = today < challenge.startDate
+    ? `Starts ${format(parseISO(challenge.startDate), 'MMM d')}`
+    : today > end
+      ? `Ended ${format(parseISO(end), 'MMM d')}`
+      : `Day ${differenceInCalendarDays(parseISO(today), parseISO(challenge.startDate)) + 1} of ${challenge.days}`;
+
+  return (
+    <div className="border border-ink p-3 space-y-3">
+      <div className="flex justify-between items-baseline gap-2">
+        <h4 className="font-serif italic text-sm">{challenge.name}</h4>
+        <span className="font-mono text-[10px] uppercase opacity-50 shrink-0">{status}</span>
+      </div>
+      <p className="font-mono text-[10px] uppercase opacity-60">
+        {formatChallengeAmount(challenge.measure, challenge.target)} a day for {challenge.days} days
+      </p>
+      {challenge.leaderboard.length === 0
+        ? <p className="font-mono text-[11px] opacity-40">Nobody has joined yet.</p>
+        : (
+          <table className="w-full font-mono text-[11px]">
+            <thead>
+              <tr className="text-[9px] uppercase opacity-50 text-left">
+                <th className="font-normal py-1">#</th>
+                <th className="font-normal py-1">Member</th>
+                <th className="font-normal py-1 text-right">Days met</th>
+                <th className="font-normal py-1 text-right">Total</th>
+                <th className="font-normal py-1 text-right">Streak</th>
+              </tr>
+            </thead>
+            <tbody>
+              {challenge.leaderboard.map((row, i) => (
+                <tr key={row.userId} className={cn('border-t border-ink/10', row.userId === user.id && 'font-bold')}>
+                  <td className="py-1">{i === 0 && row.daysMet > 0 ? <Trophy size={10} aria-label="Leader" /> : i + 1}</td>
+                  <td className="py-1">{row.name}</td>
+                  <td className="py-1 text-right">{row.daysMet}/{challenge.days}</td>
+                  <td className="py-1 text-right">{formatChallengeAmount(challenge.measure, row.total)}</td>
+                  <td className="py-1 text-right">{row.streak}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      {!joined && today <= end && (
+        eligible.length === 0
+          ? <p className="font-mono text-[10px] opacity-50">Add a {challenge.measure === 'time' ? 'timed' : 'count'} habit to join.</p>
+          : (
+            <div className="flex gap-2">
+              <select
+                value={habitId}
+                onChange={e => setHabitId(e.target.value)}
+                aria-label="Habit to join with"
+                className="flex-1 bg-transparent border border-ink px-2 font-mono text-xs"
+              >
+                {eligible.map(h => <option key={h.id} value={h.id}>{h.name}</option>)}
+              </select>
+              <button onClick={() => onJoin(habitId)} disabled={!habitId} className={buttonClass}>Join</button>
+            </div>
+          )
+      )}
+    </div>
+  );
+};
+
+/**
+ * Accounts and teams. Members pick which habits a team sees; teammates get a
+ * read-only view of those, without notes, and can take on challenges together.
+ */
+export const TeamsPanel: React.FC<TeamsPanelProps> = ({ user, habits, onUserChange, onClose }) => {
+  const dialogRef = useFocusTrap(onClose);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [team, setTeam] = useState<TeamDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreatingChallenge, setIsCreatingChallenge] = useState(false);
+  const activeHabits = habits.filter(h => !isArchived(h));
+
+  useEffect(() => {
+    if (!user) return;
+    api.listTeams().then(setTeams, err => setError(err.message));
+  }, [user]);
+
+  const run = (promise: Promise<unknown>) => {
+    setError(null);
+    promise.catch(err => setError(err.message));
+  };
+
+  const openTeam = (id: string) => run(api.getTeam(id).then(setTeam));
+
+  const addTeam = (teamPromise: Promise<Team>) =>
+    run(teamPromise.then(joined => {
+      setTeams((prev: Team[]) => [...prev.filter(t => t.id !== joined.id), joined]);
+      return api.getTeam(joined.id).then(setTeam);
+    }));
+
+  const handleCreateTeam = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    addTeam(api.createTeam(new FormData(form).get('name') as string));
+    form.reset();
+  };
+
+  const handleJoinTeam = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    addTeam(api.joinTeam(new FormData(form).get('code') as string));
+    form.reset();
+  };
+
+  const leaveTeam = (current: TeamDetail) => {
+    if (!confirm(`Leave ${current.name}? Your shared habits and challenge places go with you.`)) return;
+    run(api.leaveTeam(current.id).then(() => {
+      setTeams((prev: Team[]) => prev.filter(t => t.id !== current.id));
+      setTeam(null);
+    }));
+  };
+
+  const toggleShared = (current: TeamDetail, habitId: string) => {
+    const ids = current.sharedHabitIds.includes(habitId)
+      ? current.sharedHabitIds.filter(id => id !== habitId)
+      : [...current.sharedHabitIds, habitId];
+    run(api.shareHabits(current.id, ids).then(() => openTeam(current.id)));
+  };
+
+  const handleCreateChallenge = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!team) return;
+    const formData = new FormData(e.currentTarget);
+    run(api.createChallenge(team.id, {
+      name: (formData.get('name') as string).trim(),
+      startDate: formData.get('startDate') as string,
+      days: parseInt(formData.get('days') as string),
+      target: parseInt(formData.get('target') as string),
+      measure: formData.get('measure') as HabitMeasure,
+    }).then(() => {
+      setIsCreatingChallenge(false);
+      openTeam(team.id);
+    }));
+  };
+
+  const signOut = () => run(api.logout().then(() => {
+    setTeams([]);
+    setTeam(null);
+    onUserChange(null);
+  }));
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-label="Teams" tabIndex={-1} className="bg-paper border border-ink p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-2xl focus:outline-none">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-serif italic uppercase">{team ? team.name : 'Teams'}</h2>
+            <p className="text-[10px] uppercase font-mono opacity-50 mt-1">
+              {team ? `${team.memberCount} member${team.memberCount === 1 ? '' : 's'} // invite code ${team.inviteCode}` : 'Share habits and take on challenges together'}
+            </p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-3 -mr-2 -mt-2 hover:bg-ink hover:text-paper transition-colors active:scale-90">
+            <X size={24} />
+          </button>
+        </div>
+
+        {error && <p className="font-mono text-xs text-fail mb-4">{error}</p>}
+
+        {!user && <AuthForm onUserChange={onUserChange} />}
+
+        {user && !team && (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between gap-2 border border-ink p-3">
+              <div className="font-mono text-[11px] min-w-0">
+                <div className="font-bold truncate">{user.name}</div>
+                <div className="opacity-50 truncate">{user.email}</div>
+              </div>
+              <button onClick={signOut} className={buttonClass}><LogOut size={12} /> Sign Out</button>
+            </div>
+
+            <div>
+              <h3 className={labelClass}>Your Teams</h3>
+              {teams.length === 0 && <p className="font-mono text-[11px] opacity-40">Create a team or join one with an invite code.</p>}
+              <div className="space-y-2">
+                {teams.map(t => (
+                  <button
+                    key={t.id}
+                    onClick={() => openTeam(t.id)}
+                    className="w-full flex items-center justify-between border border-ink p-3 hover:bg-ink hover:text-paper transition-all text-left"
+                  >
+                    <span className="flex items-center gap-2 font-serif italic text-sm"><Users size={14} /> {t.name}</span>
+                    <span className="font-mono text-[10px] uppercase opacity-60">{t.memberCount} member{t.memberCount === 1 ? '' : 's'}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <form onSubmit={handleCreateTeam} className="flex items-end gap-2">
+              <div className="flex-1">
+                <label htmlFor="team-name" className={labelClass}>New Team</label>
+                <input id="team-name" name="name" required placeholder="Book club" className={inputClass} />
+              </div>
+              <button type="submit" className={buttonClass}>Create</button>
+            </form>
+
+            <form onSubmit={handleJoinTeam} className="flex items-end gap-2">
+              <div className="flex-1">
+                <label htmlFor="team-code" className={labelClass}>Invite Code</label>
+                <input id="team-code" name="code" required placeholder="A1B2C3D4" className={cn(inputClass, 'uppercase')} />
+              </div>
+              <button type="submit" className={buttonClass}>Join</button>
+            </form>
+          </div>
+        )}
+
+        {user && team && (
+          <div className="space-y-6">
+            <div className="flex justify-between">
+              <button onClick={() => setTeam(null)} className={buttonClass}><ChevronLeft size={12} /> Teams</button>
+              <button onClick={() => leaveTeam(team)} className={buttonClass}>Leave Team</button>
+            </div>
+
+            <div>
+              <h3 className={labelClass}>Shared With This Team</h3>
+              <p className="font-mono text-[10px] opacity-50 mb-2">Teammates see these days and streaks, never your notes.</p>
+              <div className="border border-ink divide-y divide-ink/10">
+                {activeHabits.map(habit => (
+                  <label key={habit.id} className="flex items-center gap-3 p-2 font-mono text-xs cursor-pointer hover:bg-ink/5">
+                    <input
+                      type="checkbox"
+                      checked={team.sharedHabitIds.includes(habit.id)}
+                      onChange={() => toggleShared(team, habit.id)}
+                      className="accent-ink"
+                    />
+                    {habit.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h3 className={labelClass}>Teammates</h3>
+              <div className="space-y-2">
+                {team.members.filter(m => m.userId !== user.id).map(member => <MemberGrid key={member.userId} member={member} />)}
+                {team.memberCount === 1 && (
+                  <p className="font-mono text-[11px] opacity-40">Nobody else yet. Share the invite code {team.inviteCode}.</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-[10px] uppercase font-serif italic opacity-50">Challenges</h3>
+                <button onClick={() => setIsCreatingChallenge(!isCreatingChallenge)} className="font-mono text-[10px] uppercase underline opacity-60 hover:opacity-100">
+                  {isCreatingChallenge ? 'Cancel' : 'New Challenge'}
+                </button>
+              </div>
+
+              {isCreatingChallenge && (
+                <form onSubmit={handleCreateChallenge} className="border border-ink p-3 mb-2 space-y-4">
+                  <div>
+                    <label htmlFor="challenge-name" className={labelClass}>Name</label>
+                    <input id="challenge-name" name="name" required placeholder="20m reading for 30 days" className={inputClass} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="challenge-start" className={labelClass}>Starts</label>
+                      <input id="challenge-start" name="startDate" type="date" required defaultValue={getTodayKey()} className={inputClass} />
+                    </div>
+                    <div>
+                      <label htmlFor="challenge-days" className={labelClass}>Days</label>
+                      <input id="challenge-days" name="days" type="number" min={1} max={366} required defaultValue={30} className={inputClass} />
+                    </div>
+                    <div>
+                      <label htmlFor="challenge-target" className={labelClass}>Daily Target</label>
+                      <input id="challenge-target" name="target" type="number" min={1} required defaultValue={20} className={inputClass} />
+                    </div>
+                    <div>
+                      <label htmlFor="challenge-measure" className={labelClass}>Measured In</label>
+                      <select id="challenge-measure" name="measure" defaultValue="time" className={inputClass}>
+                        <option value="time">Minutes</option>
+                        <option value="count">Count</option>
+                      </select>
+                    </div>
+                  </div>
+                  <button type="submit" className={cn(buttonClass, 'w-full')}>Start Challenge</button>
+                </form>
+              )}
+
+              {team.challenges.length === 0 && !isCreatingChallenge && (
+                <p className="font-mono text-[11px] opacity-40">No challenges yet.</p>
+              )}
+              <div className="space-y-2">
+                {team.challenges.map(challenge => (
+                  <ChallengeCard
+                    key={challenge.id}
+                    challenge={challenge}
+                    user={user}
+                    habits={activeHabits}
+                    onJoin={habitId => run(api.joinChallenge(team.id, challenge.id, habitId).then(() => openTeam(team.id)))}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
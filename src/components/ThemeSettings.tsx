@@ -0,0 +1,59 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { ThemePreference } from '../types';
+import { Theme, THEME_OPTIONS } from '../lib/theme';
+import { cn } from '../lib/utils';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface ThemeSettingsProps {
+  preference: ThemePreference;
+  theme: Theme;
+  isSignedIn: boolean;
+  onChangePreference: (preference: ThemePreference) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'block text-[10px] uppercase font-serif italic opacity-50 mb-2';
+
+/** Light, dark or high-contrast colors, or whichever the device asks for. */
+export const ThemeSettings: React.FC<ThemeSettingsProps> = ({ preference, theme, isSignedIn, onChangePreference, onClose }) => {
+  const dialogRef = useFocusTrap(onClose);
+  const current = THEME_OPTIONS.find(option => option.theme === theme)!;
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-label="Theme" tabIndex={-1} className="bg-paper border border-ink p-8 w-full max-w-md shadow-2xl focus:outline-none">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-serif italic uppercase">Theme</h2>
+            <p className="text-[10px] uppercase font-mono opacity-50 mt-1">Showing {current.label}</p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-3 -mr-2 -mt-2 hover:bg-ink hover:text-paper transition-colors active:scale-90">
+            <X size={24} />
+          </button>
+        </div>
+
+        <label className={labelClass}>Colors</label>
+        <div className="grid grid-cols-2 border border-ink" role="group" aria-label="Theme">
+          {THEME_OPTIONS.map(option => (
+            <button
+              key={option.theme}
+              onClick={() => onChangePreference(option.theme)}
+              aria-pressed={preference === option.theme}
+              className={cn(
+                "py-3 font-mono text-[10px] uppercase border-ink odd:border-r [&:nth-child(-n+2)]:border-b transition-colors",
+                preference === option.theme ? "bg-ink text-paper" : "hover:bg-ink/10"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="font-mono text-[10px] opacity-50 mt-3">
+          System follows your device's dark mode and contrast settings as they change.
+          {isSignedIn ? ' Saved with your account, so your other devices pick it up.' : ' Saved on this device; sign in to keep it with your account.'}
+        </p>
+      </div>
+    </div>
+  );
+};
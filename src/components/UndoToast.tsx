@@ -0,0 +1,39 @@
+import React from 'react';
+import { Redo2, Undo2, X } from 'lucide-react';
+import { UndoNotice } from '../hooks/useUndoHistory';
+
+interface UndoToastProps {
+  notice: UndoNotice;
+  onUndo: () => void;
+  onRedo: () => void;
+  onDismiss: () => void;
+}
+
+const PREFIXES: Record<UndoNotice['kind'], string> = {
+  done: '',
+  undone: 'Undone: ',
+  redone: 'Redone: ',
+};
+
+export const UndoToast: React.FC<UndoToastProps> = ({ notice, onUndo, onRedo, onDismiss }) => {
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-4 bg-ink text-paper px-4 py-3 shadow-2xl font-mono text-[10px] uppercase max-w-[calc(100vw-2rem)]"
+    >
+      <span className="truncate">{PREFIXES[notice.kind]}{notice.message}</span>
+      {notice.kind === 'undone' ? (
+        <button onClick={onRedo} className="flex items-center gap-1 underline underline-offset-2 hover:opacity-70 shrink-0">
+          <Redo2 size={12} /> Redo
+        </button>
+      ) : (
+        <button onClick={onUndo} className="flex items-center gap-1 underline underline-offset-2 hover:opacity-70 shrink-0">
+          <Undo2 size={12} /> Undo
+        </button>
+      )}
+      <button onClick={onDismiss} className="opacity-50 hover:opacity-100 shrink-0" aria-label="Dismiss">
+        <X size={12} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Coffee } from 'lucide-react';
+import { Habit, HabitEntry } from '../types';
+import { CELL_BACKGROUNDS, describeCell, getCellState, getCellStyle } from '../lib/cells';
+import { formatProgress } from '../lib/measure';
+import { cn } from '../lib/utils';
+import { isToday, toDateKey } from '../lib/dates';
+import { CellStatusIcon } from './CellStatusIcon';
+
+interface WeekViewProps {
+  habits: Habit[];
+  days: Date[];
+  entries: HabitEntry[];
+  getEntry: (habitId: string, date: string) => HabitEntry | undefined;
+  onSelectDay: (habitId: string, date: string) => void;
+}
+
+/** Seven stacked days with one tap target per habit, sized for phones. */
+export const WeekView: React.FC<WeekViewProps> = ({ habits, days, entries, getEntry, onSelectDay }) => {
+  return (
+    <div className="divide-y divide-ink/20">
+      {days.map(day => {
+        const dateStr = toDateKey(day);
+        return (
+          <div key={dateStr} className={cn("p-3 md:p-4", isToday(day) && "bg-done/5")}>
+            <div className="flex items-baseline gap-2 mb-2">
+              <span className="font-mono text-xs font-bold">{format(day, 'EEE dd')}</span>
+              <span className="font-serif italic text-[10px] uppercase opacity-50">{format(day, 'MMM yyyy')}</span>
+              {isToday(day) && <span className="font-mono text-[9px] uppercase text-done">Today</span>}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
+              {habits.map(habit => {
+                const entry = getEntry(habit.id, dateStr);
+                const state = getCellState(habit, day, entry, entries);
+                return (
+                  <button
+                    key={habit.id}
+                    onClick={() => onSelectDay(habit.id, dateStr)}
+                    aria-label={describeCell(habit, day, entry, state)}
+                    className={cn(
+                      "flex justify-between items-center gap-2 border border-ink/30 px-3 py-3 text-left active:scale-95 transition-all",
+                      CELL_BACKGROUNDS[state]
+                    )}
+                    style={getCellStyle(habit, state)}
+                  >
+                    <span className="font-serif italic text-sm uppercase truncate">{habit.name}</span>
+                    {state === 'skipped' ? (
+                      <Coffee size={12} className="opacity-50 shrink-0" />
+                    ) : (
+                      <span className={cn(
+                        "flex items-center gap-1 font-mono text-[10px] shrink-0",
+                        state === 'done' ? "text-done" : (state === 'failed' || state === 'missed') ? "text-fail" : "opacity-50"
+                      )}>
+                        <CellStatusIcon state={state} />
+                        {formatProgress(habit, entry?.timeSpent ?? 0, dateStr)}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
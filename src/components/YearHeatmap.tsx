@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import { eachDayOfInterval, format, isAfter, subDays } from 'date-fns';
+import { Habit, HabitEntry } from '../types';
+import { formatAmount, formatProgress, getTargetProgress, isTimeHabit } from '../lib/measure';
+import { isScheduledDay } from '../lib/schedule';
+import { cn } from '../lib/utils';
+import { getToday, toDateKey } from '../lib/dates';
+import { tint } from '../lib/theme';
+
+interface YearHeatmapProps {
+  habits: Habit[];
+  endDate: Date;
+  getEntry: (habitId: string, date: string) => HabitEntry | undefined;
+  onSelectDay: (habitId: string, date: string) => void;
+}
+
+// Shades for 0, <50%, <100% and >=100% of the target
+const LEVELS = ['bg-ink/5', 'bg-done/30', 'bg-done/60', 'bg-done'];
+// The same steps in a habit's own color
+const LEVEL_SHADES = [0, 30, 60, 100];
+
+function getLevel(ratio: number) {
+  if (ratio <= 0) return 0;
+  if (ratio < 0.5) return 1;
+  return ratio < 1 ? 2 : 3;
+}
+
+/** GitHub-style contribution grid: one column per week, Monday on top. */
+export const YearHeatmap: React.FC<YearHeatmapProps> = ({ habits, endDate, getEntry, onSelectDay }) => {
+  const days = useMemo(() => eachDayOfInterval({ start: subDays(endDate, 364), end: endDate }), [endDate]);
+  // Blank cells so the first column starts on the right weekday
+  const leadingBlanks = (days[0].getDay() + 6) % 7;
+  const today = getToday();
+
+  return (
+    <div className="space-y-8">
+      {habits.map(habit => {
+        const habitDays = days.map(day => {
+          const dateStr = toDateKey(day);
+          const entry = getEntry(habit.id, dateStr);
+          return { day, dateStr, entry, ratio: entry ? getTargetProgress(habit, entry.timeSpent, dateStr) : 0 };
+        });
+        const total = habitDays.reduce((sum, d) => sum + (d.entry?.timeSpent ?? 0), 0);
+        const doneDays = habitDays.filter(d => d.entry?.status === 'done').length;
+
+        return (
+          <div key={habit.id}>
+            <div className="flex justify-between items-baseline mb-2">
+              <span className="font-serif italic text-lg uppercase">{habit.name}</span>
+              <span className="font-mono text-[10px] uppercase opacity-50">
+                {doneDays} days done // {isTimeHabit(habit) ? `${Math.round(total / 60)}h` : formatAmount(habit, total)} logged
+              </span>
+            </div>
+            <div className="overflow-x-auto pb-2">
+              <div className="grid grid-rows-7 grid-flow-col gap-[3px] w-max">
+                {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} className="w-3 h-3" />)}
+                {habitDays.map(({ day, dateStr, entry, ratio }) => (
+                  <button
+                    key={dateStr}
+                    onClick={() => onSelectDay(habit.id, dateStr)}
+                    disabled={isAfter(day, today)}
+                    title={`${format(day, 'MMM dd, yyyy')}: ${entry ? `${formatProgress(habit, entry.timeSpent, dateStr)}, ${entry.status}` : 'nothing logged'}`}
+                    className={cn(
+                      "w-3 h-3 transition-transform hover:scale-125 disabled:opacity-20 disabled:hover:scale-100",
+                      entry?.status === 'failed' ? "bg-fail/50" :
+                      entry?.status === 'skipped' ? "bg-ink/20" :
+                      LEVELS[getLevel(ratio)],
+                      !entry && !isScheduledDay(habit, day) && "unscheduled-cell bg-transparent"
+                    )}
+                    style={habit.color && entry && entry.status !== 'failed' && entry.status !== 'skipped' && getLevel(ratio) > 0
+                      ? { backgroundColor: tint(habit.color, LEVEL_SHADES[getLevel(ratio)]) }
+                      : undefined}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex items-center gap-2 font-mono text-[9px] uppercase opacity-60">
+        <span>Less</span>
+        {LEVELS.map(level => <span key={level} className={cn("w-3 h-3", level)} />)}
+        <span>Target met</span>
+        <span className="w-3 h-3 ml-4 bg-fail/50" />
+        <span>Failed</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { DaySettings, DEFAULT_DAY_SETTINGS, getDaySettings, isValidTimeZone, setDaySettings } from '../lib/dates';
+
+const SETTINGS_STORAGE_KEY = 'habit-grid-day-settings';
+
+// The home time zone is saved once and then kept, so a device that travels doesn't move the days
+export function loadDaySettings(): DaySettings {
+  try {
+    const stored = { ...DEFAULT_DAY_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}') };
+    return isValidTimeZone(stored.timeZone) ? stored : { ...stored, timeZone: DEFAULT_DAY_SETTINGS.timeZone };
+  } catch {
+    return DEFAULT_DAY_SETTINGS;
+  }
+}
+
+/**
+ * The day start hour and home time zone for this device. The date module
+ * reads them on every call: main.tsx hands it the saved ones before the first
+ * render, and a change reaches it before the render it causes, so everything
+ * computed in one render agrees on which day it is.
+ */
+export function useDaySettings() {
+  const [settings, setSettings] = useState<DaySettings>(getDaySettings);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const updateSettings = (changes: Partial<DaySettings>) => {
+    const next = { ...getDaySettings(), ...changes };
+    setDaySettings(next);
+    setSettings(next);
+  };
+
+  return { settings, updateSettings };
+}
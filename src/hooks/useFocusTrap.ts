@@ -0,0 +1,68 @@
+import { useEffect, useRef } from 'react';
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Open dialogs, innermost last; only that one handles Tab and Escape
+const openDialogs: HTMLElement[] = [];
+
+// The element focused before the current one, to return to when an autofocused field took focus on open
+let focusedBefore: HTMLElement | null = null;
+let focusedNow: HTMLElement | null = null;
+document.addEventListener('focusin', e => {
+  focusedBefore = focusedNow;
+  focusedNow = e.target as HTMLElement;
+});
+
+/**
+ * Makes the element behind the returned ref behave as a modal dialog: focus
+ * moves into it on open, Tab and Shift+Tab cycle within it, Escape calls
+ * `onClose`, and focus returns to where it was once it closes. A component
+ * that renders its dialog conditionally passes `open` so the trap follows it.
+ */
+export function useFocusTrap(onClose: () => void, open = true) {
+  const ref = useRef<HTMLElement>(null);
+  const close = useRef(onClose);
+  close.current = onClose;
+
+  useEffect(() => {
+    const dialog = ref.current as HTMLElement | null;
+    if (!open || !dialog) return;
+    openDialogs.push(dialog);
+    // An autofocused field inside keeps focus
+    const returnTo = dialog.contains(document.activeElement) ? focusedBefore : document.activeElement as HTMLElement | null;
+    if (!dialog.contains(document.activeElement)) {
+      (dialog.querySelector<HTMLElement>(FOCUSABLE) ?? dialog).focus();
+    }
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (openDialogs[openDialogs.length - 1] !== dialog) return;
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        close.current();
+      } else if (e.key === 'Tab') {
+        const focusable = [...dialog.querySelectorAll<HTMLElement>(FOCUSABLE)].filter(el => el.offsetParent !== null);
+        if (focusable.length === 0) {
+          e.preventDefault();
+          return;
+        }
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (e.shiftKey && (document.activeElement === first || !dialog.contains(document.activeElement))) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && (document.activeElement === last || !dialog.contains(document.activeElement))) {
+          e.preventDefault();
+          first.focus();
+        }
+      }
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('keydown', onKeyDown);
+      openDialogs.splice(openDialogs.indexOf(dialog), 1);
+      if (returnTo?.isConnected) returnTo.focus();
+    };
+  }, [open]);
+
+  return ref;
+}
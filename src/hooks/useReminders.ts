@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { Habit, HabitEntry } from '../types';
+import { DEFAULT_REMINDER_SETTINGS, getDueReminders, ReminderSettings } from '../lib/reminders';
+import { getTodayKey } from '../lib/dates';
+
+const SETTINGS_STORAGE_KEY = 'habit-grid-reminders';
+const SENT_STORAGE_KEY = 'habit-grid-reminders-sent';
+const CHECK_INTERVAL_MS = 30000;
+
+const isSupported = typeof window !== 'undefined' && 'Notification' in window;
+
+function loadSettings(): ReminderSettings {
+  try {
+    return { ...DEFAULT_REMINDER_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_REMINDER_SETTINGS;
+  }
+}
+
+function loadSent(): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(SENT_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+async function showNotification(title: string, body: string, tag: string) {
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, { body, tag });
+  } else {
+    new Notification(title, { body, tag });
+  }
+}
+
+/**
+ * Checks the current habits and entries every half minute while the app is
+ * open and shows any reminders that are due. Nothing checks once every tab is
+ * closed, so reminders stop with the app; the settings panel says as much.
+ * Shown reminders are remembered in localStorage for the day, so reloading
+ * the page doesn't repeat them.
+ */
+export function useReminders(habits: Habit[], entries: HabitEntry[]) {
+  const [settings, setSettings] = useState<ReminderSettings>(loadSettings);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    isSupported ? Notification.permission : 'unsupported'
+  );
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const isActive = settings.enabled && permission === 'granted';
+  useEffect(() => {
+    if (!isActive) return;
+    const check = () => {
+      const now = new Date();
+      const today = getTodayKey(now);
+      // Keys start with their date, so older days fall out here
+      const sent = loadSent().filter(key => key.startsWith(today));
+      const due = getDueReminders(habits, entries, settings, now, new Set(sent));
+      if (!due.length) return;
+      localStorage.setItem(SENT_STORAGE_KEY, JSON.stringify([...sent, ...due.map(r => r.key)]));
+      for (const reminder of due) {
+        showNotification(reminder.title, reminder.body, reminder.key).catch(err => console.error('Reminder failed', err));
+      }
+    };
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isActive, habits, entries, settings]);
+
+  const updateSettings = (changes: Partial<ReminderSettings>) =>
+    setSettings((prev: ReminderSettings) => ({ ...prev, ...changes }));
+
+  // Browsers only allow the permission prompt from a user gesture, so this runs on the enable toggle
+  const enable = async () => {
+    if (!isSupported) return;
+    const result = Notification.permission === 'default' ? await Notification.requestPermission() : Notification.permission;
+    setPermission(result);
+    if (result === 'granted') updateSettings({ enabled: true });
+  };
+
+  const sendTest = () =>
+    showNotification('HabitGrid', 'Reminders are on.', 'test').catch(err => console.error('Reminder failed', err));
+
+  return { settings, updateSettings, permission, enable, sendTest };
+}
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getTodayKey } from '../lib/dates';
+
+const TIMERS_STORAGE_KEY = 'habit-grid-timers';
+
+export interface SessionTimer {
+  habitId: string;
+  date: string; // YYYY-MM-DD the session started on, which is where its time is logged
+  openedAt?: number; // epoch ms the session was first started, logged as its start time
+  startedAt: number | null; // epoch ms of the current run, null while paused
+  elapsedMs: number; // time banked by earlier runs of this session
+}
+
+type TimerMap = Record<string, SessionTimer>;
+
+function loadTimers(): TimerMap {
+  try {
+    return JSON.parse(localStorage.getItem(TIMERS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export const getElapsedMs = (timer: SessionTimer, now: number) =>
+  timer.elapsedMs + (timer.startedAt === null ? 0 : now - timer.startedAt);
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/**
+ * One stopwatch per habit, kept in localStorage so a reload doesn't lose a
+ * running session. Stopping hands the whole minutes to `onStop` as one session.
+ */
+export function useSessionTimers(onStop: (habitId: string, date: string, minutes: number, startedAt: Date) => void) {
+  const [timers, setTimers] = useState<TimerMap>(loadTimers);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    localStorage.setItem(TIMERS_STORAGE_KEY, JSON.stringify(timers));
+  }, [timers]);
+
+  const isAnyRunning = Object.values<SessionTimer>(timers).some(t => t.startedAt !== null);
+  useEffect(() => {
+    if (!isAnyRunning) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isAnyRunning]);
+
+  const start = useCallback((habitId: string) => {
+    setTimers(prev => {
+      const timer = prev[habitId];
+      if (timer?.startedAt != null) return prev;
+      return {
+        ...prev,
+        [habitId]: timer
+          ? { ...timer, startedAt: Date.now() }
+          : { habitId, date: getTodayKey(), openedAt: Date.now(), startedAt: Date.now(), elapsedMs: 0 },
+      };
+    });
+  }, []);
+
+  const pause = useCallback((habitId: string) => {
+    setTimers(prev => {
+      const timer = prev[habitId];
+      if (!timer || timer.startedAt === null) return prev;
+      return { ...prev, [habitId]: { ...timer, startedAt: null, elapsedMs: getElapsedMs(timer, Date.now()) } };
+    });
+  }, []);
+
+  const stop = (habitId: string) => {
+    const timer = timers[habitId];
+    if (!timer) return;
+    setTimers(prev => {
+      const { [habitId]: _, ...rest } = prev;
+      return rest;
+    });
+    const elapsedMs = getElapsedMs(timer, Date.now());
+    const minutes = Math.round(elapsedMs / 60000);
+    if (minutes > 0) onStop(timer.habitId, timer.date, minutes, new Date(timer.openedAt ?? Date.now() - elapsedMs));
+  };
+
+  return { timers, now, start, pause, stop };
+}
@@ -0,0 +1,40 @@
+import { useEffect, useLayoutEffect, useState } from 'react';
+import { ThemePreference, User } from '../types';
+import { applyTheme, CONTRAST_QUERY, DARK_QUERY, isThemePreference, resolveTheme, Theme } from '../lib/theme';
+
+const THEME_STORAGE_KEY = 'habit-grid-theme';
+
+function loadPreference(): ThemePreference {
+  const stored = localStorage.getItem(THEME_STORAGE_KEY);
+  return isThemePreference(stored) ? stored : 'system';
+}
+
+/**
+ * The theme for this device, remembered between visits. A signed-in
+ * account's saved theme takes over once the account is known, so it follows
+ * the user to a new device. 'system' keeps up with the device's settings as
+ * they change, e.g. when it turns dark at sunset.
+ */
+export function useTheme(user: User | null) {
+  const [preference, setPreference] = useState<ThemePreference>(loadPreference);
+  const [theme, setTheme] = useState<Theme>(() => resolveTheme(preference));
+
+  useEffect(() => {
+    if (user?.theme) setPreference(user.theme);
+  }, [user]);
+
+  useEffect(() => {
+    localStorage.setItem(THEME_STORAGE_KEY, preference);
+    const update = () => setTheme(resolveTheme(preference));
+    update();
+    if (preference !== 'system') return;
+    const queries = [DARK_QUERY, CONTRAST_QUERY].map(query => window.matchMedia(query));
+    queries.forEach(query => query.addEventListener('change', update));
+    return () => queries.forEach(query => query.removeEventListener('change', update));
+  }, [preference]);
+
+  // Before the first paint, so a dark theme doesn't flash light on load
+  useLayoutEffect(() => applyTheme(theme), [theme]);
+
+  return { preference, theme, updatePreference: setPreference };
+}
@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+
+const MAX_HISTORY = 100;
+const NOTICE_MS = 6000;
+
+export interface UndoableAction {
+  label: string; // shown in the toast, e.g. "Marked Reading failed"
+  undo: () => void;
+  redo: () => void;
+}
+
+export interface UndoNotice {
+  message: string;
+  kind: 'done' | 'undone' | 'redone';
+}
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Session-scoped undo and redo stacks. Actions carry their own inverse, so
+ * undoing goes through the same save paths as the original change. Ctrl+Z and
+ * Ctrl+Shift+Z (or Ctrl+Y) work everywhere except inside text fields, which
+ * keep their native text undo.
+ */
+export function useUndoHistory() {
+  const [past, setPast] = useState<UndoableAction[]>([]);
+  const [future, setFuture] = useState<UndoableAction[]>([]);
+  const [notice, setNotice] = useState<UndoNotice | null>(null);
+
+  const record = (action: UndoableAction) => {
+    setPast((prev: UndoableAction[]) => [...prev, action].slice(-MAX_HISTORY));
+    setFuture([]);
+    setNotice({ message: action.label, kind: 'done' });
+  };
+
+  const undo = () => {
+    const action = past[past.length - 1];
+    if (!action) return;
+    action.undo();
+    setPast(past.slice(0, -1));
+    setFuture([...future, action]);
+    setNotice({ message: action.label, kind: 'undone' });
+  };
+
+  const redo = () => {
+    const action = future[future.length - 1];
+    if (!action) return;
+    action.redo();
+    setFuture(future.slice(0, -1));
+    setPast([...past, action]);
+    setNotice({ message: action.label, kind: 'redone' });
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    notice,
+    dismissNotice: () => setNotice(null),
+    // For changes that can't be reversed step by step, such as an import
+    reset: () => {
+      setPast([]);
+      setFuture([]);
+    },
+  };
+}
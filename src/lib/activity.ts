@@ -0,0 +1,65 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { ActivityItem, Habit, HabitEntry } from '../types';
+import { formatAmount } from './measure';
+import { describeMilestone } from './milestones';
+
+// Deleted habits stay in the trash this long before the server purges them
+export const TRASH_RETENTION_DAYS = 30;
+
+export const getDaysUntilPurge = (deletedAt: string, now = new Date()) =>
+  Math.max(0, TRASH_RETENTION_DAYS - differenceInCalendarDays(now, parseISO(deletedAt)));
+
+function describeEntry(entry: HabitEntry | undefined, habit: Habit | undefined): string {
+  if (!entry) return 'empty';
+  const amount = habit ? formatAmount(habit, entry.timeSpent) : String(entry.timeSpent);
+  return `${entry.status === 'none' ? 'logged' : entry.status} ${amount}`;
+}
+
+/** Toast label for a saved day, e.g. `Reading, Oct 03: failed 25m`. */
+export const describeEntrySave = (habit: Habit, entry: HabitEntry) =>
+  `${habit.name}, ${format(parseISO(entry.date), 'MMM dd')}: ${describeEntry(entry, habit)}`;
+
+function describeHabitUpdate(before: Habit, after: Habit): string {
+  if (!before.archivedAt && after.archivedAt) return `Archived ${after.name}`;
+  if (before.archivedAt && !after.archivedAt) return `Unarchived ${after.name}`;
+  if (before.name !== after.name) return `Renamed ${before.name} to ${after.name}`;
+  if (before.targetTime !== after.targetTime) {
+    return `Changed ${after.name} goal from ${formatAmount(before, before.targetTime)} to ${formatAmount(after, after.targetTime)}`;
+  }
+  if ((after.achievements?.length ?? 0) > (before.achievements?.length ?? 0)) {
+    const latest = after.achievements![after.achievements!.length - 1];
+    return `${after.name} reached ${describeMilestone(after, latest)}`;
+  }
+  if ((after.milestones?.length ?? 0) > (before.milestones?.length ?? 0)) return `Added a milestone to ${after.name}`;
+  if ((after.milestones?.length ?? 0) < (before.milestones?.length ?? 0)) return `Removed a milestone from ${after.name}`;
+  if (!before.program && after.program) return `Started a goal program for ${after.name}`;
+  if (before.program && !after.program?.endDate && JSON.stringify(before.program) !== JSON.stringify(after.program)) {
+    return after.program ? `Changed ${after.name} goal program` : `Removed ${after.name} goal program`;
+  }
+  if (before.program && !before.program.endDate && after.program?.endDate) return `Ended ${after.name} goal program`;
+  return `Edited ${after.name}`;
+}
+
+/** One line for the activity log; `habit` supplies units when it still exists. */
+export function describeActivity(item: ActivityItem, habit?: Habit): string {
+  const name = item.habitName ?? 'a habit';
+  const day = item.date ? format(parseISO(item.date), 'MMM dd') : '';
+  switch (item.action) {
+    case 'habit.create':
+      return `Created ${name}`;
+    case 'habit.update':
+      return item.before && item.after ? describeHabitUpdate(item.before as Habit, item.after as Habit) : `Edited ${name}`;
+    case 'habit.delete':
+      return `Deleted ${name}`;
+    case 'habit.restore':
+      return `Restored ${name} from the trash`;
+    case 'habit.reorder':
+      return 'Reordered columns';
+    case 'entry.save':
+      return `${name}, ${day}: ${describeEntry(item.before as HabitEntry | undefined, habit)} → ${describeEntry(item.after as HabitEntry, habit)}`;
+    case 'entry.delete':
+      return `${name}, ${day}: cleared`;
+    case 'import':
+      return 'Imported data';
+  }
+}
@@ -0,0 +1,171 @@
+import { eachDayOfInterval, format, isAfter, parseISO, startOfMonth, startOfWeek } from 'date-fns';
+import { Habit, HabitEntry } from '../types';
+import { scoreDay } from './scoring';
+import { getToday, toDateKey } from './dates';
+import { RATING_KINDS, RatingKind } from './journal';
+import { formatAmount } from './measure';
+
+export type Bucket = 'week' | 'month';
+
+export interface HabitCompletion {
+  habit: Habit;
+  done: number; // credit earned, fractional under the partial rule
+  expected: number;
+  rate: number; // 0..1
+  amount: number; // total logged, in the habit's unit
+}
+
+export interface DayOutcome {
+  day: Date;
+  dateStr: string;
+  entry?: HabitEntry;
+  credit: number;
+  counted: boolean; // whether the day counts towards a completion rate
+}
+
+// Days after today are never counted, they haven't happened yet
+export function getRangeDays(from: Date, to: Date): Date[] {
+  const end = isAfter(to, getToday()) ? getToday() : to;
+  return isAfter(from, end) ? [] : eachDayOfInterval({ start: from, end });
+}
+
+export function getDayOutcomes(habit: Habit, entries: HabitEntry[], days: Date[]): DayOutcome[] {
+  const habitEntries = entries.filter(e => e.habitId === habit.id);
+  const byDate = new Map(habitEntries.map(e => [e.date, e]));
+  return days.map(day => {
+    const dateStr = toDateKey(day);
+    const entry = byDate.get(dateStr);
+    const { credit, counted } = scoreDay(habit, day, entry, habitEntries);
+    return { day, dateStr, entry, credit, counted };
+  });
+}
+
+export function getHabitCompletion(habit: Habit, entries: HabitEntry[], days: Date[]): HabitCompletion {
+  const outcomes = getDayOutcomes(habit, entries, days);
+  const counted = outcomes.filter(o => o.counted);
+  const done = counted.reduce((sum, o) => sum + o.credit, 0);
+  const expected = counted.length;
+  const amount = outcomes.reduce((sum, o) => sum + (o.entry?.timeSpent ?? 0), 0);
+  return { habit, done, expected, rate: expected ? done / expected : 0, amount };
+}
+
+/** Minutes per habit for each week or month in the range, keyed by habit id for a stacked chart. */
+export function getMinutesByBucket(habits: Habit[], entries: HabitEntry[], days: Date[], bucket: Bucket) {
+  const buckets = new Map<string, Record<string, number | string>>();
+  for (const day of days) {
+    const start = bucket === 'week' ? startOfWeek(day, { weekStartsOn: 1 }) : startOfMonth(day);
+    const key = toDateKey(start);
+    if (!buckets.has(key)) {
+      const row: Record<string, number | string> = { label: format(start, bucket === 'week' ? 'MMM dd' : 'MMM yyyy') };
+      habits.forEach(h => { row[h.id] = 0; });
+      buckets.set(key, row);
+    }
+  }
+  const habitIds = new Set(habits.map(h => h.id));
+  const from = days.length ? toDateKey(days[0]) : '';
+  const to = days.length ? toDateKey(days[days.length - 1]) : '';
+  for (const entry of entries) {
+    if (!habitIds.has(entry.habitId) || entry.date < from || entry.date > to) continue;
+    const date = parseISO(entry.date);
+    const start = bucket === 'week' ? startOfWeek(date, { weekStartsOn: 1 }) : startOfMonth(date);
+    const row = buckets.get(toDateKey(start));
+    if (row) row[entry.habitId] = (row[entry.habitId] as number) + entry.timeSpent;
+  }
+  return [...buckets.values()];
+}
+
+/** Success rate per weekday across all habits, Monday first. */
+export function getWeekdaySuccess(habits: Habit[], entries: HabitEntry[], days: Date[]) {
+  const totals = Array.from({ length: 7 }, () => ({ done: 0, expected: 0 }));
+  for (const habit of habits) {
+    for (const outcome of getDayOutcomes(habit, entries, days)) {
+      if (!outcome.counted) continue;
+      const index = (outcome.day.getDay() + 6) % 7;
+      totals[index].expected++;
+      totals[index].done += outcome.credit;
+    }
+  }
+  return ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].map((weekday, i) => ({
+    weekday,
+    rate: totals[i].expected ? Math.round((totals[i].done / totals[i].expected) * 100) : 0,
+    expected: totals[i].expected,
+  }));
+}
+
+// A day rated this high or higher counts as high, this low or lower as low
+const HIGH_RATING = 4;
+const LOW_RATING = 2;
+// Fewer rated days than this say too little to compare
+const MIN_RATED_DAYS = 3;
+
+export interface RatedDays {
+  days: number;
+  rate: number; // 0..1
+  amount: number; // average logged per day, in the habit's unit
+}
+
+// How a habit went on high-rated days against low-rated ones; a side is null with too few days
+export interface RatingCorrelation {
+  habit: Habit;
+  kind: RatingKind;
+  high: RatedDays | null;
+  low: RatedDays | null;
+}
+
+/** A day's mood or energy: the average of its entries that were rated, across habits. */
+export function getDayRatings(entries: HabitEntry[], kind: RatingKind): Map<string, number> {
+  const sums = new Map<string, { total: number; count: number }>();
+  for (const entry of entries) {
+    const rating = entry[kind];
+    if (!rating) continue;
+    const sum = sums.get(entry.date) ?? { total: 0, count: 0 };
+    sums.set(entry.date, { total: sum.total + rating, count: sum.count + 1 });
+  }
+  return new Map([...sums].map(([date, { total, count }]) => [date, total / count]));
+}
+
+function summarizeRatedDays(outcomes: DayOutcome[]): RatedDays | null {
+  if (outcomes.length < MIN_RATED_DAYS) return null;
+  const done = outcomes.reduce((sum, o) => sum + o.credit, 0);
+  const amount = outcomes.reduce((sum, o) => sum + (o.entry?.timeSpent ?? 0), 0);
+  return { days: outcomes.length, rate: done / outcomes.length, amount: amount / outcomes.length };
+}
+
+/**
+ * Completion and amount logged on high against low mood and energy days, per
+ * habit. Biggest gaps first; habits without enough rated days are left out.
+ */
+export function getRatingCorrelations(habits: Habit[], entries: HabitEntry[], days: Date[]): RatingCorrelation[] {
+  const correlations: RatingCorrelation[] = [];
+  for (const kind of RATING_KINDS) {
+    const ratings = getDayRatings(entries, kind);
+    if (ratings.size === 0) continue;
+    for (const habit of habits) {
+      const high: DayOutcome[] = [];
+      const low: DayOutcome[] = [];
+      for (const outcome of getDayOutcomes(habit, entries, days)) {
+        const rating = ratings.get(outcome.dateStr);
+        if (!outcome.counted || rating === undefined) continue;
+        if (rating >= HIGH_RATING) high.push(outcome);
+        else if (rating <= LOW_RATING) low.push(outcome);
+      }
+      const correlation = { habit, kind, high: summarizeRatedDays(high), low: summarizeRatedDays(low) };
+      if (correlation.high || correlation.low) correlations.push(correlation);
+    }
+  }
+  const gap = (c: RatingCorrelation) => (c.high && c.low ? Math.abs(c.high.rate - c.low.rate) : -1);
+  return correlations.sort((a, b) => gap(b) - gap(a));
+}
+
+/** e.g. `You complete Exercise 80% of the time on high-energy days and 40% on low-energy days, logging 35m against 12m`. */
+export function describeRatingCorrelation({ habit, kind, high, low }: RatingCorrelation): string {
+  const percent = (days: RatedDays) => `${Math.round(days.rate * 100)}%`;
+  if (high && low) {
+    const amounts = high.amount + low.amount > 0
+      ? `, logging ${formatAmount(habit, Math.round(high.amount))} against ${formatAmount(habit, Math.round(low.amount))}`
+      : '';
+    return `You complete ${habit.name} ${percent(high)} of the time on high-${kind} days and ${percent(low)} on low-${kind} days${amounts}`;
+  }
+  const [days, level] = high ? [high, 'high'] : [low!, 'low'];
+  return `You complete ${habit.name} ${percent(days)} of the time on ${level}-${kind} days`;
+}
@@ -0,0 +1,299 @@
+import { Achievement, ActivityItem, AppState, Challenge, Habit, HabitEntry, SyncConflict, Team, TeamDetail, ThemePreference, User, WeeklyInsights } from '../types';
+import { ImportMode } from './transfer';
+import { localDb, QueuedWrite } from './localDb';
+import { sameEntry } from './sync';
+import { getDaySettings } from './dates';
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// The server's copy of a day moved on in a way it couldn't merge with ours
+export class ConflictError extends ApiError {
+  constructor(message: string, public current: HabitEntry | null) {
+    super(409, message);
+  }
+}
+
+// The signed-in account, kept with its token so the app still knows who it is offline
+interface Session {
+  token: string;
+  user: User;
+}
+
+const SESSION_KEY = 'habit-grid-session';
+
+const loadSession = (): Session | null => JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const token = loadSession()?.token;
+  const res = await fetch(`/api${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      // So the server counts "today" the way this device does, e.g. for challenge leaderboards
+      'X-Day-Settings': JSON.stringify(getDaySettings()),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...init?.headers,
+    },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    if (res.status === 409 && body && 'current' in body) throw new ConflictError(body.error, body.current);
+    throw new ApiError(res.status, body?.error || res.statusText);
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+}
+
+const entryPath = (habitId: string, date: string) =>
+  `/habits/${encodeURIComponent(habitId)}/entries/${date}`;
+
+const habitPath = (id: string) => `/habits/${encodeURIComponent(id)}`;
+
+const teamPath = (id: string) => `/teams/${encodeURIComponent(id)}`;
+
+// Conflicts on entry writes are kept for the user to resolve rather than reported as failures
+async function replay(queued: QueuedWrite): Promise<unknown> {
+  try {
+    return await request<unknown>(queued.path, {
+      method: queued.method,
+      ...(queued.body !== undefined ? { body: JSON.stringify(queued.body) } : {}),
+    });
+  } catch (err) {
+    if (!(err instanceof ConflictError) || !queued.conflict) throw err;
+    await localDb.putConflict({ ...queued.conflict, theirs: err.current });
+    return undefined;
+  }
+}
+
+/**
+ * Sends a change that is already on the device to the server and resolves to
+ * the server's answer. While the server can't be reached the change waits in
+ * the outbox, resolving to undefined, and later changes queue behind it so the
+ * server sees them in the order they were made. Only a network failure queues;
+ * an error response from the server still rejects.
+ */
+async function send(queued: QueuedWrite): Promise<unknown> {
+  if (!navigator.onLine || (await localDb.listQueuedWrites()).length > 0) {
+    await localDb.queueWrite(queued);
+    return undefined;
+  }
+  try {
+    return await replay(queued);
+  } catch (err) {
+    if (err instanceof ApiError) throw err;
+    await localDb.queueWrite(queued);
+    return undefined;
+  }
+}
+
+/**
+ * Writes one day, sending the copy the change was made from so the server can
+ * merge it with changes from other devices. Resolves to the stored day when
+ * the merge took in someone else's change, so the grid can show it right away.
+ */
+async function writeEntry(habitId: string, date: string, mine: HabitEntry | null, base?: HabitEntry | null) {
+  base = base === undefined ? (await localDb.getEntry(habitId, date)) ?? null : base;
+  if (mine) await localDb.putEntry(mine); else await localDb.deleteEntry(habitId, date);
+  const stored = await send({
+    method: mine ? 'PUT' : 'DELETE',
+    path: entryPath(habitId, date),
+    body: { ...mine, base },
+    conflict: { habitId, date, base, mine },
+  }) as HabitEntry | undefined;
+  if (!stored || sameEntry(stored, mine)) return undefined;
+  await localDb.putEntry(stored);
+  return stored;
+}
+
+let flushing: Promise<number> | null = null;
+
+/**
+ * Replays the outbox in order and resolves to the number of writes still
+ * waiting, which is zero unless the connection dropped again. Writes the
+ * server refuses are dropped, since retrying won't help, and reported once the
+ * rest have gone through.
+ */
+function flushQueuedWrites(): Promise<number> {
+  flushing ??= (async () => {
+    let rejected: ApiError | null = null;
+    try {
+      for (const queued of await localDb.listQueuedWrites()) {
+        try {
+          await replay(queued);
+        } catch (err) {
+          if (!(err instanceof ApiError)) return (await localDb.listQueuedWrites()).length;
+          rejected ??= err;
+        }
+        await localDb.removeQueuedWrite(queued.id!);
+      }
+    } finally {
+      flushing = null;
+    }
+    if (rejected) throw new ApiError(rejected.status, `A change made offline was rejected: ${rejected.message}`);
+    return 0;
+  })();
+  return flushing;
+}
+
+// For calls that need the server's answer; queued changes go first so the answer includes them
+async function requestState(path: string, init: RequestInit): Promise<AppState> {
+  if ((await flushQueuedWrites()) > 0) throw new ApiError(503, 'This needs a connection to the server');
+  const state = await request<AppState>(path, init);
+  await localDb.replaceState(state);
+  return state;
+}
+
+// Changes waiting on the device were made under the current account, so they go out before it changes
+async function beforeAccountChange() {
+  if ((await flushQueuedWrites()) > 0) {
+    throw new ApiError(503, 'Changes made offline have to reach the server before switching accounts');
+  }
+}
+
+// The local copy and its conflicts belong to the previous account; the next sync loads the new one's data
+async function setSession(session: Session | null) {
+  if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session)); else localStorage.removeItem(SESSION_KEY);
+  await localDb.clearConflicts();
+  await localDb.replaceState({ habits: [], entries: [] });
+}
+
+/**
+ * Signs in and loads the account's data. With `keepDeviceData` the grid on
+ * this device, queued changes included, is merged into the account instead
+ * of being left behind; nothing else ever moves data between accounts.
+ */
+async function signIn(path: string, body: object, keepDeviceData: boolean): Promise<User> {
+  const deviceState = keepDeviceData ? await localDb.getState() : null;
+  if (!deviceState) await beforeAccountChange();
+  const session = await request<Session>(path, { method: 'POST', body: JSON.stringify(body) });
+  await setSession(session);
+  if (deviceState) {
+    await localDb.clearQueuedWrites();
+    await localDb.mergeState(deviceState);
+    await send({ method: 'POST', path: '/import?mode=merge', body: deviceState });
+  }
+  return session.user;
+}
+
+export const api = {
+  /** The server's state when it is reachable and nothing is waiting to be sent, otherwise this device's copy. */
+  async getState(): Promise<AppState> {
+    if ((await localDb.listQueuedWrites()).length > 0) return localDb.getState();
+    try {
+      const state = await request<AppState>('/state');
+      await localDb.replaceState(state);
+      return state;
+    } catch (err) {
+      if (err instanceof ApiError) throw err;
+      return localDb.getState();
+    }
+  },
+  getLocalState: () => localDb.getState(),
+  flushQueuedWrites,
+  countQueuedWrites: async () => (await localDb.listQueuedWrites()).length,
+  importState: (state: AppState, mode: ImportMode = 'merge') =>
+    requestState(`/import?mode=${mode}`, { method: 'POST', body: JSON.stringify(state) }),
+  // Copies data from an older build into this device and queues it for the server
+  async importLocalState(state: AppState) {
+    await localDb.mergeState(state);
+    await send({ method: 'POST', path: '/import?mode=merge', body: state });
+  },
+
+  /** Resolves to the stored habit, whose id differs when another account already uses this one. */
+  async createHabit(habit: Habit) {
+    await localDb.putHabit(habit);
+    const created = await send({ method: 'POST', path: '/habits', body: habit }) as Habit | undefined;
+    if (created && created.id !== habit.id) {
+      await localDb.deleteHabit(habit.id);
+      await localDb.putHabit(created);
+    }
+    return created;
+  },
+  async updateHabit(habit: Habit) {
+    await localDb.putHabit(habit);
+    await send({ method: 'PUT', path: habitPath(habit.id), body: habit });
+  },
+  /** Keeps `habit`, which already has them, on the device and sends only the newly reached achievements. */
+  async recordAchievements(habit: Habit, reached: Achievement[]) {
+    await localDb.putHabit(habit);
+    await send({ method: 'POST', path: `${habitPath(habit.id)}/achievements`, body: { achievements: reached } });
+  },
+  async reorderHabits(ids: string[]) {
+    await localDb.setHabitOrder(ids);
+    await send({ method: 'PUT', path: '/habits/order', body: { ids } });
+  },
+  async deleteHabit(id: string) {
+    await localDb.deleteHabit(id);
+    await send({ method: 'DELETE', path: habitPath(id) });
+  },
+  listDeletedHabits: () => request<Habit[]>('/habits/deleted'),
+  restoreHabit: (id: string) => requestState(`${habitPath(id)}/restore`, { method: 'POST' }),
+
+  saveEntry: (entry: HabitEntry) => writeEntry(entry.habitId, entry.date, entry),
+  deleteEntry: (habitId: string, date: string) => writeEntry(habitId, date, null),
+
+  listConflicts: () => localDb.listConflicts(),
+  /** Settles a conflict on one side; keeping this device's copy writes it over the server's. */
+  async resolveConflict(conflict: SyncConflict, keep: 'mine' | 'theirs') {
+    const { habitId, date, mine, theirs } = conflict;
+    await localDb.removeConflict(habitId, date);
+    if (keep === 'mine') {
+      await writeEntry(habitId, date, mine, theirs);
+    } else if (theirs) {
+      await localDb.putEntry(theirs);
+    } else {
+      await localDb.deleteEntry(habitId, date);
+    }
+  },
+
+  listActivity: (limit = 200) => request<ActivityItem[]>(`/activity?limit=${limit}`),
+  getInsights: (weekStart: string) =>
+    request<WeeklyInsights>('/insights', { method: 'POST', body: JSON.stringify({ weekStart }) }),
+
+  /** The signed-in account, or null. A token the server no longer accepts signs this device out. */
+  async getCurrentUser(): Promise<User | null> {
+    const session = loadSession();
+    if (!session) return null;
+    try {
+      const user = await request<User>('/auth/me');
+      localStorage.setItem(SESSION_KEY, JSON.stringify({ ...session, user }));
+      return user;
+    } catch (err) {
+      if (!(err instanceof ApiError)) return session.user;
+      if (err.status !== 401) throw err;
+      await setSession(null);
+      return null;
+    }
+  },
+  register: (name: string, email: string, password: string, keepDeviceData = false) =>
+    signIn('/auth/register', { name, email, password }, keepDeviceData),
+  login: (email: string, password: string, keepDeviceData = false) =>
+    signIn('/auth/login', { email, password }, keepDeviceData),
+  /** Keeps the theme with the account, so it follows the user to their other devices. */
+  async setTheme(theme: ThemePreference): Promise<User> {
+    const user = await request<User>('/auth/me/theme', { method: 'PUT', body: JSON.stringify({ theme }) });
+    const session = loadSession();
+    if (session) localStorage.setItem(SESSION_KEY, JSON.stringify({ ...session, user }));
+    return user;
+  },
+  async logout() {
+    await beforeAccountChange();
+    await request<void>('/auth/logout', { method: 'POST' });
+    await setSession(null);
+  },
+
+  listTeams: () => request<Team[]>('/teams'),
+  getTeam: (id: string) => request<TeamDetail>(teamPath(id)),
+  createTeam: (name: string) => request<Team>('/teams', { method: 'POST', body: JSON.stringify({ name }) }),
+  joinTeam: (code: string) => request<Team>('/teams/join', { method: 'POST', body: JSON.stringify({ code }) }),
+  leaveTeam: (id: string) => request<void>(`${teamPath(id)}/members/me`, { method: 'DELETE' }),
+  shareHabits: (teamId: string, habitIds: string[]) =>
+    request<void>(`${teamPath(teamId)}/habits`, { method: 'PUT', body: JSON.stringify({ habitIds }) }),
+  createChallenge: (teamId: string, challenge: Pick<Challenge, 'name' | 'startDate' | 'days' | 'target' | 'measure'>) =>
+    request<{ id: string }>(`${teamPath(teamId)}/challenges`, { method: 'POST', body: JSON.stringify(challenge) }),
+  joinChallenge: (teamId: string, challengeId: string, habitId: string) =>
+    request<void>(`${teamPath(teamId)}/challenges/${encodeURIComponent(challengeId)}/join`, { method: 'POST', body: JSON.stringify({ habitId }) }),
+};
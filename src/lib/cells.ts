@@ -0,0 +1,54 @@
+import { format } from 'date-fns';
+import { Habit, HabitEntry } from '../types';
+import { getUnitLabel, isLimitHabit, isTimeHabit } from './measure';
+import { CellState, scoreDay } from './scoring';
+import { getTargetOn } from './targets';
+import { toDateKey } from './dates';
+import { tint } from './theme';
+
+/** How a habit's day should render, shared by every grid view. */
+export function getCellState(habit: Habit, day: Date, entry: HabitEntry | undefined, entries: HabitEntry[]): CellState {
+  return scoreDay(habit, day, entry, entries).state;
+}
+
+export const CELL_BACKGROUNDS: Record<CellState, string> = {
+  done: 'bg-done/20',
+  partial: 'bg-done/10',
+  skipped: 'bg-ink/10',
+  failed: 'bg-fail/20',
+  missed: 'bg-fail/20',
+  logged: 'bg-transparent',
+  unscheduled: 'unscheduled-cell',
+  open: 'bg-transparent',
+};
+
+// A habit's own color stands in for the done shading, at the same strengths
+const HABIT_SHADES: Partial<Record<CellState, number>> = { done: 20, partial: 10 };
+
+/** Inline shading for a cell of a habit with its own color; undefined leaves it to CELL_BACKGROUNDS. */
+export function getCellStyle(habit: Habit, state: CellState): { backgroundColor: string } | undefined {
+  const shade = HABIT_SHADES[state];
+  return habit.color && shade ? { backgroundColor: tint(habit.color, shade) } : undefined;
+}
+
+// Spoken and shown alongside the colors, which not everyone can tell apart
+export const CELL_LABELS: Record<CellState, string> = {
+  done: 'done',
+  partial: 'partly done',
+  skipped: 'rest day',
+  failed: 'failed',
+  missed: 'missed',
+  logged: 'logged',
+  unscheduled: 'not scheduled',
+  open: 'not logged',
+};
+
+/** Screen reader label for a cell, e.g. `Reading, Oct 3, done, 25 of 20 minutes`. */
+export function describeCell(habit: Habit, day: Date, entry: HabitEntry | undefined, state: CellState): string {
+  const date = toDateKey(day);
+  const unit = isTimeHabit(habit) ? 'minutes' : getUnitLabel(habit);
+  const amount = entry || state === 'missed'
+    ? `, ${entry?.timeSpent ?? 0} of ${isLimitHabit(habit) ? 'at most ' : ''}${getTargetOn(habit, date)} ${unit}`
+    : '';
+  return `${habit.name}, ${format(day, 'MMM d')}, ${CELL_LABELS[state]}${amount}${entry?.notes ? ', has notes' : ''}`;
+}
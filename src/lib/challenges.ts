@@ -0,0 +1,38 @@
+import { addDays, parseISO, subDays } from 'date-fns';
+import { Challenge, HabitEntry, LeaderboardRow } from '../types';
+import { toDateKey } from './dates';
+
+type ChallengeWindow = Pick<Challenge, 'startDate' | 'days' | 'target'>;
+
+/** The challenge's last day, YYYY-MM-DD. */
+export const getChallengeEnd = (challenge: Pick<Challenge, 'startDate' | 'days'>) =>
+  toDateKey(addDays(parseISO(challenge.startDate), challenge.days - 1));
+
+/**
+ * One participant's standing on `today` (YYYY-MM-DD). A day counts when its
+ * logged amount reaches the challenge target, whatever the habit's own goal;
+ * today only adds to the streak once it has been met.
+ */
+export function scoreChallenge(challenge: ChallengeWindow, entries: HabitEntry[], today: string) {
+  const end = getChallengeEnd(challenge) < today ? getChallengeEnd(challenge) : today;
+  const inWindow = entries.filter(e => e.date >= challenge.startDate && e.date <= end);
+  const met = new Set(inWindow.filter(e => e.timeSpent >= challenge.target).map(e => e.date));
+
+  let day = parseISO(end);
+  if (end === today && !met.has(today)) day = subDays(day, 1);
+  let streak = 0;
+  while (toDateKey(day) >= challenge.startDate && met.has(toDateKey(day))) {
+    streak++;
+    day = subDays(day, 1);
+  }
+
+  return {
+    daysMet: met.size,
+    total: inWindow.reduce((sum, e) => sum + e.timeSpent, 0),
+    streak,
+  };
+}
+
+/** Most days met first, then the larger total. */
+export const rankLeaderboard = (rows: LeaderboardRow[]) =>
+  [...rows].sort((a, b) => b.daysMet - a.daysMet || b.total - a.total || a.name.localeCompare(b.name));
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DaySettings, getDateKeyAt, getDaySettings, getToday, getTodayKey, setDaySettings, toDateKey, withDaySettings } from './dates';
+
+const berlin = (dayStartHour: number): DaySettings => ({ dayStartHour, timeZone: 'Europe/Berlin' });
+const original = getDaySettings();
+
+afterEach(() => setDaySettings(original));
+
+describe('getDateKeyAt', () => {
+  // 00:30 on Friday, Oct 11 2024 in Berlin (CEST, UTC+2)
+  const lateNight = new Date('2024-10-10T22:30:00Z');
+
+  it('counts the small hours for the day before until the day starts', () => {
+    expect(getDateKeyAt(lateNight, berlin(4))).toBe('2024-10-10');
+    expect(getDateKeyAt(lateNight, berlin(0))).toBe('2024-10-11');
+    expect(getDateKeyAt(new Date('2024-10-11T01:59:59Z'), berlin(4))).toBe('2024-10-10');
+    expect(getDateKeyAt(new Date('2024-10-11T02:00:00Z'), berlin(4))).toBe('2024-10-11');
+  });
+
+  it('reads the clock in the home time zone, wherever the device is', () => {
+    expect(getDateKeyAt(lateNight, { dayStartHour: 0, timeZone: 'America/New_York' })).toBe('2024-10-10');
+    expect(getDateKeyAt(lateNight, { dayStartHour: 0, timeZone: 'Asia/Tokyo' })).toBe('2024-10-11');
+    expect(getDateKeyAt(lateNight, { dayStartHour: 0, timeZone: 'UTC' })).toBe('2024-10-10');
+  });
+
+  it('goes by the wall clock when the clocks go back', () => {
+    // Berlin falls back from 03:00 CEST to 02:00 CET on Oct 27 2024
+    expect(getDateKeyAt(new Date('2024-10-26T23:30:00Z'), berlin(4))).toBe('2024-10-26'); // 01:30 CEST
+    expect(getDateKeyAt(new Date('2024-10-27T01:30:00Z'), berlin(4))).toBe('2024-10-26'); // 02:30 CET
+    expect(getDateKeyAt(new Date('2024-10-27T02:59:59Z'), berlin(4))).toBe('2024-10-26'); // 03:59 CET
+    expect(getDateKeyAt(new Date('2024-10-27T03:00:00Z'), berlin(4))).toBe('2024-10-27'); // 04:00 CET
+  });
+
+  it('goes by the wall clock when the clocks go forward', () => {
+    // New York springs forward from 02:00 EST to 03:00 EDT on Mar 10 2024
+    const newYork = { dayStartHour: 4, timeZone: 'America/New_York' };
+    expect(getDateKeyAt(new Date('2024-03-10T06:59:59Z'), newYork)).toBe('2024-03-09'); // 01:59 EST
+    expect(getDateKeyAt(new Date('2024-03-10T07:30:00Z'), newYork)).toBe('2024-03-09'); // 03:30 EDT
+    expect(getDateKeyAt(new Date('2024-03-10T08:00:00Z'), newYork)).toBe('2024-03-10'); // 04:00 EDT
+  });
+
+  it('keeps the date across month and year ends', () => {
+    expect(getDateKeyAt(new Date('2025-01-01T01:00:00Z'), berlin(4))).toBe('2024-12-31');
+    expect(getDateKeyAt(new Date('2024-03-01T00:30:00Z'), berlin(4))).toBe('2024-02-29');
+  });
+});
+
+describe('getTodayKey', () => {
+  it('uses the settings the app handed over', () => {
+    const now = new Date('2024-10-10T22:30:00Z');
+    setDaySettings(berlin(4));
+    expect(getTodayKey(now)).toBe('2024-10-10');
+    expect(toDateKey(getToday(now))).toBe('2024-10-10');
+    setDaySettings(berlin(0));
+    expect(getTodayKey(now)).toBe('2024-10-11');
+  });
+});
+
+describe('withDaySettings', () => {
+  it('borrows settings for one call and puts the current ones back', () => {
+    const now = new Date('2024-10-10T22:30:00Z');
+    setDaySettings(berlin(0));
+    expect(withDaySettings(berlin(4), () => getTodayKey(now))).toBe('2024-10-10');
+    expect(getDaySettings()).toEqual(berlin(0));
+    expect(() => withDaySettings(berlin(4), () => { throw new Error('boom'); })).toThrow('boom');
+    expect(getDaySettings()).toEqual(berlin(0));
+  });
+});
@@ -0,0 +1,91 @@
+import { format, parseISO, subDays } from 'date-fns';
+
+/**
+ * When a habit day begins. Days are keyed YYYY-MM-DD in the home time zone, so
+ * travelling doesn't move or duplicate them, and a day can run past midnight:
+ * with `dayStartHour` 4, meditating at 00:30 still counts for the day before.
+ */
+export interface DaySettings {
+  dayStartHour: number; // 0-23, local hour in the home time zone
+  timeZone: string; // IANA name, e.g. Europe/Berlin
+}
+
+export const getDeviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const DEFAULT_DAY_SETTINGS: DaySettings = {
+  dayStartHour: 0,
+  timeZone: getDeviceTimeZone(),
+};
+
+let current: DaySettings = DEFAULT_DAY_SETTINGS;
+
+export const getDaySettings = () => current;
+
+/** Applies to every date calculation from here on; the app calls it as the setting loads or changes. */
+export function setDaySettings(settings: DaySettings) {
+  current = settings;
+}
+
+/**
+ * Runs `fn` with other settings in place and then puts the current ones back,
+ * e.g. for the settings a request to the server came with. `fn` has to finish
+ * synchronously, or other code would see the borrowed settings.
+ */
+export function withDaySettings<T>(settings: DaySettings, fn: () => T): T {
+  const previous = current;
+  current = settings;
+  try {
+    return fn();
+  } finally {
+    current = previous;
+  }
+}
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** The key for a calendar day, e.g. a grid row; the Date's own fields are read, never converted. */
+export const toDateKey = (day: Date) => format(day, 'yyyy-MM-dd');
+
+/** The calendar day for a key, at local midnight like the days the grid is built from. */
+export const parseDateKey = (key: string) => parseISO(key);
+
+// The wall clock in a time zone at one instant
+function getZonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)!.value;
+  return { date: `${part('year')}-${part('month')}-${part('day')}`, hour: Number(part('hour')), time: `${part('hour')}:${part('minute')}` };
+}
+
+/** The habit day an instant falls in, e.g. when something was logged. */
+export function getDateKeyAt(instant: Date, settings: DaySettings = current): string {
+  const { date, hour } = getZonedParts(instant, settings.timeZone);
+  return hour < settings.dayStartHour ? toDateKey(subDays(parseDateKey(date), 1)) : date;
+}
+
+export const getTodayKey = (now = new Date()) => getDateKeyAt(now);
+
+/** The time of day at home as `HH:mm`, e.g. for reminder times, wherever the device is. */
+export const getClockAt = (instant: Date, settings: DaySettings = current) => getZonedParts(instant, settings.timeZone).time;
+
+/** Today as a calendar day, in place of date-fns' `startOfToday`. */
+export const getToday = (now = new Date()) => parseDateKey(getTodayKey(now));
+
+export const isToday = (day: Date) => toDateKey(day) === getTodayKey();
+
+/** `4:00`, or `midnight` for the default. */
+export const formatDayStart = (hour: number) => (hour === 0 ? 'midnight' : `${hour}:00`);
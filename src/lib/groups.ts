@@ -0,0 +1,59 @@
+import { Habit } from '../types';
+
+export interface HabitGroup {
+  name: string | null; // null collects ungrouped habits
+  habits: Habit[];
+}
+
+export const isArchived = (habit: Habit) => !!habit.archivedAt;
+
+/** Comma-separated form input to a clean tag list, dropping blanks and case-insensitive duplicates. */
+export function parseTags(value: string): string[] {
+  const seen = new Set<string>();
+  return value.split(',').map(tag => tag.trim()).filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export const getAllTags = (habits: Habit[]) =>
+  [...new Set(habits.flatMap(h => h.tags ?? []))].sort((a, b) => a.localeCompare(b));
+
+export const getAllGroups = (habits: Habit[]) =>
+  [...new Set(habits.map(h => h.group).filter((g): g is string => !!g))];
+
+export const hasTag = (habit: Habit, tag: string) =>
+  (habit.tags ?? []).some(t => t.toLowerCase() === tag.toLowerCase());
+
+/**
+ * Gathers habits into contiguous groups for the grid columns. Groups appear
+ * where their first habit sits in the column order, and keep that order inside.
+ */
+export function groupHabits(habits: Habit[]): HabitGroup[] {
+  const groups = new Map<string | null, Habit[]>();
+  for (const habit of habits) {
+    const name = habit.group ?? null;
+    if (!groups.has(name)) groups.set(name, []);
+    groups.get(name)!.push(habit);
+  }
+  return [...groups].map(([name, members]) => ({ name, habits: members }));
+}
+
+/** Habits in the order of `ids`; any not listed keep their relative order at the end. */
+export function sortByOrder(habits: Habit[], ids: string[]): Habit[] {
+  const rank = new Map(ids.map((id, i) => [id, i]));
+  return [...habits].sort((a, b) => (rank.get(a.id) ?? ids.length) - (rank.get(b.id) ?? ids.length));
+}
+
+/** Moves `draggedId` into `targetId`'s slot, shifting the habits in between. */
+export function moveHabit(habits: Habit[], draggedId: string, targetId: string): Habit[] {
+  const from = habits.findIndex(h => h.id === draggedId);
+  const to = habits.findIndex(h => h.id === targetId);
+  if (from < 0 || to < 0 || from === to) return habits;
+  const next = [...habits];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
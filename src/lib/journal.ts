@@ -0,0 +1,73 @@
+import { Habit, HabitEntry, Rating } from '../types';
+
+export type RatingKind = 'mood' | 'energy';
+
+export const RATING_KINDS: RatingKind[] = ['mood', 'energy'];
+
+export const RATINGS: Rating[] = [1, 2, 3, 4, 5];
+
+// What each rating means, lowest first
+export const RATING_LABELS: Record<RatingKind, string[]> = {
+  mood: ['Awful', 'Low', 'Okay', 'Good', 'Great'],
+  energy: ['Drained', 'Tired', 'Steady', 'Energized', 'Buzzing'],
+};
+
+export const isRating = (value: unknown): value is Rating =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 5;
+
+/** `mood 4/5 Good // energy 2/5 Tired` for the ratings a day has, or an empty string. */
+export const formatRatings = (entry: HabitEntry) =>
+  RATING_KINDS.filter(kind => entry[kind]).map(kind => `${kind} ${entry[kind]}/5 ${RATING_LABELS[kind][entry[kind]! - 1]}`).join(' // ');
+
+/** Tags as typed, e.g. `#travel, Sick`: lowercase, without the #, each once. */
+export function parseEntryTags(text: string): string[] {
+  return [...new Set(text.split(/[\s,]+/).map(tag => tag.replace(/^#+/, '').toLowerCase()).filter(Boolean))];
+}
+
+/** `#travel #sick`, or an empty string without tags. */
+export const formatEntryTags = (tags?: string[]) => (tags ?? []).map(tag => `#${tag}`).join(' ');
+
+/** Whether a day has anything for the journal: notes, session notes, ratings or tags. */
+export const hasJournal = (entry: HabitEntry) =>
+  !!(entry.notes?.trim() || entry.sessions?.some(s => s.note?.trim()) || entry.mood || entry.energy || entry.tags?.length);
+
+export interface JournalItem {
+  habit: Habit;
+  entry: HabitEntry;
+}
+
+// Everything a search looks through for one day
+const searchableText = (habit: Habit, entry: HabitEntry) =>
+  [habit.name, entry.notes ?? '', ...(entry.sessions ?? []).map(s => s.note ?? ''), ...(entry.tags ?? [])].join('\n').toLowerCase();
+
+/**
+ * Journal days across all habits, newest first. Every word of `query` has to
+ * appear in the habit name, notes, session notes or tags; `#word`s in the query
+ * and each of `tags` have to be among the day's tags.
+ */
+export function searchJournal(habits: Habit[], entries: HabitEntry[], query: string, tags: string[] = []): JournalItem[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const requiredTags = [...tags, ...parseEntryTags(words.filter(w => w.startsWith('#')).join(' '))];
+  const terms = words.filter(w => !w.startsWith('#'));
+  const byId = new Map(habits.map(h => [h.id, h]));
+  return entries
+    .flatMap(entry => {
+      const habit = byId.get(entry.habitId);
+      if (!habit || !hasJournal(entry)) return [];
+      if (!requiredTags.every(tag => entry.tags?.includes(tag))) return [];
+      const text = searchableText(habit, entry);
+      return terms.every(term => text.includes(term)) ? [{ habit, entry }] : [];
+    })
+    .sort((a, b) => b.entry.date.localeCompare(a.entry.date) || a.habit.name.localeCompare(b.habit.name));
+}
+
+/** Every tag used, most used first. */
+export function getJournalTags(entries: HabitEntry[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    for (const tag of entry.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,189 @@
+import { AppState, Habit, HabitEntry, SyncConflict } from '../types';
+
+const DB_NAME = 'habitgrid';
+const HABIT_ORDER_KEY = 'habitOrder';
+
+// A server write made while offline, replayed in order once the server is reachable
+export interface QueuedWrite {
+  id?: number; // assigned by the outbox store
+  method: 'POST' | 'PUT' | 'DELETE';
+  path: string;
+  body?: unknown;
+  conflict?: Omit<SyncConflict, 'theirs'>; // on entry writes, what to ask the user if the server's copy moved on
+}
+
+/**
+ * Schema versions, oldest first. Each runs once inside the upgrade transaction;
+ * append new ones to the end and never edit a shipped one.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  db => {
+    db.createObjectStore('habits', { keyPath: 'id' });
+    const entries = db.createObjectStore('entries', { keyPath: ['habitId', 'date'] });
+    entries.createIndex('habitId', 'habitId');
+    db.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true });
+    db.createObjectStore('meta'); // small key-value records such as the column order
+  },
+  db => {
+    db.createObjectStore('conflicts', { keyPath: ['habitId', 'date'] });
+  },
+];
+
+let opening: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  opening ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+    request.onupgradeneeded = event => {
+      for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+        MIGRATIONS[version](request.result, request.transaction!);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return opening;
+}
+
+const completed = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = tx.onabort = () => reject(tx.error);
+  });
+
+const result = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+async function write(stores: string[], run: (tx: IDBTransaction) => void): Promise<void> {
+  const tx = (await openDb()).transaction(stores, 'readwrite');
+  run(tx);
+  return completed(tx);
+}
+
+async function read<T>(store: string, query: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const tx = (await openDb()).transaction(store, 'readonly');
+  return result(query(tx.objectStore(store)));
+}
+
+// Rewrites the stored column order once the current one has been read, in the same transaction
+function updateOrder(tx: IDBTransaction, change: (ids: string[]) => string[]) {
+  const meta = tx.objectStore('meta');
+  meta.get(HABIT_ORDER_KEY).onsuccess = event => {
+    const ids = ((event.target as IDBRequest<string[] | undefined>).result) ?? [];
+    meta.put(change(ids), HABIT_ORDER_KEY);
+  };
+}
+
+function deleteEntriesOf(tx: IDBTransaction, habitId: string) {
+  tx.objectStore('entries').index('habitId').openKeyCursor(IDBKeyRange.only(habitId)).onsuccess = event => {
+    const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+    if (!cursor) return;
+    tx.objectStore('entries').delete(cursor.primaryKey);
+    cursor.continue();
+  };
+}
+
+/**
+ * The copy of habits and entries kept on this device, so the grid loads and
+ * takes changes without a connection. Every change writes only the records it
+ * touches.
+ */
+export const localDb = {
+  async getState(): Promise<AppState> {
+    const [habits, entries, order] = await Promise.all([
+      read<Habit[]>('habits', store => store.getAll()),
+      read<HabitEntry[]>('entries', store => store.getAll()),
+      read<string[] | undefined>('meta', store => store.get(HABIT_ORDER_KEY)),
+    ]);
+    const rank = new Map((order ?? []).map((id, i) => [id, i]));
+    habits.sort((a, b) => (rank.get(a.id) ?? habits.length) - (rank.get(b.id) ?? habits.length));
+    return { habits, entries };
+  },
+
+  // Takes the server's state as the new local copy
+  replaceState: (state: AppState) =>
+    write(['habits', 'entries', 'meta'], tx => {
+      tx.objectStore('habits').clear();
+      tx.objectStore('entries').clear();
+      state.habits.forEach(habit => tx.objectStore('habits').put(habit));
+      state.entries.forEach(entry => tx.objectStore('entries').put(entry));
+      tx.objectStore('meta').put(state.habits.map(h => h.id), HABIT_ORDER_KEY);
+    }),
+
+  // Adds records without dropping any, for data carried over from an older build
+  mergeState: (state: AppState) =>
+    write(['habits', 'entries', 'meta'], tx => {
+      state.habits.forEach(habit => tx.objectStore('habits').put(habit));
+      state.entries.forEach(entry => tx.objectStore('entries').put(entry));
+      updateOrder(tx, ids => [...ids, ...state.habits.map(h => h.id).filter(id => !ids.includes(id))]);
+    }),
+
+  putHabit: (habit: Habit) =>
+    write(['habits', 'meta'], tx => {
+      tx.objectStore('habits').put(habit);
+      updateOrder(tx, ids => (ids.includes(habit.id) ? ids : [...ids, habit.id]));
+    }),
+
+  deleteHabit: (id: string) =>
+    write(['habits', 'entries', 'meta'], tx => {
+      tx.objectStore('habits').delete(id);
+      deleteEntriesOf(tx, id);
+      updateOrder(tx, ids => ids.filter(i => i !== id));
+    }),
+
+  setHabitOrder: (ids: string[]) =>
+    write(['meta'], tx => {
+      tx.objectStore('meta').put(ids, HABIT_ORDER_KEY);
+    }),
+
+  getEntry: (habitId: string, date: string) =>
+    read<HabitEntry | undefined>('entries', store => store.get([habitId, date])),
+
+  putEntry: (entry: HabitEntry) =>
+    write(['entries'], tx => {
+      tx.objectStore('entries').put(entry);
+    }),
+
+  deleteEntry: (habitId: string, date: string) =>
+    write(['entries'], tx => {
+      tx.objectStore('entries').delete([habitId, date]);
+    }),
+
+  queueWrite: (queued: QueuedWrite) =>
+    write(['outbox'], tx => {
+      tx.objectStore('outbox').add(queued);
+    }),
+
+  listQueuedWrites: () => read<QueuedWrite[]>('outbox', store => store.getAll()),
+
+  removeQueuedWrite: (id: number) =>
+    write(['outbox'], tx => {
+      tx.objectStore('outbox').delete(id);
+    }),
+
+  clearQueuedWrites: () =>
+    write(['outbox'], tx => {
+      tx.objectStore('outbox').clear();
+    }),
+
+  // A newer conflict on the same day replaces the older one
+  putConflict: (conflict: SyncConflict) =>
+    write(['conflicts'], tx => {
+      tx.objectStore('conflicts').put(conflict);
+    }),
+
+  listConflicts: () => read<SyncConflict[]>('conflicts', store => store.getAll()),
+
+  removeConflict: (habitId: string, date: string) =>
+    write(['conflicts'], tx => {
+      tx.objectStore('conflicts').delete([habitId, date]);
+    }),
+
+  clearConflicts: () =>
+    write(['conflicts'], tx => {
+      tx.objectStore('conflicts').clear();
+    }),
+};
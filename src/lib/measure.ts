@@ -0,0 +1,94 @@
+import { Habit, HabitEntry, HabitMeasure, TargetDirection } from '../types';
+import { getTodayKey } from './dates';
+import { getTargetOn } from './targets';
+
+export const MEASURES: { measure: HabitMeasure; label: string }[] = [
+  { measure: 'time', label: 'Time' },
+  { measure: 'count', label: 'Count' },
+];
+
+export const DIRECTIONS: { direction: TargetDirection; label: string }[] = [
+  { direction: 'atLeast', label: 'At Least' },
+  { direction: 'atMost', label: 'At Most' },
+];
+
+export const isTimeHabit = (habit: Habit) => (habit.measure ?? 'time') === 'time';
+
+export const isLimitHabit = (habit: Habit) => habit.direction === 'atMost';
+
+/** Long unit name for labels and chart axes, e.g. `Minutes` or `glasses`. */
+export const getUnitLabel = (habit: Habit) => (isTimeHabit(habit) ? 'Minutes' : habit.unit || 'times');
+
+/** `25m` for time habits, `3 glasses` for counts. */
+export function formatAmount(habit: Habit, amount: number): string {
+  return isTimeHabit(habit) ? `${amount}m` : `${amount} ${getUnitLabel(habit)}`;
+}
+
+/** The goal on `date`, or without one the current goal, which a running program moves from week to week. */
+export const targetFor = (habit: Habit, date?: string) =>
+  date || habit.program ? getTargetOn(habit, date ?? getTodayKey()) : habit.targetTime;
+
+/** The goal with its unit, `30m` or `≤1 coffees` for a limit; the latest goal unless a date is given. */
+export const formatTarget = (habit: Habit, date?: string) =>
+  `${isLimitHabit(habit) ? '≤' : ''}${formatAmount(habit, targetFor(habit, date))}`;
+
+/** Amount against that day's goal as shown in cells: `20/30m`, or `2/≤1 coffees` for a limit. */
+export const formatProgress = (habit: Habit, amount: number, date: string) =>
+  `${amount}/${formatTarget(habit, date)}`;
+
+/** Column header summary, e.g. `Goal: 30m` or `Limit: 1 coffees`. */
+export const formatGoal = (habit: Habit) =>
+  `${isLimitHabit(habit) ? 'Limit' : 'Goal'}: ${formatAmount(habit, targetFor(habit))}`;
+
+export function meetsTarget(habit: Habit, amount: number, date: string): boolean {
+  const target = getTargetOn(habit, date);
+  return isLimitHabit(habit) ? amount <= target : amount >= target;
+}
+
+/**
+ * How close a day's amount is to success, 0..1. Below a target earns its
+ * share; over a limit loses credit in proportion to the overshoot, so a
+ * zero limit fails outright on any amount.
+ */
+export function getTargetProgress(habit: Habit, amount: number, date: string): number {
+  const target = getTargetOn(habit, date);
+  if (isLimitHabit(habit)) {
+    if (amount <= target) return 1;
+    return target > 0 ? Math.max(0, 1 - (amount - target) / target) : 0;
+  }
+  return Math.min(1, amount / target);
+}
+
+/** Credit for a logged day under the habit's success rule, judged against that day's goal. */
+export function getEntryCredit(habit: Habit, entry: HabitEntry): number {
+  switch (habit.successRule ?? 'manual') {
+    case 'target':
+      return meetsTarget(habit, entry.timeSpent, entry.date) ? 1 : 0;
+    case 'partial':
+      return getTargetProgress(habit, entry.timeSpent, entry.date);
+    default:
+      return entry.status === 'done' ? 1 : 0;
+  }
+}
+
+/** Second line of a grid cell: percent of the day's target, or what's left of its limit. */
+export function describeProgress(habit: Habit, amount: number, date: string): string {
+  const target = getTargetOn(habit, date);
+  if (!isLimitHabit(habit)) return `${Math.round((amount / target) * 100)}%`;
+  const left = target - amount;
+  return left >= 0 ? `${left} left` : `${-left} over`;
+}
+
+/** Reads the fields rendered by `MeasureFields`; null when the target isn't a valid number. */
+export function parseMeasureForm(formData: FormData): Pick<Habit, 'targetTime' | 'measure' | 'unit' | 'direction'> | null {
+  const measure = formData.get('measure') as HabitMeasure;
+  const direction = formData.get('direction') as TargetDirection;
+  const targetTime = parseInt(formData.get('targetTime') as string);
+  const unit = ((formData.get('unit') as string | null) ?? '').trim();
+  if (isNaN(targetTime) || targetTime < (direction === 'atMost' ? 0 : 1)) return null;
+  return {
+    targetTime,
+    ...(measure === 'count' ? { measure, ...(unit ? { unit } : {}) } : {}),
+    ...(direction === 'atMost' ? { direction } : {}),
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { Achievement, Habit } from '../types';
+import { addAchievements } from './milestones';
+
+const reached: Achievement = { milestoneId: 'm1', kind: 'doneDays', target: 10, achievedAt: '2024-10-08' };
+
+const habit: Habit = {
+  id: 'read',
+  name: 'Reading',
+  targetTime: 20,
+  milestones: [
+    { id: 'm1', kind: 'doneDays', target: 10, startDate: '2024-10-01', deadline: '2024-10-31' },
+    { id: 'm2', kind: 'total', target: 600, startDate: '2024-10-01', deadline: '2024-12-31' },
+  ],
+};
+
+describe('addAchievements', () => {
+  it('marks the milestone achieved and records the achievement', () => {
+    const updated = addAchievements(habit, [reached]);
+    expect(updated.milestones?.map(m => m.achievedAt)).toEqual(['2024-10-08', undefined]);
+    expect(updated.achievements).toEqual([reached]);
+  });
+
+  it('leaves a habit that already has them unchanged', () => {
+    const updated = addAchievements(habit, [reached]);
+    expect(addAchievements(updated, [reached])).toBe(updated);
+    expect(addAchievements(habit, [])).toBe(habit);
+  });
+
+  it('keeps achievements an older copy of the habit is missing', () => {
+    const achieved = addAchievements(habit, [reached]);
+    const renamed = { ...habit, name: 'Read More' };
+    expect(addAchievements(renamed, achieved.achievements!)).toMatchObject({ name: 'Read More', achievements: [reached] });
+    // Even when the milestone itself was removed since
+    expect(addAchievements({ ...habit, milestones: [] }, [reached])).toMatchObject({ milestones: [], achievements: [reached] });
+  });
+});
@@ -0,0 +1,180 @@
+import { addDays, eachDayOfInterval } from 'date-fns';
+import { Achievement, Habit, HabitEntry, Milestone, MilestoneKind } from '../types';
+import { getTodayKey, parseDateKey, toDateKey } from './dates';
+import { formatAmount, isTimeHabit } from './measure';
+import { scoreDay } from './scoring';
+import { calculateStreaks } from './streaks';
+
+export const MILESTONE_KINDS: { kind: MilestoneKind; label: string }[] = [
+  { kind: 'total', label: 'Total' },
+  { kind: 'doneDays', label: 'Days Done' },
+  { kind: 'streak', label: 'Streak' },
+];
+
+// upcoming milestones haven't started counting yet
+export type MilestoneStatus = 'upcoming' | 'onTrack' | 'behind' | 'reached' | 'missed';
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  upcoming: 'Not started',
+  onTrack: 'On track',
+  behind: 'Behind',
+  reached: 'Reached',
+  missed: 'Missed',
+};
+
+// Projections go by the pace over this many days up to today
+const PACE_DAYS = 28;
+
+export interface MilestoneProgress {
+  milestone: Milestone;
+  current: number; // the amount, done days, or running streak so far
+  fraction: number; // 0..1
+  status: MilestoneStatus;
+  reachedOn: string | null; // YYYY-MM-DD, the day the target was first met
+  projectedDate: string | null; // YYYY-MM-DD at the recent pace; null once reached or without any pace
+}
+
+export const newMilestoneId = () => Math.random().toString(36).substr(2, 9);
+
+/** `100h` or `12h 30m` for time habits, `30 glasses` for counts. */
+export function formatTotal(habit: Habit, amount: number): string {
+  if (!isTimeHabit(habit) || amount < 60) return formatAmount(habit, amount);
+  const hours = Math.floor(amount / 60);
+  const minutes = amount % 60;
+  return minutes ? `${hours}h ${minutes}m` : `${hours}h`;
+}
+
+/** e.g. `100h logged`, `60 days done` or `a 30-day streak`. */
+export function describeMilestone(habit: Habit, { kind, target }: Pick<Milestone, 'kind' | 'target'>): string {
+  if (kind === 'total') return `${formatTotal(habit, target)} logged`;
+  return kind === 'doneDays' ? `${target} days done` : `a ${target}-day streak`;
+}
+
+// Each day from `from` to `to` with what it counts for: the amount logged and whether it was done
+function getCountedDays(habit: Habit, entries: HabitEntry[], from: string, to: string) {
+  if (to < from) return [];
+  const habitEntries = entries.filter(e => e.habitId === habit.id);
+  const byDate = new Map(habitEntries.map(e => [e.date, e]));
+  return eachDayOfInterval({ start: parseDateKey(from), end: parseDateKey(to) }).map(day => {
+    const date = toDateKey(day);
+    const entry = byDate.get(date);
+    return { date, amount: entry?.timeSpent ?? 0, done: scoreDay(habit, day, entry, habitEntries).state === 'done' };
+  });
+}
+
+// A streak already running when the milestone starts counts in full, but has to reach the target by the deadline
+function getStreakProgress(habit: Habit, milestone: Milestone, entries: HabitEntry[]) {
+  const { history, current } = calculateStreaks(habit, entries);
+  let reachedOn: string | null = null;
+  for (const run of history) {
+    if (run.end < milestone.startDate || run.start > milestone.deadline || run.length < milestone.target) continue;
+    let done = 0;
+    const hit = getCountedDays(habit, entries, run.start, run.end).find(day => day.done && ++done >= milestone.target)!;
+    const on = hit.date < milestone.startDate ? milestone.startDate : hit.date;
+    if (on <= milestone.deadline) {
+      reachedOn = on;
+      break;
+    }
+  }
+  const latest = history[history.length - 1];
+  const running = current > 0 && latest.end >= milestone.startDate ? current : 0;
+  return { current: reachedOn ? milestone.target : running, reachedOn };
+}
+
+/**
+ * How far a milestone has come, and when it will be reached if the last four
+ * weeks' pace keeps up. Once recorded as achieved it stays reached, even if
+ * the days that reached it are edited later.
+ */
+export function getMilestoneProgress(habit: Habit, milestone: Milestone, entries: HabitEntry[]): MilestoneProgress {
+  const today = getTodayKey();
+  const days = getCountedDays(habit, entries, milestone.startDate, milestone.deadline < today ? milestone.deadline : today);
+  const counts = (day: { amount: number; done: boolean }) => (milestone.kind === 'total' ? day.amount : Number(day.done));
+
+  let current = 0;
+  let reachedOn: string | null = null;
+  if (milestone.kind === 'streak') {
+    ({ current, reachedOn } = getStreakProgress(habit, milestone, entries));
+  } else {
+    for (const day of days) {
+      current += counts(day);
+      if (!reachedOn && current >= milestone.target) reachedOn = day.date;
+    }
+  }
+  reachedOn = milestone.achievedAt ?? reachedOn;
+
+  // Done days per day stand in for a streak's pace too, so a schedule with rest days projects further out
+  const recent = days.slice(-PACE_DAYS);
+  const perDay = recent.length ? recent.reduce((sum, day) => sum + counts(day), 0) / recent.length : 0;
+  const projectedDate = reachedOn || perDay <= 0
+    ? null
+    : toDateKey(addDays(parseDateKey(today), Math.ceil((milestone.target - current) / perDay)));
+
+  const status: MilestoneStatus =
+    reachedOn ? 'reached' :
+    today > milestone.deadline ? 'missed' :
+    today < milestone.startDate ? 'upcoming' :
+    projectedDate && projectedDate <= milestone.deadline ? 'onTrack' :
+    'behind';
+  return {
+    milestone,
+    current,
+    fraction: reachedOn ? 1 : Math.min(1, current / milestone.target),
+    status,
+    reachedOn,
+    projectedDate,
+  };
+}
+
+/** The milestone to show under the column header: the open one with the nearest deadline. */
+export function getNextMilestone(habit: Habit, entries: HabitEntry[]): MilestoneProgress | null {
+  const today = getTodayKey();
+  const next = (habit.milestones ?? [])
+    .filter(m => !m.achievedAt && m.deadline >= today)
+    .sort((a, b) => a.deadline.localeCompare(b.deadline))[0];
+  return next ? getMilestoneProgress(habit, next, entries) : null;
+}
+
+/**
+ * Marks milestones reached since they were last checked and adds them to the
+ * habit's achievements. `reached` is empty, and the habit unchanged, when
+ * nothing new was reached.
+ */
+export function recordAchievements(habit: Habit, entries: HabitEntry[]): { habit: Habit; reached: Achievement[] } {
+  const reached: Achievement[] = [];
+  const milestones = (habit.milestones ?? []).map(milestone => {
+    if (milestone.achievedAt) return milestone;
+    const { reachedOn } = getMilestoneProgress(habit, milestone, entries);
+    if (!reachedOn) return milestone;
+    reached.push({ milestoneId: milestone.id, kind: milestone.kind, target: milestone.target, achievedAt: reachedOn });
+    return { ...milestone, achievedAt: reachedOn };
+  });
+  if (reached.length === 0) return { habit, reached };
+  return { habit: { ...habit, milestones, achievements: [...(habit.achievements ?? []), ...reached] }, reached };
+}
+
+/**
+ * Puts achievements on record: their milestones get marked achieved and any
+ * not recorded yet join the habit's achievements. Achievements only ever
+ * accumulate, so this is also how an older copy of a habit keeps the ones
+ * reached since, e.g. when undo or another device writes it back.
+ */
+export function addAchievements(habit: Habit, achievements: Achievement[]): Habit {
+  const recorded = new Set((habit.achievements ?? []).map(a => a.milestoneId));
+  const added: Achievement[] = [];
+  for (const achievement of achievements) {
+    if (recorded.has(achievement.milestoneId)) continue;
+    recorded.add(achievement.milestoneId);
+    added.push(achievement);
+  }
+  const byMilestone = new Map(achievements.map(a => [a.milestoneId, a]));
+  const marked = (habit.milestones ?? []).some(m => !m.achievedAt && byMilestone.has(m.id));
+  if (added.length === 0 && !marked) return habit;
+  return {
+    ...habit,
+    ...(habit.milestones ? {
+      milestones: habit.milestones.map(m => m.achievedAt || !byMilestone.has(m.id) ? m : { ...m, achievedAt: byMilestone.get(m.id)!.achievedAt }),
+    } : {}),
+    achievements: [...(habit.achievements ?? []), ...added],
+  };
+}
@@ -0,0 +1,36 @@
+import { subDays } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+import { Habit, TargetProgram } from '../types';
+import { getToday, getTodayKey, toDateKey } from './dates';
+import { targetFor } from './measure';
+import { withEditedGoal } from './programs';
+import { getTargetOn } from './targets';
+
+const today = getTodayKey();
+const daysAgo = (days: number) => toDateKey(subDays(getToday(), days));
+
+// Three weeks in: 10m, 5m more each week
+const program: TargetProgram = { startDate: daysAgo(14), start: 10, ramp: 'step', increase: 5, everyWeeks: 1, cap: 45 };
+const habit: Habit = { id: 'read', name: 'Reading', targetTime: 10, createdAt: daysAgo(30), program };
+
+describe('withEditedGoal', () => {
+  it('keeps the goal typed over a running program, ending the program the day before', () => {
+    // The form still has the program switched on, as it was when the dialog opened
+    const edited = withEditedGoal(habit, 12, today, program, today);
+    expect(edited.program).toEqual({ ...program, endDate: daysAgo(1) });
+    expect(getTargetOn(edited, today)).toBe(12);
+    expect(getTargetOn(edited, daysAgo(1))).toBe(15);
+    expect(targetFor(edited)).toBe(12);
+  });
+
+  it('leaves a running program alone when the goal shown is saved unchanged', () => {
+    expect(targetFor(habit)).toBe(20);
+    expect(withEditedGoal(habit, 20, today, program, today)).toEqual(habit);
+  });
+
+  it('still starts a program set up along with a new goal on a habit without one', () => {
+    const plain: Habit = { id: 'gym', name: 'Gym', targetTime: 30 };
+    const started = { ...program, startDate: today };
+    expect(withEditedGoal(plain, 40, today, started, today).program).toEqual(started);
+  });
+});
@@ -0,0 +1,148 @@
+import { addWeeks, format, subDays } from 'date-fns';
+import { Habit, RampKind, TargetProgram } from '../types';
+import { parseDateKey, toDateKey } from './dates';
+import { formatAmount, targetFor } from './measure';
+import { DEFAULT_DELOAD_PERCENT, getProgramTarget, isProgramWeekDeload, withTargetChange } from './targets';
+
+export type ProgramSettings = Omit<TargetProgram, 'startDate' | 'endDate'>;
+
+export interface ProgramTemplate {
+  id: string;
+  name: string;
+  description: string;
+  program: ProgramSettings;
+}
+
+// Starting points for the habit forms; every number can be changed after picking one
+export const PROGRAM_TEMPLATES: ProgramTemplate[] = [
+  {
+    id: 'build-up',
+    name: 'Build Up',
+    description: '10m, 5m more each week, up to 45m',
+    program: { start: 10, ramp: 'step', increase: 5, everyWeeks: 1, cap: 45 },
+  },
+  {
+    id: 'gentle',
+    name: 'Gentle Climb',
+    description: '2m more a week, bit by bit each day, with an easy 4th week',
+    program: { start: 10, ramp: 'linear', increase: 2, everyWeeks: 1, cap: 30, deloadEvery: 4, deloadPercent: DEFAULT_DELOAD_PERCENT },
+  },
+  {
+    id: 'monthly',
+    name: 'Monthly Step',
+    description: '10m more every 4 weeks, up to an hour',
+    program: { start: 20, ramp: 'step', increase: 10, everyWeeks: 4, cap: 60 },
+  },
+  {
+    id: 'taper',
+    name: 'Taper Off',
+    description: 'For limits: one less every 2 weeks, down to none',
+    program: { start: 4, ramp: 'step', increase: -1, everyWeeks: 2, cap: 0 },
+  },
+];
+
+export const RAMP_KINDS: { ramp: RampKind; label: string }[] = [
+  { ramp: 'step', label: 'Step' },
+  { ramp: 'linear', label: 'Linear' },
+];
+
+// Weeks shown in the ramp preview: until the cap plus a little, within these bounds
+const MIN_PREVIEW_WEEKS = 8;
+const MAX_PREVIEW_WEEKS = 52;
+
+export interface RampPoint {
+  week: number; // 1-based
+  date: string; // YYYY-MM-DD, the week's first day
+  label: string; // e.g. `W3`
+  target: number;
+  deload: boolean;
+}
+
+/** The goal at the start of each week, from week one until a few weeks past the cap. */
+export function getRampPreview(program: TargetProgram): RampPoint[] {
+  const change = Math.abs(program.increase);
+  const weeksToCap = change ? Math.ceil(Math.abs(program.cap - program.start) / change) * program.everyWeeks + 1 : 0;
+  const weeks = Math.min(MAX_PREVIEW_WEEKS, Math.max(MIN_PREVIEW_WEEKS, weeksToCap + 2));
+  return Array.from({ length: weeks }, (_, week) => {
+    const date = toDateKey(addWeeks(parseDateKey(program.startDate), week));
+    return { week: week + 1, date, label: `W${week + 1}`, target: getProgramTarget(program, date), deload: isProgramWeekDeload(program, week) };
+  });
+}
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+};
+
+/** e.g. `10m, +5m every week up to 45m, every 4th week at 60%`. */
+export function describeProgram(habit: Habit, program: TargetProgram): string {
+  const period = program.everyWeeks === 1 ? 'week' : `${program.everyWeeks} weeks`;
+  const sign = program.increase < 0 ? '−' : '+';
+  const parts = [
+    program.ramp === 'linear'
+      ? `${formatAmount(habit, program.start)}, ${sign}${formatAmount(habit, Math.abs(program.increase))} per ${period} a little each day`
+      : `${formatAmount(habit, program.start)}, ${sign}${formatAmount(habit, Math.abs(program.increase))} every ${period}`,
+    `${program.increase < 0 ? 'down' : 'up'} to ${formatAmount(habit, program.cap)}`,
+  ];
+  if (program.deloadEvery) parts.push(`every ${ordinal(program.deloadEvery)} week at ${program.deloadPercent ?? DEFAULT_DELOAD_PERCENT}%`);
+  if (program.endDate) parts.push(`ended ${format(parseDateKey(program.endDate), 'MMM d')}`);
+  return parts.join(', ');
+}
+
+// A program as typed into ProgramFields, where any field may be blank for now
+export type ProgramDraft = Record<'startDate' | 'start' | 'increase' | 'everyWeeks' | 'cap' | 'deloadEvery' | 'deloadPercent', string> & { ramp: RampKind };
+
+/** The program a draft describes, or null while it is incomplete. */
+export function parseProgramDraft(draft: ProgramDraft): TargetProgram | null {
+  const [start, increase, everyWeeks, cap] = [draft.start, draft.increase, draft.everyWeeks, draft.cap].map(v => parseInt(v));
+  const deloadEvery = parseInt(draft.deloadEvery) || 0;
+  if (!draft.startDate || [start, increase, everyWeeks, cap].some(isNaN) || everyWeeks < 1) return null;
+  return {
+    startDate: draft.startDate,
+    start,
+    ramp: draft.ramp,
+    increase,
+    everyWeeks,
+    cap,
+    ...(deloadEvery >= 2 ? { deloadEvery, deloadPercent: parseInt(draft.deloadPercent) || DEFAULT_DELOAD_PERCENT } : {}),
+  };
+}
+
+/** The program from the habit forms' ProgramFields; undefined when switched off or incomplete. */
+export function parseProgramForm(formData: FormData): TargetProgram | undefined {
+  if (formData.get('programEnabled') !== 'on') return undefined;
+  const value = (name: string) => (formData.get(name) as string | null) ?? '';
+  return parseProgramDraft({
+    startDate: value('programStartDate'),
+    start: value('programStart'),
+    ramp: value('programRamp') === 'linear' ? 'linear' : 'step',
+    increase: value('programIncrease'),
+    everyWeeks: value('programEveryWeeks'),
+    cap: value('programCap'),
+    deloadEvery: value('programDeloadEvery'),
+    deloadPercent: value('programDeloadPercent'),
+  }) ?? undefined;
+}
+
+/**
+ * Sets the program from the habit forms. Switching off one that already ran
+ * ends it yesterday, so the days it covered keep the goals they had.
+ */
+export function withProgram(habit: Habit, program: TargetProgram | undefined, today: string): Habit {
+  if (program) return { ...habit, program };
+  const current = habit.program;
+  if (!current || current.startDate >= today) return { ...habit, program: undefined };
+  const yesterday = toDateKey(subDays(parseDateKey(today), 1));
+  return { ...habit, program: { ...current, endDate: current.endDate && current.endDate < yesterday ? current.endDate : yesterday } };
+}
+
+/**
+ * Sets the goal and program from the habit edit form. A goal typed by hand
+ * takes over from a running program: the program ends the day before `from`
+ * rather than being put back from the form, where it is still switched on.
+ */
+export function withEditedGoal(habit: Habit, targetTime: number, from: string, program: TargetProgram | undefined, today: string): Habit {
+  if (targetTime === targetFor(habit)) return withProgram(habit, program, today);
+  const retargeted = withTargetChange(habit, targetTime, from);
+  return habit.program && !habit.program.endDate ? retargeted : withProgram(retargeted, program, today);
+}
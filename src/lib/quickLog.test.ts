@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { Habit } from '../types';
+import { parseQuickLog, scoreHabitName } from './quickLog';
+
+const habits: Habit[] = [
+  { id: 'read', name: 'Reading', targetTime: 20 },
+  { id: 'gym', name: 'Gym', targetTime: 45 },
+  { id: 'meditate', name: 'Meditate', targetTime: 10 },
+  { id: 'water', name: 'Water', targetTime: 8, measure: 'count', unit: 'glasses' },
+  { id: 'walk', name: 'Morning Walk', targetTime: 30 },
+  { id: 'old', name: 'Journaling', targetTime: 5, archivedAt: '2024-01-01' },
+];
+
+// Thursday, Oct 10 2024
+const today = new Date(2024, 9, 10);
+
+const parseOne = (input: string) => {
+  const items = parseQuickLog(input, habits, today);
+  expect(items).toHaveLength(1);
+  return items[0];
+};
+
+describe('scoreHabitName', () => {
+  it('ranks exact names over prefixes, shared stems and scattered letters', () => {
+    expect(scoreHabitName(['reading'], 'Reading')).toBe(100);
+    expect(scoreHabitName(['read'], 'Reading')).toBe(90);
+    expect(scoreHabitName(['walk'], 'Morning Walk')).toBe(80);
+    expect(scoreHabitName(['meditation'], 'Meditate')).toBe(60);
+    expect(scoreHabitName(['mdtt'], 'Meditate')).toBe(40);
+    expect(scoreHabitName(['swim'], 'Reading')).toBe(0);
+  });
+});
+
+describe('parseQuickLog', () => {
+  it('finds habits by partial and misspelt names', () => {
+    expect(parseOne('read 25m').change?.habitId).toBe('read');
+    expect(parseOne('meditation 10m').change?.habitId).toBe('meditate');
+    expect(parseOne('morn walk 30m').change?.habitId).toBe('walk');
+  });
+
+  it('reports names that match nothing, several habits, or only archived ones', () => {
+    expect(parseOne('swimming 20m').error).toBe('No habit matches "swimming"');
+    expect(parseOne('m 5m').error).toMatch(/could be/);
+    expect(parseOne('journaling').error).toBe('No habit matches "journaling"');
+    expect(parseOne('25m').error).toBe('No habit named');
+  });
+
+  it('reads durations in minutes and hours', () => {
+    expect(parseOne('read 25m').change?.amount).toBe(25);
+    expect(parseOne('read 1h30m').change?.amount).toBe(90);
+    expect(parseOne('read 1h30').change?.amount).toBe(90);
+    expect(parseOne('read 1.5h').change?.amount).toBe(90);
+    expect(parseOne('read 2 hours').change?.amount).toBe(120);
+    expect(parseOne('read 20 min').change?.amount).toBe(20);
+  });
+
+  it('reads bare numbers in the habit’s own unit, dropping the unit from the name', () => {
+    expect(parseOne('water 3').change).toMatchObject({ habitId: 'water', amount: 3 });
+    expect(parseOne('3 glasses water').change).toMatchObject({ habitId: 'water', amount: 3 });
+    expect(parseOne('read 15').change).toMatchObject({ habitId: 'read', amount: 15 });
+  });
+
+  it('refuses time for count habits and amounts of zero', () => {
+    expect(parseOne('water 20m').error).toBe('Water counts glasses, not time');
+    expect(parseOne('read 0m').error).toBe('The amount has to be more than zero');
+  });
+
+  it('reads statuses', () => {
+    expect(parseOne('gym done').change?.status).toBe('done');
+    expect(parseOne('meditation failed').change?.status).toBe('failed');
+    expect(parseOne('gym skip').change?.status).toBe('skipped');
+    expect(parseOne('gym clear').change?.status).toBe('none');
+  });
+
+  it('marks a habit named on its own as done', () => {
+    expect(parseOne('gym').change).toEqual({ habitId: 'gym', date: '2024-10-10', amount: 0, status: 'done' });
+  });
+
+  it('leaves the status alone when an amount or note is given', () => {
+    expect(parseOne('read 25m').change?.status).toBeUndefined();
+    expect(parseOne('gym - knee hurts').change?.status).toBeUndefined();
+  });
+
+  it('reads relative days', () => {
+    expect(parseOne('gym today').change?.date).toBe('2024-10-10');
+    expect(parseOne('gym yesterday').change?.date).toBe('2024-10-09');
+    expect(parseOne('gym 3 days ago').change?.date).toBe('2024-10-07');
+    expect(parseOne('gym monday').change?.date).toBe('2024-10-07');
+    expect(parseOne('gym thursday').change?.date).toBe('2024-10-10');
+    expect(parseOne('gym last thursday').change?.date).toBe('2024-10-03');
+  });
+
+  it('reads absolute days but not future ones', () => {
+    expect(parseOne('gym 2024-10-03').change?.date).toBe('2024-10-03');
+    expect(parseOne('gym 2024-10-11').error).toBe('Can’t log days that haven’t happened yet');
+  });
+
+  it('takes everything after a spaced dash as the note', () => {
+    expect(parseOne('meditation failed yesterday - too tired').change).toEqual({
+      habitId: 'meditate',
+      date: '2024-10-09',
+      amount: 0,
+      status: 'failed',
+      note: 'too tired',
+    });
+    expect(parseOne('read 10m – chapter 3 - the twist').change?.note).toBe('chapter 3 - the twist');
+    // Only a spaced dash starts a note
+    expect(parseOne('morning-walk').change).toMatchObject({ habitId: 'walk', status: 'done' });
+    expect(parseOne('morning-walk').change?.note).toBeUndefined();
+  });
+
+  it('keeps commas inside a note, unless a new clause follows', () => {
+    const items = parseQuickLog('walk 30m - ran 5k, legs sore, slow', habits, today);
+    expect(items).toHaveLength(1);
+    expect(items[0].change).toMatchObject({ habitId: 'walk', amount: 30, note: 'ran 5k, legs sore, slow' });
+
+    const [walk, read] = parseQuickLog('walk 30m - legs sore, slow, read 25m', habits, today);
+    expect(walk.change?.note).toBe('legs sore, slow');
+    expect(read.change).toMatchObject({ habitId: 'read', amount: 25 });
+    // Without a note, an unknown name is still reported
+    expect(parseQuickLog('walk 30m, legs sore', habits, today)[1].error).toBe('No habit matches "legs sore"');
+  });
+
+  it('splits clauses on commas, semicolons and lines', () => {
+    const items = parseQuickLog('read 25m, gym done; meditation failed yesterday - too tired\nwater 2', habits, today);
+    expect(items.map(item => item.change?.habitId)).toEqual(['read', 'gym', 'meditate', 'water']);
+  });
+
+  it('gives the same changes for the same text and day', () => {
+    const input = 'read 1h30m, gym, water 3 glasses last monday - with lunch';
+    expect(parseQuickLog(input, habits, today)).toEqual(parseQuickLog(input, habits, today));
+  });
+});
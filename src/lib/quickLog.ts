@@ -0,0 +1,237 @@
+import { parseISO, subDays } from 'date-fns';
+import { Habit, HabitEntry, HabitStatus } from '../types';
+import { isArchived } from './groups';
+import { isLimitHabit, isTimeHabit, meetsTarget } from './measure';
+import { getSessions, newSessionId, withSessions } from './sessions';
+import { toDateKey } from './dates';
+
+// What one clause of the command bar asks for
+export interface QuickLogChange {
+  habitId: string;
+  date: string; // YYYY-MM-DD
+  amount: number; // added as a new session; 0 when none was given
+  status?: HabitStatus;
+  note?: string;
+}
+
+export interface QuickLogItem {
+  clause: string;
+  change?: QuickLogChange;
+  error?: string; // why the clause couldn't be read; set when `change` isn't
+}
+
+const STATUS_WORDS: Record<string, HabitStatus> = {
+  done: 'done',
+  did: 'done',
+  complete: 'done',
+  completed: 'done',
+  finished: 'done',
+  failed: 'failed',
+  fail: 'failed',
+  missed: 'failed',
+  skipped: 'skipped',
+  skip: 'skipped',
+  rest: 'skipped',
+  clear: 'none',
+  cleared: 'none',
+};
+
+// Minutes per time unit
+const TIME_UNITS: Record<string, number> = {
+  m: 1, min: 1, mins: 1, minute: 1, minutes: 1,
+  h: 60, hr: 60, hrs: 60, hour: 60, hours: 60,
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const FILLER_WORDS = new Set(['for', 'on', 'at', 'of', 'a', 'an', 'the', 'and']);
+
+const NUMBER = /^\d+(?:\.\d+)?$/;
+const DURATION = /^(\d+(?:\.\d+)?)([a-z]+)$/; // 25m, 1.5h
+const HOURS_MINUTES = /^(\d+)h(\d+)m?$/; // 1h30m, 1h30
+const NOTE_SEPARATOR = /\s+[-–—]\s+/; // a spaced dash
+
+// A weekday name means the latest such day up to today, or the one before it after "last"
+function weekdayDate(weekday: number, today: Date, last: boolean) {
+  const back = (today.getDay() - weekday + 7) % 7;
+  return subDays(today, back === 0 && last ? 7 : back);
+}
+
+const commonPrefix = (a: string, b: string) => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+};
+
+const isSubsequence = (needle: string, haystack: string) => {
+  let i = 0;
+  for (const char of haystack) if (char === needle[i]) i++;
+  return i === needle.length;
+};
+
+/**
+ * How well typed words name a habit, from 100 for the exact name down to 40
+ * for its letters in order; 0 is no match. "read" finds Reading and
+ * "meditation" finds Meditate, since words only have to share a long prefix.
+ */
+export function scoreHabitName(words: string[], name: string): number {
+  const query = words.join(' ');
+  const lower = name.toLowerCase();
+  const nameWords = lower.split(/\s+/);
+  if (!query) return 0;
+  if (lower === query) return 100;
+  if (lower.startsWith(query)) return 90;
+  if (words.every(w => nameWords.some(n => n.startsWith(w)))) return 80;
+  if (words.every(w => nameWords.some(n => commonPrefix(n, w) >= Math.min(4, n.length, w.length) && Math.min(n.length, w.length) >= 3))) return 60;
+  if (query.length >= 3 && isSubsequence(query.replace(/\s+/g, ''), lower.replace(/\s+/g, ''))) return 40;
+  return 0;
+}
+
+function matchHabit(words: string[], habits: Habit[]): { habit?: Habit; error?: string } {
+  if (words.length === 0) return { error: 'No habit named' };
+  const scored = habits
+    .map(habit => ({ habit, score: scoreHabitName(words, habit.name) }))
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score);
+  const typed = words.join(' ');
+  if (scored.length === 0) return { error: `No habit matches "${typed}"` };
+  if (scored[1]?.score === scored[0].score) {
+    return { error: `"${typed}" could be ${scored[0].habit.name} or ${scored[1].habit.name}` };
+  }
+  return { habit: scored[0].habit };
+}
+
+function parseClause(clause: string, habits: Habit[], today: Date): QuickLogItem {
+  // Everything after a spaced dash is the note: "meditation failed - too tired"
+  const [head, ...noteParts] = clause.split(NOTE_SEPARATOR);
+  const note = noteParts.join(' - ').trim() || undefined;
+  const tokens = head.toLowerCase().split(/\s+/).filter(Boolean);
+
+  let date = toDateKey(today);
+  let status: HabitStatus | undefined;
+  let minutes = 0; // amounts given with a time unit
+  let plain = 0; // amounts without one, in the habit's own unit
+  let hasAmount = false;
+  const unitWords: string[] = []; // words right after a plain number, maybe a count unit like "glasses"
+  const words: string[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const next = tokens[i + 1];
+    let match: RegExpMatchArray | null;
+    if (token === 'today') {
+      date = toDateKey(today);
+    } else if (token === 'yesterday') {
+      date = toDateKey(subDays(today, 1));
+    } else if (NUMBER.test(token) && next === 'days' && tokens[i + 2] === 'ago') {
+      date = toDateKey(subDays(today, Number(token)));
+      i += 2;
+    } else if (token === 'last' && next && WEEKDAYS.includes(next)) {
+      date = toDateKey(weekdayDate(WEEKDAYS.indexOf(next), today, true));
+      i++;
+    } else if (WEEKDAYS.includes(token)) {
+      date = toDateKey(weekdayDate(WEEKDAYS.indexOf(token), today, false));
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(token) && !isNaN(parseISO(token).getTime())) {
+      date = token;
+    } else if (token in STATUS_WORDS) {
+      status = STATUS_WORDS[token];
+    } else if ((match = token.match(HOURS_MINUTES))) {
+      minutes += Number(match[1]) * 60 + Number(match[2]);
+      hasAmount = true;
+    } else if ((match = token.match(DURATION)) && match[2] in TIME_UNITS) {
+      minutes += Number(match[1]) * TIME_UNITS[match[2]];
+      hasAmount = true;
+    } else if (NUMBER.test(token) && next && next in TIME_UNITS) {
+      minutes += Number(token) * TIME_UNITS[next];
+      hasAmount = true;
+      i++;
+    } else if (NUMBER.test(token)) {
+      plain += Number(token);
+      hasAmount = true;
+      if (next) unitWords.push(next);
+    } else if (!FILLER_WORDS.has(token)) {
+      words.push(token);
+    }
+  }
+
+  // Count units come off the name only when some habit actually counts in them
+  const active = habits.filter(h => !isArchived(h));
+  const countUnits = active.filter(h => !isTimeHabit(h) && h.unit).map(h => h.unit!.toLowerCase());
+  const nameWords = words.filter(w => !(unitWords.includes(w) && countUnits.some(u => commonPrefix(u, w) >= 3)));
+  const { habit, error } = matchHabit(nameWords, active);
+  if (!habit) return { clause, error };
+
+  if (date > toDateKey(today)) return { clause, error: 'Can’t log days that haven’t happened yet' };
+  if (minutes > 0 && !isTimeHabit(habit)) return { clause, error: `${habit.name} counts ${habit.unit || 'times'}, not time` };
+  const amount = Math.round(minutes + plain);
+  if (hasAmount && amount <= 0) return { clause, error: 'The amount has to be more than zero' };
+  // A habit on its own ("gym") means it was done
+  if (!hasAmount && !status && !note) status = 'done';
+
+  return {
+    clause,
+    change: { habitId: habit.id, date, amount, ...(status ? { status } : {}), ...(note ? { note } : {}) },
+  };
+}
+
+/**
+ * Reads command bar input such as "read 25m, gym done, meditation failed
+ * yesterday - too tired": one clause per comma, semicolon or line, each naming
+ * a habit with an optional amount, status, day and note. Within a note a comma
+ * only starts a new clause when what follows reads as one, so "run 30m - ran
+ * 5k, legs sore" keeps its note whole. Deterministic, so the same text and day
+ * always give the same changes.
+ */
+export function parseQuickLog(input: string, habits: Habit[], today: Date): QuickLogItem[] {
+  const clauses: string[] = [];
+  for (const line of input.split(/[;\n]/)) {
+    let inNote = false;
+    for (const part of line.split(',')) {
+      const text = part.trim();
+      if (!text) continue;
+      if (inNote && parseClause(text, habits, today).error) {
+        clauses[clauses.length - 1] += `, ${text}`;
+        continue;
+      }
+      clauses.push(text);
+      inNote = NOTE_SEPARATOR.test(text);
+    }
+  }
+  return clauses.map(clause => parseClause(clause, habits, today));
+}
+
+/**
+ * The day after a change: an amount becomes a new session, a note is added
+ * below any existing one, and reaching a target (not a limit) marks the day
+ * done unless a status was given.
+ */
+export function applyQuickLog(change: QuickLogChange, habit: Habit, existing: HabitEntry | undefined): HabitEntry {
+  const { habitId, date, amount, status, note } = change;
+  const base = existing ?? { habitId, date, status: 'none' as HabitStatus, timeSpent: 0 };
+  const updated = amount > 0
+    ? withSessions(base, [...getSessions(existing), { id: newSessionId(), duration: amount }])
+    : base;
+  const notes = [base.notes, note].filter(Boolean).join('\n');
+  const reached = amount > 0 && !isLimitHabit(habit) && meetsTarget(habit, updated.timeSpent, date);
+  return {
+    ...updated,
+    status: status ?? (reached ? 'done' : base.status),
+    ...(notes ? { notes } : {}),
+  };
+}
+
+/** The days the readable clauses lead to, in order; clauses on the same day build on each other. */
+export function applyQuickLogItems(
+  items: QuickLogItem[],
+  habits: Habit[],
+  getEntry: (habitId: string, date: string) => HabitEntry | undefined,
+): HabitEntry[] {
+  const updated = new Map<string, HabitEntry>();
+  for (const { change } of items) {
+    const habit = change && habits.find(h => h.id === change.habitId);
+    if (!change || !habit) continue;
+    const key = `${change.habitId}|${change.date}`;
+    updated.set(key, applyQuickLog(change, habit, updated.get(key) ?? getEntry(change.habitId, change.date)));
+  }
+  return [...updated.values()];
+}
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Habit } from '../types';
+import { getDaySettings, setDaySettings } from './dates';
+import { getDueReminders, ReminderSettings } from './reminders';
+
+const original = getDaySettings();
+afterEach(() => {
+  setDaySettings(original);
+  vi.useRealTimers();
+});
+
+const settings: ReminderSettings = { enabled: true };
+const habit = (reminderTime: string): Habit => ({ id: 'read', name: 'Reading', targetTime: 20, createdAt: '2024-01-01', reminderTime });
+// Scoring reads the clock too, so it is set to `now`
+const due = (reminderTime: string, now: string, reminderSettings = settings) => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date(now));
+  return getDueReminders([habit(reminderTime)], [], reminderSettings, new Date(now), new Set()).map(r => r.key);
+};
+
+describe('getDueReminders', () => {
+  it('reads reminder times on the home clock, wherever the device is', () => {
+    // 20:30 in Berlin, 18:30 UTC
+    const now = '2024-10-10T18:30:00Z';
+    setDaySettings({ dayStartHour: 0, timeZone: 'Europe/Berlin' });
+    expect(due('19:00', now)).toEqual(['2024-10-10:read']);
+    setDaySettings({ dayStartHour: 0, timeZone: 'America/New_York' });
+    expect(due('19:00', now)).toEqual([]);
+  });
+
+  it('places times after midnight at the end of a day that starts later', () => {
+    setDaySettings({ dayStartHour: 4, timeZone: 'Europe/Berlin' });
+    expect(due('00:30', '2024-10-10T06:00:00Z')).toEqual([]); // 08:00
+    expect(due('00:30', '2024-10-10T21:00:00Z')).toEqual([]); // 23:00
+    expect(due('00:30', '2024-10-10T22:45:00Z')).toEqual(['2024-10-10:read']); // 00:45, still Oct 10's day
+  });
+
+  it('holds reminders back during quiet hours on the home clock', () => {
+    setDaySettings({ dayStartHour: 0, timeZone: 'Europe/Berlin' });
+    const quiet = { ...settings, quietStart: '22:00', quietEnd: '07:00' };
+    expect(due('20:00', '2024-10-10T20:30:00Z', quiet)).toEqual([]); // 22:30
+    expect(due('20:00', '2024-10-10T19:30:00Z', quiet)).toEqual(['2024-10-10:read']); // 21:30
+  });
+});
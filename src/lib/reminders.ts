@@ -0,0 +1,114 @@
+import { Habit, HabitEntry } from '../types';
+import { isArchived } from './groups';
+import { formatTarget, getEntryCredit } from './measure';
+import { getPeriodBounds } from './schedule';
+import { scoreDay } from './scoring';
+import { getClockAt, getDaySettings, getToday, getTodayKey, toDateKey } from './dates';
+
+// Device-level settings; the per-habit times live on the habits themselves
+export interface ReminderSettings {
+  enabled: boolean;
+  quietStart?: string; // HH:mm, reminders wait while the clock is between start and end
+  quietEnd?: string; // HH:mm, may be earlier than start to span midnight
+  summaryTime?: string; // HH:mm, one overview of the day; no summary when omitted
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  quietStart: '22:00',
+  quietEnd: '07:00',
+  summaryTime: '20:00',
+};
+
+export interface DueReminder {
+  key: string; // unique per day, so each reminder is shown at most once
+  title: string;
+  body: string;
+  habitId?: string; // absent for the daily summary
+}
+
+export function isQuietTime(settings: ReminderSettings, time: string): boolean {
+  const { quietStart: start, quietEnd: end } = settings;
+  if (!start || !end || start === end) return false;
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
+
+// Minutes into the habit day, which runs from its start hour round to the next, e.g. 00:30 comes after 23:00
+function minutesIntoDay(time: string, dayStartHour: number): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return ((hours - dayStartHour + 24) % 24) * 60 + minutes;
+}
+
+/** Habits the user is expected to do today, whether or not they are logged yet. */
+export const getHabitsDueToday = (habits: Habit[], entries: HabitEntry[], now: Date) =>
+  habits.filter(habit => {
+    if (isArchived(habit)) return false;
+    const habitEntries = entries.filter(e => e.habitId === habit.id);
+    const entry = habitEntries.find(e => e.date === getTodayKey(now));
+    return scoreDay(habit, getToday(now), entry, habitEntries).state !== 'unscheduled';
+  });
+
+/**
+ * Whether today still needs something logged. Done, failed and skipped days are
+ * settled, and so is a quota habit ("3x / week") whose period quota is already met.
+ */
+export function isPendingToday(habit: Habit, entries: HabitEntry[], now: Date): boolean {
+  const habitEntries = entries.filter(e => e.habitId === habit.id);
+  const day = getToday(now);
+  const today = toDateKey(day);
+  const state = scoreDay(habit, day, habitEntries.find(e => e.date === today), habitEntries).state;
+  if (state !== 'open' && state !== 'logged' && state !== 'partial') return false;
+  const frequency = habit.schedule?.frequency;
+  if (frequency?.kind !== 'perPeriod') return true;
+  const { start, end } = getPeriodBounds(frequency.period, day);
+  const from = toDateKey(start);
+  const to = toDateKey(end);
+  const doneDays = habitEntries.filter(e => e.date >= from && e.date <= to && getEntryCredit(habit, e) >= 1).length;
+  return doneDays < frequency.count;
+}
+
+/**
+ * Reminders that should be showing at `now`: each habit whose reminder time has
+ * passed while today is still pending, plus the daily summary. Nothing is due
+ * during quiet hours; reminders held back then go out once they end, if the
+ * habit is still unlogged. Times are read on the home clock and within the
+ * habit day, so a reminder at 00:30 belongs to the evening before when the day
+ * starts later.
+ */
+export function getDueReminders(
+  habits: Habit[],
+  entries: HabitEntry[],
+  settings: ReminderSettings,
+  now: Date,
+  sent: Set<string>,
+): DueReminder[] {
+  const time = getClockAt(now);
+  if (!settings.enabled || isQuietTime(settings, time)) return [];
+  const { dayStartHour } = getDaySettings();
+  const hasPassed = (at: string) => minutesIntoDay(at, dayStartHour) <= minutesIntoDay(time, dayStartHour);
+  const date = getTodayKey(now);
+  const dueToday = getHabitsDueToday(habits, entries, now);
+  const pending = dueToday.filter(h => isPendingToday(h, entries, now));
+
+  const reminders: DueReminder[] = pending
+    .filter(h => h.reminderTime && hasPassed(h.reminderTime) && !sent.has(`${date}:${h.id}`))
+    .map(h => ({
+      key: `${date}:${h.id}`,
+      title: h.name,
+      body: `Nothing logged yet today. Goal: ${formatTarget(h, date)}.`,
+      habitId: h.id,
+    }));
+
+  const summaryKey = `${date}:summary`;
+  if (settings.summaryTime && hasPassed(settings.summaryTime) && !sent.has(summaryKey) && dueToday.length > 0) {
+    const logged = dueToday.length - pending.length;
+    reminders.push({
+      key: summaryKey,
+      title: 'HabitGrid daily summary',
+      body: pending.length
+        ? `${logged} of ${dueToday.length} habits logged. Still open: ${pending.map(h => h.name).join(', ')}.`
+        : `All ${dueToday.length} habits logged today.`,
+    });
+  }
+  return reminders;
+}
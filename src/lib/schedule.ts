@@ -0,0 +1,114 @@
+import { differenceInCalendarDays, eachDayOfInterval, endOfMonth, endOfWeek, isAfter, isBefore, max, min, parseISO, startOfMonth, startOfWeek } from 'date-fns';
+import { Habit, HabitEntry, HabitSchedule, SchedulePeriod } from '../types';
+import { getEntryCredit } from './measure';
+import { getToday, getTodayKey, toDateKey } from './dates';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export function describeSchedule(schedule?: HabitSchedule): string {
+  const frequency = schedule?.frequency;
+  switch (frequency?.kind) {
+    case 'weekdays':
+      return [...frequency.days].sort().map(d => WEEKDAY_LABELS[d]).join('/');
+    case 'perPeriod':
+      return `${frequency.count}x / ${frequency.period}`;
+    case 'interval':
+      return frequency.every === 1 ? 'Daily' : `Every ${frequency.every} days`;
+    default:
+      return 'Daily';
+  }
+}
+
+export function isWithinScheduleRange(schedule: HabitSchedule | undefined, day: Date): boolean {
+  if (schedule?.startDate && isBefore(day, parseISO(schedule.startDate))) return false;
+  if (schedule?.endDate && isAfter(day, parseISO(schedule.endDate))) return false;
+  return true;
+}
+
+/**
+ * Whether the habit is expected on this day. Quota habits ("3x / week") can be
+ * done on any day, so every day within their range counts as scheduled.
+ */
+export function isScheduledDay(habit: Habit, day: Date): boolean {
+  const schedule = habit.schedule;
+  if (!isWithinScheduleRange(schedule, day)) return false;
+  const frequency = schedule?.frequency;
+  switch (frequency?.kind) {
+    case 'weekdays':
+      return frequency.days.includes(day.getDay());
+    case 'interval': {
+      const anchor = schedule?.startDate ? parseISO(schedule.startDate) : new Date(0);
+      return differenceInCalendarDays(day, anchor) % frequency.every === 0;
+    }
+    default:
+      return true;
+  }
+}
+
+export function getPeriodBounds(period: SchedulePeriod, day: Date) {
+  return period === 'week'
+    ? { start: startOfWeek(day, WEEK_OPTIONS), end: endOfWeek(day, WEEK_OPTIONS) }
+    : { start: startOfMonth(day), end: endOfMonth(day) };
+}
+
+/**
+ * A past, scheduled day with nothing logged. For quota habits a day only fails
+ * once its period is over and the quota was missed, and then only as many of
+ * the period's trailing unlogged days as there were sessions missing.
+ */
+export function isAutoFailed(habit: Habit, day: Date, entries: HabitEntry[]): boolean {
+  const today = getToday();
+  const dateStr = toDateKey(day);
+  const habitEntries = entries.filter(e => e.habitId === habit.id);
+  if (!isBefore(day, today) || habitEntries.some(e => e.date === dateStr)) return false;
+  if (!isScheduledDay(habit, day)) return false;
+
+  const frequency = habit.schedule?.frequency;
+  if (frequency?.kind !== 'perPeriod') return true;
+
+  const { start, end } = getPeriodBounds(frequency.period, day);
+  if (!isBefore(end, today)) return false;
+
+  const inPeriod = (date: string) => date >= toDateKey(start) && date <= toDateKey(end);
+  // Each day is judged by the success rule against the goal it had at the time
+  const doneCount = habitEntries.filter(e => inPeriod(e.date) && getEntryCredit(habit, e) >= 1).length;
+  const missing = frequency.count - doneCount;
+  if (missing <= 0) return false;
+
+  const schedule = habit.schedule;
+  const rangeStart = schedule?.startDate ? max([start, parseISO(schedule.startDate)]) : start;
+  const rangeEnd = schedule?.endDate ? min([end, parseISO(schedule.endDate)]) : end;
+  const unlogged = eachDayOfInterval({ start: rangeStart, end: rangeEnd })
+    .map(d => toDateKey(d))
+    .filter(date => !habitEntries.some(e => e.date === date));
+  return unlogged.slice(-missing).includes(dateStr);
+}
+
+export function parseScheduleForm(formData: FormData): HabitSchedule | undefined {
+  const kind = formData.get('frequency') as string;
+  const startDate = (formData.get('startDate') as string) || undefined;
+  const endDate = (formData.get('endDate') as string) || undefined;
+  const range = { ...(startDate ? { startDate } : {}), ...(endDate ? { endDate } : {}) };
+
+  switch (kind) {
+    case 'weekdays': {
+      const days = formData.getAll('weekday').map(d => parseInt(d as string));
+      return days.length > 0 ? { frequency: { kind, days }, ...range } : undefined;
+    }
+    case 'perPeriod': {
+      const count = parseInt(formData.get('count') as string);
+      const period = formData.get('period') === 'month' ? 'month' : 'week';
+      return count > 0 ? { frequency: { kind, count, period }, ...range } : undefined;
+    }
+    case 'interval': {
+      // The interval counts from the start date, so one is always stored
+      const every = parseInt(formData.get('every') as string);
+      const anchor = { startDate: getTodayKey(), ...range };
+      return every > 0 ? { frequency: { kind, every }, ...anchor } : undefined;
+    }
+    default:
+      return startDate || endDate ? { frequency: { kind: 'daily' }, ...range } : undefined;
+  }
+}
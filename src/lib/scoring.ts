@@ -0,0 +1,90 @@
+import { eachDayOfInterval, isBefore, parseISO } from 'date-fns';
+import { Habit, HabitEntry, SuccessRule } from '../types';
+import { getEntryCredit } from './measure';
+import { isAutoFailed, isScheduledDay } from './schedule';
+import { getToday, toDateKey } from './dates';
+
+export type CellState = 'done' | 'partial' | 'skipped' | 'failed' | 'missed' | 'logged' | 'unscheduled' | 'open';
+
+export interface DayScore {
+  state: CellState;
+  credit: number; // 0..1 towards the completion rate
+  counted: boolean; // whether the day is one of the habit's expected days
+}
+
+export interface Completion {
+  credit: number; // sum of day credits, fractional under the partial rule
+  expected: number;
+  rate: number; // 0..1
+}
+
+export const SUCCESS_RULES: { rule: SuccessRule; label: string }[] = [
+  { rule: 'manual', label: 'Marked Done' },
+  { rule: 'target', label: 'Target Reached' },
+  { rule: 'partial', label: 'Partial Credit' },
+];
+
+/**
+ * The first day the habit is expected: its schedule start when set,
+ * otherwise the earlier of its creation date and its first entry.
+ */
+export function getHabitStartDate(habit: Habit, entries: HabitEntry[]): string | undefined {
+  if (habit.schedule?.startDate) return habit.schedule.startDate;
+  const candidates = [habit.createdAt, ...entries.filter(e => e.habitId === habit.id).map(e => e.date)];
+  return candidates.filter((d): d is string => !!d).sort()[0];
+}
+
+/**
+ * The single place that decides how a habit's day counts. The grid colors,
+ * completion rates, dashboard and streaks all read from here.
+ */
+export function scoreDay(habit: Habit, day: Date, entry: HabitEntry | undefined, entries: HabitEntry[]): DayScore {
+  const startDate = getHabitStartDate(habit, entries);
+  const dateStr = toDateKey(day);
+  // Nothing is expected before a habit starts or after it was archived
+  if ((startDate && dateStr < startDate) || (habit.archivedAt && dateStr > habit.archivedAt)) {
+    return { state: entry?.status === 'skipped' ? 'skipped' : 'unscheduled', credit: 0, counted: false };
+  }
+  if (entry?.status === 'skipped') return { state: 'skipped', credit: 0, counted: false };
+
+  const scheduled = isScheduledDay(habit, day);
+  if (!entry) {
+    if (isAutoFailed(habit, day, entries)) return { state: 'missed', credit: 0, counted: true };
+    return { state: scheduled ? 'open' : 'unscheduled', credit: 0, counted: false };
+  }
+
+  const rule = habit.successRule ?? 'manual';
+  const credit = getEntryCredit(habit, entry);
+  const isPast = isBefore(day, getToday());
+  // Today stays open until it succeeds or is explicitly failed
+  const isSettled = isPast || credit >= 1 || entry.status === 'failed';
+  const state: CellState =
+    credit >= 1 ? 'done' :
+    credit > 0 ? 'partial' :
+    entry.status === 'failed' || (rule !== 'manual' && isPast) ? 'failed' :
+    'logged';
+  // Bonus sessions on unscheduled days are shown but never change the rate
+  return { state, credit: scheduled ? credit : 0, counted: scheduled && isSettled };
+}
+
+export function getCompletion(habit: Habit, entries: HabitEntry[], days: Date[]): Completion {
+  const habitEntries = entries.filter(e => e.habitId === habit.id);
+  const byDate = new Map(habitEntries.map(e => [e.date, e]));
+  let credit = 0;
+  let expected = 0;
+  for (const day of days) {
+    const score = scoreDay(habit, day, byDate.get(toDateKey(day)), habitEntries);
+    if (!score.counted) continue;
+    expected++;
+    credit += score.credit;
+  }
+  return { credit, expected, rate: expected ? credit / expected : 0 };
+}
+
+/** Every day from the habit's start through today. */
+export function getLifetimeDays(habit: Habit, entries: HabitEntry[]): Date[] {
+  const startDate = getHabitStartDate(habit, entries);
+  const today = getToday();
+  if (!startDate || isBefore(today, parseISO(startDate))) return [];
+  return eachDayOfInterval({ start: parseISO(startDate), end: today });
+}
@@ -0,0 +1,21 @@
+import { HabitEntry, HabitSession } from '../types';
+
+// Entries saved before sessions existed carry a single total in timeSpent
+export const LEGACY_SESSION_ID = 'legacy';
+
+export const newSessionId = () => Math.random().toString(36).substr(2, 9);
+
+/** The entry's sessions, reading a pre-sessions entry as one session holding its whole time. */
+export function getSessions(entry: HabitEntry | undefined): HabitSession[] {
+  if (!entry) return [];
+  if (entry.sessions) return entry.sessions;
+  return entry.timeSpent > 0 ? [{ id: LEGACY_SESSION_ID, duration: entry.timeSpent }] : [];
+}
+
+export const sumSessions = (sessions: HabitSession[]) =>
+  sessions.reduce((total, session) => total + session.duration, 0);
+
+/** Sets sessions on an entry and keeps its timeSpent equal to their total. */
+export function withSessions(entry: HabitEntry, sessions: HabitSession[]): HabitEntry {
+  return { ...entry, sessions, timeSpent: sumSessions(sessions) };
+}
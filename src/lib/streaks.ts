@@ -0,0 +1,72 @@
+import { eachDayOfInterval, isBefore, parseISO } from 'date-fns';
+import { Habit, HabitEntry } from '../types';
+import { getHabitStartDate, scoreDay } from './scoring';
+import { getToday, toDateKey } from './dates';
+
+export interface StreakRun {
+  start: string; // YYYY-MM-DD of the first done day
+  end: string; // YYYY-MM-DD of the last done day
+  length: number; // done days; skipped and frozen days don't count
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  history: StreakRun[]; // oldest first, the last one may still be running
+  frozenDays: string[]; // missed days that a monthly freeze absorbed
+}
+
+type DayOutcome = 'extend' | 'neutral' | 'miss';
+
+// Only fully successful days extend a streak; any other expected day breaks it
+function classifyDay(habit: Habit, day: Date, entry: HabitEntry | undefined, entries: HabitEntry[]): DayOutcome {
+  const score = scoreDay(habit, day, entry, entries);
+  if (score.state === 'done') return 'extend';
+  return score.counted ? 'miss' : 'neutral';
+}
+
+/**
+ * Walks a habit's history day by day. Done days extend the streak, skipped
+ * (rest) days and unscheduled days neither extend nor break it, and each
+ * calendar month can absorb up to `habit.freezeDaysPerMonth` misses.
+ */
+export function calculateStreaks(habit: Habit, entries: HabitEntry[]): StreakSummary {
+  const habitEntries = entries.filter(e => e.habitId === habit.id);
+  const byDate = new Map(habitEntries.map(e => [e.date, e]));
+  const summary: StreakSummary = { current: 0, longest: 0, history: [], frozenDays: [] };
+
+  const firstDate = getHabitStartDate(habit, habitEntries);
+  const today = getToday();
+  if (!firstDate || isBefore(today, parseISO(firstDate))) return summary;
+
+  const freezesUsed = new Map<string, number>();
+  let run: StreakRun | null = null;
+
+  for (const day of eachDayOfInterval({ start: parseISO(firstDate), end: today })) {
+    const dateStr = toDateKey(day);
+    const outcome = classifyDay(habit, day, byDate.get(dateStr), habitEntries);
+
+    if (outcome === 'extend') {
+      if (run) {
+        run.end = dateStr;
+        run.length++;
+      } else {
+        run = { start: dateStr, end: dateStr, length: 1 };
+        summary.history.push(run);
+      }
+      summary.longest = Math.max(summary.longest, run.length);
+    } else if (outcome === 'miss' && run) {
+      const month = dateStr.slice(0, 7);
+      const used = freezesUsed.get(month) ?? 0;
+      if (used < (habit.freezeDaysPerMonth ?? 0)) {
+        freezesUsed.set(month, used + 1);
+        summary.frozenDays.push(dateStr);
+      } else {
+        run = null;
+      }
+    }
+  }
+
+  summary.current = run?.length ?? 0;
+  return summary;
+}
@@ -0,0 +1,113 @@
+import { HabitEntry, HabitSession } from '../types';
+import { getSessions, sumSessions } from './sessions';
+
+// The parts of a day two devices can disagree on
+export type EntryField = 'status' | 'timeSpent' | 'notes' | 'mood' | 'energy' | 'tags' | 'sessions';
+
+export const ENTRY_FIELD_LABELS: Record<EntryField, string> = {
+  status: 'Status',
+  timeSpent: 'Amount',
+  notes: 'Notes',
+  mood: 'Mood',
+  energy: 'Energy',
+  tags: 'Tags',
+  sessions: 'Sessions',
+};
+
+export interface EntryMerge {
+  entry: HabitEntry | null; // null when the day ends up cleared
+  conflicts: EntryField[]; // fields both sides changed differently; `entry` keeps theirs for these
+}
+
+const emptyEntry = (habitId: string, date: string): HabitEntry => ({ habitId, date, status: 'none', timeSpent: 0 });
+
+const sameSession = (a: HabitSession | undefined, b: HabitSession | undefined) =>
+  a === b || (!!a && !!b && a.duration === b.duration && (a.startTime ?? '') === (b.startTime ?? '') && (a.note ?? '') === (b.note ?? ''));
+
+const sameSessions = (a: HabitSession[], b: HabitSession[]) =>
+  a.length === b.length && a.every((session, i) => session.id === b[i].id && sameSession(session, b[i]));
+
+const sameTags = (a: string[] | undefined, b: string[] | undefined) => (a ?? []).join(',') === (b ?? []).join(',');
+
+/** Whether two copies of a day say the same thing, ignoring versions and timestamps. */
+export function sameEntry(a: HabitEntry | null | undefined, b: HabitEntry | null | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return a.status === b.status &&
+    (a.notes ?? '') === (b.notes ?? '') &&
+    a.mood === b.mood &&
+    a.energy === b.energy &&
+    sameTags(a.tags, b.tags) &&
+    sameSessions(getSessions(a), getSessions(b));
+}
+
+// Takes whichever side changed; both changing the same way is no conflict either
+function pick<T>(base: T, mine: T, theirs: T, same: (a: T, b: T) => boolean): { value: T; conflict: boolean } {
+  if (same(mine, theirs) || same(base, mine)) return { value: theirs, conflict: false };
+  if (same(base, theirs)) return { value: mine, conflict: false };
+  return { value: theirs, conflict: true };
+}
+
+// Sessions merge one by one, so a timer logged on each device keeps both
+function mergeSessions(base: HabitSession[], mine: HabitSession[], theirs: HabitSession[], conflicts: Set<EntryField>) {
+  const byId = (sessions: HabitSession[]) => new Map(sessions.map(s => [s.id, s]));
+  const [b, m, t] = [byId(base), byId(mine), byId(theirs)];
+  const ids = [...new Set([...theirs.map(s => s.id), ...mine.map(s => s.id)])];
+  return ids.flatMap(id => {
+    const { value, conflict } = pick(b.get(id), m.get(id), t.get(id), sameSession);
+    if (conflict) conflicts.add(m.get(id)?.duration !== t.get(id)?.duration ? 'timeSpent' : 'sessions');
+    return value ? [value] : [];
+  });
+}
+
+/**
+ * Three-way merge of one day. `base` is the copy the incoming change was made
+ * from, `mine` the change and `theirs` what is stored now; null means no entry.
+ * A field changed on one side only takes that side's value and sessions merge
+ * by id. A day cleared on one side and edited on the other can't be merged.
+ */
+export function mergeEntries(base: HabitEntry | null, mine: HabitEntry | null, theirs: HabitEntry | null): EntryMerge {
+  if (sameEntry(mine, theirs) || sameEntry(base, mine)) return { entry: theirs, conflicts: [] };
+  if (sameEntry(base, theirs)) return { entry: mine, conflicts: [] };
+
+  if (!mine || !theirs) {
+    const edited = (mine ?? theirs)!;
+    const fields: EntryField[] = [
+      ...(edited.status !== 'none' ? ['status' as const] : []),
+      ...(edited.timeSpent > 0 ? ['timeSpent' as const] : []),
+      ...(edited.notes ? ['notes' as const] : []),
+      ...(edited.mood ? ['mood' as const] : []),
+      ...(edited.energy ? ['energy' as const] : []),
+      ...(edited.tags?.length ? ['tags' as const] : []),
+    ];
+    return { entry: theirs, conflicts: fields.length ? fields : ['status'] };
+  }
+
+  const { habitId, date } = mine;
+  const [b, m, t] = [base ?? emptyEntry(habitId, date), mine, theirs];
+  const conflicts = new Set<EntryField>();
+  const status = pick(b.status, m.status, t.status, (x, y) => x === y);
+  if (status.conflict) conflicts.add('status');
+  const notes = pick(b.notes ?? '', m.notes ?? '', t.notes ?? '', (x, y) => x === y);
+  if (notes.conflict) conflicts.add('notes');
+  const mood = pick(b.mood, m.mood, t.mood, (x, y) => x === y);
+  if (mood.conflict) conflicts.add('mood');
+  const energy = pick(b.energy, m.energy, t.energy, (x, y) => x === y);
+  if (energy.conflict) conflicts.add('energy');
+  const tags = pick(b.tags, m.tags, t.tags, sameTags);
+  if (tags.conflict) conflicts.add('tags');
+  const sessions = mergeSessions(getSessions(b), getSessions(m), getSessions(t), conflicts);
+  return {
+    entry: {
+      habitId,
+      date,
+      status: status.value,
+      timeSpent: sumSessions(sessions),
+      ...(notes.value ? { notes: notes.value } : {}),
+      ...(mood.value ? { mood: mood.value } : {}),
+      ...(energy.value ? { energy: energy.value } : {}),
+      ...(tags.value?.length ? { tags: tags.value } : {}),
+      sessions,
+    },
+    conflicts: [...conflicts],
+  };
+}
@@ -0,0 +1,62 @@
+import { differenceInCalendarDays, subDays } from 'date-fns';
+import { Habit, TargetProgram } from '../types';
+import { parseDateKey, toDateKey } from './dates';
+
+export const DEFAULT_DELOAD_PERCENT = 60;
+
+export const isProgramWeekDeload = (program: TargetProgram, week: number) =>
+  !!program.deloadEvery && (week + 1) % program.deloadEvery === 0;
+
+/**
+ * The goal a program sets on `date` (YYYY-MM-DD, on or after its start). The
+ * ramp is measured from the start date and stops at the cap; a deload week
+ * lowers that week's goal without holding back the ramp.
+ */
+export function getProgramTarget(program: TargetProgram, date: string): number {
+  const days = differenceInCalendarDays(parseDateKey(date), parseDateKey(program.startDate));
+  const week = Math.floor(days / 7);
+  const periods = program.ramp === 'step' ? Math.floor(week / program.everyWeeks) : days / (7 * program.everyWeeks);
+  const ramped = program.start + program.increase * periods;
+  const capped = program.increase >= 0 ? Math.min(ramped, program.cap) : Math.max(ramped, program.cap);
+  const target = isProgramWeekDeload(program, week) ? capped * (program.deloadPercent ?? DEFAULT_DELOAD_PERCENT) / 100 : capped;
+  return Math.round(target);
+}
+
+const isInProgram = (program: TargetProgram | undefined, date: string): program is TargetProgram =>
+  !!program && date >= program.startDate && (!program.endDate || date <= program.endDate);
+
+/** The target or limit in force on `date` (YYYY-MM-DD). */
+export function getTargetOn(habit: Habit, date: string): number {
+  if (isInProgram(habit.program, date)) {
+    // A target always asks for something, only a limit can reach zero
+    return Math.max(habit.direction === 'atMost' ? 0 : 1, getProgramTarget(habit.program, date));
+  }
+  const history = habit.targetHistory;
+  if (!history?.length) return habit.targetTime;
+  let target = history[0].targetTime;
+  for (const change of history) {
+    if (change.from > date) break;
+    target = change.targetTime;
+  }
+  return target;
+}
+
+/**
+ * Records a new goal from `from` onwards, leaving earlier days judged by the
+ * goal they had. Changes already scheduled on or after `from` are replaced,
+ * and a running program ends the day before.
+ */
+export function withTargetChange(habit: Habit, targetTime: number, from: string): Habit {
+  const history = habit.targetHistory?.length
+    ? habit.targetHistory
+    : [{ from: habit.createdAt ?? from, targetTime: habit.targetTime }];
+  const next = history.filter(change => change.from < from);
+  if (next[next.length - 1]?.targetTime !== targetTime) next.push({ from, targetTime });
+  const { program } = habit;
+  const dayBefore = toDateKey(subDays(parseDateKey(from), 1));
+  const endedProgram = program && program.startDate < from
+    ? { ...program, endDate: program.endDate && program.endDate < from ? program.endDate : dayBefore }
+    : undefined;
+  // A goal that never changed needs no history
+  return { ...habit, targetTime, targetHistory: next.length > 1 ? next : undefined, program: endedProgram };
+}
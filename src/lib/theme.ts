@@ -0,0 +1,46 @@
+import { ThemePreference } from '../types';
+
+export type Theme = Exclude<ThemePreference, 'system'>;
+
+export const THEME_OPTIONS: { theme: ThemePreference; label: string }[] = [
+  { theme: 'system', label: 'System' },
+  { theme: 'light', label: 'Light' },
+  { theme: 'dark', label: 'Dark' },
+  { theme: 'highContrast', label: 'High Contrast' },
+];
+
+export const isThemePreference = (value: unknown): value is ThemePreference =>
+  THEME_OPTIONS.some(option => option.theme === value);
+
+export const DARK_QUERY = '(prefers-color-scheme: dark)';
+export const CONTRAST_QUERY = '(prefers-contrast: more)';
+
+/** The theme to show for a preference; 'system' asks the device, with more contrast winning over dark. */
+export function resolveTheme(preference: ThemePreference): Theme {
+  if (preference !== 'system') return preference;
+  if (window.matchMedia(CONTRAST_QUERY).matches) return 'highContrast';
+  return window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light';
+}
+
+/** Switches the token set in index.css over to `theme`. */
+export function applyTheme(theme: Theme) {
+  document.documentElement.dataset.theme = theme;
+}
+
+// Picked to stay readable as cell shading on both the light and the dark paper
+export const HABIT_COLORS: { color: string; label: string }[] = [
+  { color: '#059669', label: 'Green' },
+  { color: '#0ea5e9', label: 'Sky' },
+  { color: '#6366f1', label: 'Indigo' },
+  { color: '#8b5cf6', label: 'Violet' },
+  { color: '#db2777', label: 'Pink' },
+  { color: '#e11d48', label: 'Red' },
+  { color: '#f59e0b', label: 'Amber' },
+  { color: '#84cc16', label: 'Lime' },
+];
+
+/** The color picked in the habit forms' ColorField, or undefined for none. */
+export const parseColorForm = (formData: FormData) => (formData.get('color') as string | null) || undefined;
+
+/** `color` at `percent` strength over whatever is behind it, e.g. for done cells. */
+export const tint = (color: string, percent: number) => `color-mix(in srgb, ${color} ${percent}%, transparent)`;
@@ -0,0 +1,210 @@
+import { AppState, Habit, HabitEntry, HabitSession, HabitStatus } from '../types';
+import { isRating, parseEntryTags } from './journal';
+
+export const EXPORT_VERSION = 1;
+
+const STATUSES: HabitStatus[] = ['done', 'failed', 'skipped', 'none'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CSV_COLUMNS = ['date', 'habit', 'status', 'timeSpent', 'notes'];
+const DEFAULT_TARGET_TIME = 30;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ExportFile extends AppState {
+  app: 'HabitGrid';
+  version: number;
+  exportedAt: string;
+}
+
+export interface EntryConflict {
+  existing: HabitEntry;
+  incoming: HabitEntry;
+}
+
+export class ImportError extends Error {}
+
+const entryKey = (e: Pick<HabitEntry, 'habitId' | 'date'>) => `${e.habitId}|${e.date}`;
+
+export function exportJson(state: AppState): string {
+  const file: ExportFile = {
+    app: 'HabitGrid',
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    habits: state.habits,
+    entries: state.entries,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function exportCsv(state: AppState): string {
+  const names = new Map(state.habits.map(h => [h.id, h.name]));
+  const rows = [...state.entries]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(e => [e.date, names.get(e.habitId) ?? e.habitId, e.status, e.timeSpent, e.notes].map(csvField).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+export function downloadFile(filename: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function validateSession(raw: any, where: string): HabitSession {
+  const duration = Number(raw?.duration);
+  if (typeof raw?.id !== 'string' || !Number.isFinite(duration) || duration < 0) {
+    throw new ImportError(`${where}: invalid session`);
+  }
+  return {
+    id: raw.id,
+    ...(raw.startTime ? { startTime: String(raw.startTime) } : {}),
+    duration: Math.round(duration),
+    ...(raw.note ? { note: String(raw.note) } : {}),
+  };
+}
+
+function validateEntry(raw: any, where: string): HabitEntry {
+  if (!raw || typeof raw.habitId !== 'string') throw new ImportError(`${where}: missing habitId`);
+  if (!DATE_PATTERN.test(raw.date)) throw new ImportError(`${where}: date must be yyyy-MM-dd`);
+  if (!STATUSES.includes(raw.status)) throw new ImportError(`${where}: unknown status "${raw.status}"`);
+  const timeSpent = Number(raw.timeSpent ?? 0);
+  if (!Number.isFinite(timeSpent) || timeSpent < 0) throw new ImportError(`${where}: invalid timeSpent`);
+  return {
+    habitId: raw.habitId,
+    date: raw.date,
+    status: raw.status,
+    timeSpent: Math.round(timeSpent),
+    ...(raw.notes ? { notes: String(raw.notes) } : {}),
+    ...(isRating(raw.mood) ? { mood: raw.mood } : {}),
+    ...(isRating(raw.energy) ? { energy: raw.energy } : {}),
+    ...(Array.isArray(raw.tags) && raw.tags.length ? { tags: parseEntryTags(raw.tags.map(String).join(' ')) } : {}),
+    ...(Array.isArray(raw.sessions) ? { sessions: raw.sessions.map((s: any) => validateSession(s, where)) } : {}),
+  };
+}
+
+/** Accepts a versioned export file or a bare `{ habits, entries }` blob. */
+export function parseJsonImport(text: string): AppState {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError('File is not valid JSON');
+  }
+  if (typeof data?.version === 'number' && data.version > EXPORT_VERSION) {
+    throw new ImportError(`Export version ${data.version} is newer than this app supports`);
+  }
+  if (!Array.isArray(data?.habits) || !Array.isArray(data?.entries)) {
+    throw new ImportError('Expected "habits" and "entries" arrays');
+  }
+
+  const habits: Habit[] = data.habits.map((raw: any, i: number) => {
+    const targetTime = Number(raw?.targetTime);
+    if (typeof raw?.id !== 'string' || typeof raw?.name !== 'string' || !raw.name.trim()) {
+      throw new ImportError(`Habit ${i + 1}: missing id or name`);
+    }
+    const minimum = raw.direction === 'atMost' ? 0 : 1;
+    if (!Number.isInteger(targetTime) || targetTime < minimum) {
+      throw new ImportError(`Habit "${raw.name}": targetTime must be a whole number of at least ${minimum}`);
+    }
+    return { ...raw, name: raw.name.trim(), targetTime };
+  });
+  const habitIds = new Set(habits.map(h => h.id));
+  const entries = data.entries.map((raw: any, i: number) => {
+    const entry = validateEntry(raw, `Entry ${i + 1}`);
+    if (!habitIds.has(entry.habitId)) throw new ImportError(`Entry ${i + 1}: unknown habit ${entry.habitId}`);
+    return entry;
+  });
+  return { habits, entries };
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new ImportError('CSV has an unterminated quoted field');
+  if (field !== '' || row.length > 0) rows.push([...row, field]);
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Habit names are matched case-insensitively against `knownHabits`; unknown
+ * names become new habits with a default target. The result lists every habit
+ * the rows reference, so it also stands on its own for a replace import.
+ */
+export function parseCsvImport(text: string, knownHabits: Habit[]): AppState {
+  const [header, ...rows] = parseCsvRows(text);
+  const columns = header?.map(c => c.trim());
+  const missing = CSV_COLUMNS.filter(c => c !== 'notes' && !columns?.includes(c));
+  if (!columns || missing.length > 0) throw new ImportError(`CSV is missing columns: ${missing.join(', ') || CSV_COLUMNS.join(', ')}`);
+
+  const byName = new Map(knownHabits.map(h => [h.name.trim().toLowerCase(), h]));
+  const habits = new Map<string, Habit>();
+  const entries = rows.map((cells, i) => {
+    const cell = (name: string) => cells[columns.indexOf(name)]?.trim() ?? '';
+    const name = cell('habit');
+    if (!name) throw new ImportError(`Row ${i + 2}: missing habit name`);
+    let habit = byName.get(name.toLowerCase());
+    if (!habit) {
+      habit = { id: Math.random().toString(36).substr(2, 9), name, targetTime: DEFAULT_TARGET_TIME };
+      byName.set(name.toLowerCase(), habit);
+    }
+    habits.set(habit.id, habit);
+    return validateEntry(
+      { habitId: habit.id, date: cell('date'), status: cell('status'), timeSpent: cell('timeSpent') || 0, notes: cell('notes') },
+      `Row ${i + 2}`
+    );
+  });
+  return { habits: [...habits.values()], entries };
+}
+
+export function findConflicts(existing: HabitEntry[], incoming: HabitEntry[]): EntryConflict[] {
+  const byKey = new Map(existing.map(e => [entryKey(e), e]));
+  return incoming.flatMap(entry => {
+    const current = byKey.get(entryKey(entry));
+    const differs = current && (
+      current.status !== entry.status || current.timeSpent !== entry.timeSpent || (current.notes ?? '') !== (entry.notes ?? '')
+    );
+    return differs ? [{ existing: current, incoming: entry }] : [];
+  });
+}
+
+/** Drops incoming entries that would overwrite a conflicting existing entry. */
+export function withoutConflicts(incoming: AppState, conflicts: EntryConflict[]): AppState {
+  const skipped = new Set(conflicts.map(c => entryKey(c.incoming)));
+  return { ...incoming, entries: incoming.entries.filter(e => !skipped.has(entryKey(e))) };
+}
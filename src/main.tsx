@@ -2,6 +2,22 @@ import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
+import {setDaySettings} from './lib/dates';
+import {loadDaySettings} from './hooks/useDaySettings';
+
+// Before anything renders, so every date works out from the saved day start and home time zone
+setDaySettings(loadDaySettings());
+
+// Caches the app shell for offline use and shows reminder notifications. Only in
+// builds, where the shell doesn't change under it; a new build ID installs a new worker.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  navigator.serviceWorker
+    .register(`/sw.js?build=${__BUILD_ID__}`)
+    .catch(err => console.error('Service worker registration failed', err));
+} else if ('serviceWorker' in navigator) {
+  // A worker left from a build would otherwise serve stale files to the dev server
+  navigator.serviceWorker.getRegistrations().then(registrations => registrations.forEach(r => r.unregister()));
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
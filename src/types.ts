@@ -1,18 +1,219 @@
-export type HabitStatus = 'done' | 'failed' | 'none';
+export type HabitStatus = 'done' | 'failed' | 'skipped' | 'none'; // skipped = planned rest day
+
+export type SchedulePeriod = 'week' | 'month';
+
+export type ScheduleFrequency =
+  | { kind: 'daily' }
+  | { kind: 'weekdays'; days: number[] } // 0 = Sunday, as returned by Date#getDay
+  | { kind: 'perPeriod'; count: number; period: SchedulePeriod }
+  | { kind: 'interval'; every: number }; // every N days, counted from startDate
+
+export interface HabitSchedule {
+  frequency: ScheduleFrequency;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
+
+// How a day earns credit: the done/failed mark, reaching targetTime, or a share of it
+export type SuccessRule = 'manual' | 'target' | 'partial';
+
+// What a habit measures: minutes spent, or a count of something in its own unit
+export type HabitMeasure = 'time' | 'count';
+
+// atLeast reaches for targetTime, atMost treats it as a limit that fails when exceeded
+export type TargetDirection = 'atLeast' | 'atMost';
+
+// A goal change; it holds from `from` until the next change
+export interface TargetChange {
+  from: string; // YYYY-MM-DD; the earliest change also covers every day before it
+  targetTime: number;
+}
+
+// linear grows the goal a little every day, step raises it once per period
+export type RampKind = 'linear' | 'step';
+
+// A goal that moves on its own, e.g. 10m growing by 5m a week up to 45m
+export interface TargetProgram {
+  startDate: string; // YYYY-MM-DD, the first day of week one
+  endDate?: string; // YYYY-MM-DD, set when a goal set by hand took over
+  start: number; // the goal in week one
+  ramp: RampKind;
+  increase: number; // per period; negative to taper a limit down
+  everyWeeks: number; // weeks per period
+  cap: number; // the goal stops here, from below or, when tapering, from above
+  deloadEvery?: number; // every Nth week is a lighter one; none when omitted
+  deloadPercent?: number; // the lighter week's goal as a percent of the scheduled one
+}
+
+// What a milestone counts: the amount logged, done days, or the longest streak
+export type MilestoneKind = 'total' | 'doneDays' | 'streak';
+
+// A long-term goal on top of the daily one, e.g. 100 hours of guitar by December 31
+export interface Milestone {
+  id: string;
+  kind: MilestoneKind;
+  target: number; // in the habit's unit (minutes for time habits) for totals, days otherwise
+  startDate: string; // YYYY-MM-DD, counting starts here
+  deadline: string; // YYYY-MM-DD, inclusive
+  achievedAt?: string; // YYYY-MM-DD, set once reached
+}
+
+// A reached milestone; it stays on record even if the milestone is removed
+export interface Achievement {
+  milestoneId: string;
+  kind: MilestoneKind;
+  target: number;
+  achievedAt: string; // YYYY-MM-DD
+}
 
 export interface Habit {
   id: string;
   name: string;
-  targetTime: number; // in minutes
+  targetTime: number; // latest target or limit, in minutes or the habit's unit
+  targetHistory?: TargetChange[]; // oldest first; absent while the goal has never changed
+  program?: TargetProgram; // sets the goal from its start date on, over targetTime and targetHistory
+  milestones?: Milestone[];
+  achievements?: Achievement[]; // oldest first
   color?: string;
+  schedule?: HabitSchedule; // daily when omitted
+  freezeDaysPerMonth?: number; // missed days per month that don't break a streak
+  successRule?: SuccessRule; // manual when omitted
+  measure?: HabitMeasure; // time when omitted
+  unit?: string; // plural label for count habits, e.g. 'glasses'
+  direction?: TargetDirection; // atLeast when omitted
+  group?: string; // collapsible column group, e.g. 'Health'
+  tags?: string[];
+  archivedAt?: string; // YYYY-MM-DD; archived habits leave the grid but keep their history
+  reminderTime?: string; // HH:mm; notify at this time when today is still unlogged
+  deletedAt?: string; // ISO timestamp, only set on habits listed from the trash
+  createdAt?: string; // YYYY-MM-DD
+  version?: number; // set by the server, bumped on every stored change
+  updatedAt?: string; // set by the server
 }
 
+export interface HabitSession {
+  id: string;
+  startTime?: string; // HH:mm, local time
+  duration: number; // in minutes, or the habit's unit for count habits
+  note?: string;
+}
+
+// A 1-5 self-rating logged with a day, 5 being best
+export type Rating = 1 | 2 | 3 | 4 | 5;
+
 export interface HabitEntry {
   habitId: string;
   date: string; // ISO string (YYYY-MM-DD)
   status: HabitStatus;
-  timeSpent: number; // in minutes
+  timeSpent: number; // amount logged in the habit's unit, the sum of sessions when present
   notes?: string;
+  mood?: Rating;
+  energy?: Rating;
+  tags?: string[]; // lowercase, without the leading #
+  sessions?: HabitSession[];
+  version?: number; // set by the server, bumped on every stored change
+  updatedAt?: string; // set by the server
+}
+
+// A day changed on this device and on another since they last synced
+export interface SyncConflict {
+  habitId: string;
+  date: string;
+  base: HabitEntry | null; // the copy this device's change was made from
+  mine: HabitEntry | null; // null when this device cleared the day
+  theirs: HabitEntry | null; // the server's copy; null when it was cleared elsewhere
+}
+
+export type ActivityAction =
+  | 'habit.create'
+  | 'habit.update'
+  | 'habit.delete'
+  | 'habit.restore'
+  | 'habit.reorder'
+  | 'entry.save'
+  | 'entry.delete'
+  | 'import';
+
+export interface ActivityItem {
+  id: number;
+  at: string; // ISO timestamp
+  action: ActivityAction;
+  habitId?: string;
+  habitName?: string;
+  date?: string; // YYYY-MM-DD, for entry changes
+  before?: Habit | HabitEntry; // absent when the record didn't exist yet
+  after?: Habit | HabitEntry; // absent when the record was removed
+}
+
+// A change the weekly insights propose for one habit
+export interface InsightAdjustment {
+  habitId: string;
+  kind: 'targetTime' | 'schedule';
+  suggestion: string; // one sentence for the user
+  targetTime?: number; // the proposed goal, on targetTime adjustments
+}
+
+export interface WeeklyInsights {
+  weekStart: string; // YYYY-MM-DD, a Monday
+  weekEnd: string; // YYYY-MM-DD, the Sunday after
+  summary: string;
+  patterns: string[];
+  obstacles: string[]; // as mentioned in the notes
+  adjustments: InsightAdjustment[];
+  generatedAt: string; // ISO timestamp
+}
+
+// 'system' follows the device's light/dark and contrast preferences
+export type ThemePreference = 'system' | 'light' | 'dark' | 'highContrast';
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  theme?: ThemePreference; // unset until picked, which reads as 'system'
+}
+
+// An accountability group; named "team" in code since habit columns already have groups
+export interface Team {
+  id: string;
+  name: string;
+  inviteCode: string; // shared with friends to join
+  memberCount: number;
+}
+
+// What a teammate shows the team: only the habits they shared, with entries stripped of notes
+export interface TeamMember {
+  userId: string;
+  name: string;
+  habits: Habit[];
+  entries: HabitEntry[];
+}
+
+export interface LeaderboardRow {
+  userId: string;
+  name: string;
+  habitId: string;
+  daysMet: number; // days in the challenge so far that reached its target
+  total: number; // amount logged during the challenge
+  streak: number; // days met in a row up to today
+}
+
+// "Everyone does 20m reading for 30 days", scored from the participants' shared entries
+export interface Challenge {
+  id: string;
+  teamId: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  days: number;
+  target: number; // per day, in minutes or the habits' unit
+  measure: HabitMeasure;
+  leaderboard: LeaderboardRow[]; // best first
+}
+
+export interface TeamDetail extends Team {
+  members: TeamMember[];
+  challenges: Challenge[];
+  sharedHabitIds: string[]; // the signed-in user's habits shown to this team
 }
 
 export interface AppState {
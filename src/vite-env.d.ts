@@ -0,0 +1,4 @@
+/// <reference types="vite/client" />
+
+// Set by vite.config.ts, different for every build
+declare const __BUILD_ID__: string;
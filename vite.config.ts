@@ -9,6 +9,8 @@ export default defineConfig(({mode}) => {
     plugins: [react(), tailwindcss()],
     define: {
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      // Names the service worker's cache, so each build precaches its own shell
+      __BUILD_ID__: JSON.stringify(Date.now().toString(36)),
     },
     resolve: {
       alias: {